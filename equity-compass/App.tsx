@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Client } from './types';
+import { Client, ClientProfile } from './types';
 import { AddClientModal } from './components/AddClientModal';
 import { ClientDetail } from './components/ClientDetail';
 import { Button } from './components/Button';
 import { Login } from './components/Login';
-import { Users, LayoutGrid, LogOut, Search, Loader2 } from 'lucide-react';
+import { Users, LayoutGrid, LogOut, Search, Loader2, AlertTriangle } from 'lucide-react';
 import { useAuth } from './contexts/AuthContext';
 import { getClients, saveClient } from './services/firestoreService';
+import { formatCurrency, getExpiringGrants, getFederalRates } from './utils/calculations';
+import { DEFAULT_EXPIRATION_HORIZON_DAYS, EXPIRATION_HORIZON_OPTIONS, getExpirationHorizonLabel } from './utils/expiration';
 
 const App: React.FC = () => {
   // --- Auth State ---
@@ -18,6 +20,8 @@ const App: React.FC = () => {
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [isAddClientModalOpen, setIsAddClientModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // Option grants whose exercise deadline falls within this many days are flagged
+  const [expirationHorizon, setExpirationHorizon] = useState<number>(DEFAULT_EXPIRATION_HORIZON_DAYS);
 
   // --- Fetch Clients on Load ---
   useEffect(() => {
@@ -35,26 +39,12 @@ const App: React.FC = () => {
   }, [user]);
 
   // --- Handlers ---
-  const handleAddClient = async (
-    name: string, 
-    taxBracket: number, 
-    state: string, 
-    filingStatus: 'single' | 'married_joint', 
-    estimatedIncome: number, 
-    customState?: number, 
-    customLtcg?: number
-  ) => {
+  const handleAddClient = async (profile: ClientProfile) => {
     if (!user) return;
 
     const newClient: Client = {
+      ...profile,
       id: crypto.randomUUID(),
-      name,
-      taxBracket,
-      state,
-      filingStatus,
-      estimatedIncome,
-      customStateTaxRate: customState,
-      customLtcgTaxRate: customLtcg,
       grants: [],
       plannedExercises: []
     };
@@ -142,6 +132,7 @@ const App: React.FC = () => {
             client={activeClient} 
             onBack={() => setSelectedClientId(null)}
             onUpdateClient={handleUpdateClient}
+            expirationHorizonDays={expirationHorizon}
           />
         ) : (
           <div className="max-w-6xl mx-auto space-y-8 print:hidden">
@@ -158,15 +149,27 @@ const App: React.FC = () => {
             </div>
 
             {/* Search */}
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
-              <input 
-                type="text" 
-                placeholder="Search clients by name..." 
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-10 pr-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-tidemark-blue outline-none shadow-sm"
-              />
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
+                <input 
+                  type="text" 
+                  placeholder="Search clients by name..." 
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-tidemark-blue outline-none shadow-sm"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-500 whitespace-nowrap">
+                Flag options expiring within
+                <select
+                  value={expirationHorizon}
+                  onChange={(e) => setExpirationHorizon(parseInt(e.target.value))}
+                  className="px-3 py-3 bg-white border border-slate-200 rounded-xl text-slate-800 focus:ring-2 focus:ring-tidemark-blue outline-none shadow-sm"
+                >
+                  {EXPIRATION_HORIZON_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+                </select>
+              </label>
             </div>
 
             {/* Loading State */}
@@ -178,7 +181,9 @@ const App: React.FC = () => {
             ) : (
                 /* Client Grid */
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredClients.map(client => (
+                {filteredClients.map(client => {
+                    const expiring = getExpiringGrants(client, expirationHorizon);
+                    return (
                     <div 
                     key={client.id} 
                     onClick={() => setSelectedClientId(client.id)}
@@ -189,7 +194,7 @@ const App: React.FC = () => {
                         {client.name.charAt(0)}
                         </div>
                         <span className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded font-medium">
-                        {client.taxBracket}% Tax
+                        {Math.round(getFederalRates(client).marginalRate * 100)}% Tax
                         </span>
                     </div>
                     
@@ -197,6 +202,20 @@ const App: React.FC = () => {
                     <p className="text-slate-500 text-sm mb-4">
                         {client.grants.length} Active Grant{client.grants.length !== 1 ? 's' : ''}
                     </p>
+
+                    {expiring.length > 0 && (
+                        <div className="mb-4 flex gap-2 items-start p-3 rounded-lg bg-red-50 border border-red-100 text-xs text-red-800">
+                        <AlertTriangle size={16} className="shrink-0" />
+                        <div>
+                            <p className="font-semibold">
+                            {expiring.length} option grant{expiring.length !== 1 ? 's' : ''} expiring within {getExpirationHorizonLabel(expirationHorizon)}
+                            </p>
+                            <p>
+                            {formatCurrency(expiring.reduce((sum, e) => sum + e.valueAtRisk, 0))} at risk &middot; first on {expiring[0].deadline}
+                            </p>
+                        </div>
+                        </div>
+                    )}
                     
                     <div className="pt-4 border-t border-slate-100 flex items-center justify-between text-sm">
                         <span className="text-slate-500">View Details</span>
@@ -205,7 +224,8 @@ const App: React.FC = () => {
                         </span>
                     </div>
                     </div>
-                ))}
+                    );
+                })}
                 
                 {filteredClients.length === 0 && (
                     <div className="col-span-full text-center py-12 text-slate-400 bg-white rounded-xl border border-dashed border-slate-300">
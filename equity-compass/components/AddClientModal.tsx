@@ -1,76 +1,113 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './Button';
-import { X, ChevronDown, ChevronUp } from 'lucide-react';
-import { STATE_TAX_RATES } from '../utils/calculations';
+import { X, ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { STATE_OPTIONS, getStateMarginalRate } from '../utils/stateTax';
+import { TAX_REGIMES, DEFAULT_TAX_REGIME, FILING_STATUSES, resolveTaxRegime } from '../utils/taxParameters';
+import { ClientProfile, FilingStatus, ResidencyPeriod, TaxRegime } from '../types';
+import { getResidentState } from '../utils/residency';
+import { getFederalRates } from '../utils/calculations';
 
 interface AddClientModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string, taxBracket: number, state: string, filingStatus: 'single' | 'married_joint', income: number, customState?: number, customLtcg?: number) => void;
-  initialData?: { 
-    name: string; 
-    taxBracket: number; 
-    state: string;
-    filingStatus?: 'single' | 'married_joint';
-    estimatedIncome?: number;
-    customStateTaxRate?: number;
-    customLtcgTaxRate?: number;
-  };
+  onSave: (profile: ClientProfile) => void;
+  initialData?: ClientProfile;
 }
 
 export const AddClientModal: React.FC<AddClientModalProps> = ({ isOpen, onClose, onSave, initialData }) => {
   const [name, setName] = useState('');
-  const [taxBracket, setTaxBracket] = useState(37);
+  const [taxBracket, setTaxBracket] = useState<string>('');
+  const [useManualTaxBracket, setUseManualTaxBracket] = useState(false);
   const [state, setState] = useState('CA');
-  const [filingStatus, setFilingStatus] = useState<'single' | 'married_joint'>('married_joint');
+  const [filingStatus, setFilingStatus] = useState<FilingStatus>('married_joint');
+  const [taxRegime, setTaxRegime] = useState<TaxRegime>(DEFAULT_TAX_REGIME);
   const [estimatedIncome, setEstimatedIncome] = useState<number>(250000);
+  const [residencyHistory, setResidencyHistory] = useState<ResidencyPeriod[]>([]);
   
   // Custom Overrides
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [customStateTax, setCustomStateTax] = useState<string>('');
   const [customLtcgTax, setCustomLtcgTax] = useState<string>('');
+  const [amtCredit, setAmtCredit] = useState<string>('');
+  const [priorFederalTax, setPriorFederalTax] = useState<string>('');
+  const [priorStateTax, setPriorStateTax] = useState<string>('');
+  const [priorAGI, setPriorAGI] = useState<string>('');
 
   useEffect(() => {
     if (isOpen && initialData) {
       setName(initialData.name);
-      setTaxBracket(initialData.taxBracket);
+      // A bracket saved without the opt-in predates the derived bracket and isn't carried over
+      setUseManualTaxBracket(!!initialData.useManualTaxBracket);
+      setTaxBracket(initialData.useManualTaxBracket ? initialData.taxBracket?.toString() || '' : '');
       setState(initialData.state || 'CA');
       setFilingStatus(initialData.filingStatus || 'married_joint');
       setEstimatedIncome(initialData.estimatedIncome || 250000);
+      setTaxRegime(resolveTaxRegime(initialData.taxRegime || DEFAULT_TAX_REGIME));
+      setResidencyHistory(initialData.residencyHistory || []);
       setCustomStateTax(initialData.customStateTaxRate?.toString() || '');
       setCustomLtcgTax(initialData.customLtcgTaxRate?.toString() || '');
+      setAmtCredit(initialData.priorAmtCreditCarryforward?.toString() || '');
+      setPriorFederalTax(initialData.priorYearFederalTax?.toString() || '');
+      setPriorStateTax(initialData.priorYearStateTax?.toString() || '');
+      setPriorAGI(initialData.priorYearAGI?.toString() || '');
     } else if (isOpen) {
       setName('');
-      setTaxBracket(37);
+      setTaxBracket('');
+      setUseManualTaxBracket(false);
       setState('CA');
       setFilingStatus('married_joint');
       setEstimatedIncome(250000);
+      setTaxRegime(DEFAULT_TAX_REGIME);
+      setResidencyHistory([]);
       setCustomStateTax('');
       setCustomLtcgTax('');
+      setAmtCredit('');
+      setPriorFederalTax('');
+      setPriorStateTax('');
+      setPriorAGI('');
       setShowAdvanced(false);
     }
   }, [isOpen, initialData]);
 
   if (!isOpen) return null;
 
+  const validHistory = residencyHistory.filter(p => p.state && p.startDate);
+  // With a residency history, the current state is whichever period covers today
+  const currentState = validHistory.length > 0
+    ? getResidentState({ id: '', name, state, filingStatus, residencyHistory: validHistory, grants: [], plannedExercises: [] }, new Date())
+    : state;
+
+  const updateResidency = (index: number, changes: Partial<ResidencyPeriod>) => {
+    setResidencyHistory(residencyHistory.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(
-        name, 
-        taxBracket, 
-        state, 
+    onSave({
+        name,
+        taxBracket: useManualTaxBracket && taxBracket ? parseFloat(taxBracket) : undefined,
+        useManualTaxBracket: useManualTaxBracket && taxBracket ? true : undefined,
+        state: currentState,
+        residencyHistory: validHistory.length > 0 ? validHistory : undefined,
         filingStatus,
         estimatedIncome,
-        customStateTax ? parseFloat(customStateTax) : undefined,
-        customLtcgTax ? parseFloat(customLtcgTax) : undefined
-    );
+        taxRegime,
+        customStateTaxRate: customStateTax ? parseFloat(customStateTax) : undefined,
+        customLtcgTaxRate: customLtcgTax ? parseFloat(customLtcgTax) : undefined,
+        priorAmtCreditCarryforward: amtCredit ? parseFloat(amtCredit) : undefined,
+        priorYearFederalTax: priorFederalTax ? parseFloat(priorFederalTax) : undefined,
+        priorYearStateTax: priorStateTax ? parseFloat(priorStateTax) : undefined,
+        priorYearAGI: priorAGI ? parseFloat(priorAGI) : undefined
+    });
     if (!initialData) {
       setName('');
     }
     onClose();
   };
 
-  const states = Object.keys(STATE_TAX_RATES);
+  const stateMarginalRate = getStateMarginalRate(currentState, filingStatus, estimatedIncome || 0);
+  // Salary-only bracket as a hint; vest income is added once grants exist
+  const derivedFedRate = getFederalRates({ id: '', name, state: currentState, filingStatus, estimatedIncome, taxRegime, customStateTaxRate: customStateTax ? parseFloat(customStateTax) : undefined, grants: [], plannedExercises: [] }).marginalRate;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-tidemark-navy/40 backdrop-blur-sm">
@@ -102,11 +139,12 @@ export const AddClientModal: React.FC<AddClientModalProps> = ({ isOpen, onClose,
               <label className="block text-sm font-semibold text-slate-700 mb-2">Filing Status</label>
               <select
                 value={filingStatus}
-                onChange={(e) => setFilingStatus(e.target.value as 'single' | 'married_joint')}
+                onChange={(e) => setFilingStatus(e.target.value as FilingStatus)}
                 className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none"
               >
-                <option value="single">Single</option>
-                <option value="married_joint">Married Filing Jointly</option>
+                {FILING_STATUSES.map(f => (
+                  <option key={f.value} value={f.value}>{f.label}</option>
+                ))}
               </select>
             </div>
              <div>
@@ -126,33 +164,103 @@ export const AddClientModal: React.FC<AddClientModalProps> = ({ isOpen, onClose,
             <div>
               <label className="block text-sm font-semibold text-slate-700 mb-2">State</label>
               <select
-                value={state}
+                value={currentState}
                 onChange={(e) => setState(e.target.value)}
-                className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue focus:border-tidemark-blue outline-none"
+                disabled={validHistory.length > 0}
+                className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue focus:border-tidemark-blue outline-none disabled:bg-slate-50 disabled:text-slate-500"
               >
-                {states.map(s => (
-                  <option key={s} value={s}>{s}</option>
+                {STATE_OPTIONS.map(s => (
+                  <option key={s.code} value={s.code}>{s.name}</option>
                 ))}
               </select>
             </div>
             <div>
-              <label className="block text-sm font-semibold text-slate-700 mb-2">Fed Ord. Tax (%)</label>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-semibold text-slate-700">Fed Bracket Override (Optional)</label>
+                <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 cursor-pointer">
+                  <input type="checkbox" checked={useManualTaxBracket} onChange={(e) => setUseManualTaxBracket(e.target.checked)} />
+                  Use manual bracket
+                </label>
+              </div>
               <div className="relative">
                 <input
                   type="number"
-                  required
                   min="0"
                   max="100"
                   step="0.1"
-                  value={taxBracket}
-                  onChange={(e) => setTaxBracket(parseFloat(e.target.value))}
-                  className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue focus:border-tidemark-blue outline-none pr-8 transition-all"
+                  value={useManualTaxBracket ? taxBracket : ''}
+                  onChange={(e) => setTaxBracket(e.target.value)}
+                  disabled={!useManualTaxBracket}
+                  required={useManualTaxBracket}
+                  placeholder={`Auto (${(derivedFedRate * 100).toFixed(0)})`}
+                  className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue focus:border-tidemark-blue outline-none pr-8 transition-all disabled:bg-slate-50 disabled:text-slate-500"
                 />
                 <span className="absolute right-3 top-2.5 text-slate-500 font-medium">%</span>
               </div>
             </div>
           </div>
           
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-semibold text-slate-700">Residency History</label>
+              <button
+                type="button"
+                onClick={() => setResidencyHistory([...residencyHistory, { state: currentState, startDate: new Date().toISOString().split('T')[0] }])}
+                className="flex items-center gap-1 text-xs font-medium text-tidemark-blue hover:text-tidemark-navy transition-colors"
+              >
+                <Plus size={14} /> Add Move
+              </button>
+            </div>
+            {residencyHistory.length === 0 ? (
+              <p className="text-xs text-slate-500">No moves recorded. All equity income is sourced to {currentState}.</p>
+            ) : (
+              <div className="space-y-2">
+                {residencyHistory.map((period, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                    <select
+                      value={period.state}
+                      onChange={(e) => updateResidency(i, { state: e.target.value })}
+                      className="px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                    >
+                      {STATE_OPTIONS.map(s => (
+                        <option key={s.code} value={s.code}>{s.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="date"
+                      required
+                      value={period.startDate}
+                      onChange={(e) => updateResidency(i, { startDate: e.target.value })}
+                      className="px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setResidencyHistory(residencyHistory.filter((_, idx) => idx !== i))}
+                      className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-[10px] text-slate-400">Resident from each start date until the next move. RSU income is sourced by workdays from grant to vest, ISO spread from grant to exercise.</p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">Tax Law Regime</label>
+            <select
+              value={taxRegime}
+              onChange={(e) => setTaxRegime(e.target.value as TaxRegime)}
+              className="w-full px-4 py-2.5 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none"
+            >
+              {TAX_REGIMES.map(r => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">{TAX_REGIMES.find(r => r.value === taxRegime)?.description}</p>
+          </div>
+
           <div className="pt-2">
             <button 
                 type="button" 
@@ -174,7 +282,7 @@ export const AddClientModal: React.FC<AddClientModalProps> = ({ isOpen, onClose,
                             step="0.01"
                             value={customStateTax}
                             onChange={(e) => setCustomStateTax(e.target.value)}
-                            placeholder={((STATE_TAX_RATES[state] || 0) * 100).toFixed(2)}
+                            placeholder={(stateMarginalRate * 100).toFixed(2)}
                             className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
                         />
                      </div>
@@ -187,12 +295,62 @@ export const AddClientModal: React.FC<AddClientModalProps> = ({ isOpen, onClose,
                             step="0.1"
                             value={customLtcgTax}
                             onChange={(e) => setCustomLtcgTax(e.target.value)}
-                            placeholder={taxBracket > 32 ? "20" : "15"}
+                            placeholder="Auto (0/15/20% stacked)"
+                            className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                        />
+                     </div>
+                     <div className="col-span-2">
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Prior-Year AMT Credit Carryforward ($)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={amtCredit}
+                            onChange={(e) => setAmtCredit(e.target.value)}
+                            placeholder="0"
+                            className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                        />
+                        <p className="text-[10px] text-slate-400 mt-1">Form 8801 line 26 from last year's return.</p>
+                     </div>
+                     <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Prior-Year Federal Tax ($)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={priorFederalTax}
+                            onChange={(e) => setPriorFederalTax(e.target.value)}
+                            placeholder="Form 1040 total tax"
+                            className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                        />
+                     </div>
+                     <div>
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Prior-Year State Tax ($)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={priorStateTax}
+                            onChange={(e) => setPriorStateTax(e.target.value)}
+                            placeholder="0"
+                            className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
+                        />
+                     </div>
+                     <div className="col-span-2">
+                        <label className="block text-xs font-semibold text-slate-500 mb-1">Prior-Year AGI ($)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={priorAGI}
+                            onChange={(e) => setPriorAGI(e.target.value)}
+                            placeholder="0"
                             className="w-full px-3 py-2 bg-slate-50 text-slate-900 border border-slate-200 rounded-lg focus:ring-2 focus:ring-tidemark-blue outline-none text-sm"
                         />
+                        <p className="text-[10px] text-slate-400 mt-1">Used for estimated-payment safe harbors (110% of prior-year tax above $150k AGI, $75k if filing separately).</p>
                      </div>
                      <p className="col-span-2 text-[10px] text-slate-400">
-                         Leave blank to use system defaults based on State and Tax Bracket.
+                         Leave blank to use the state's bracketed schedule and federal 0/15/20% gains brackets stacked on income.
                      </p>
                 </div>
             )}
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { Client } from '../types';
+import { IMPORT_PLATFORMS, ImportPlatform, applyImport, describeGrant, detectImportPlatform, diffImport, parseImport } from '../utils/brokerageImport';
+import { parseCSV } from '../utils/csv';
+import { readXlsxSheets } from '../utils/xlsx';
+import { TRANSACTION_TYPE_LABELS } from '../utils/ledger';
+import { VESTING_TEMPLATES } from '../utils/vesting';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { AlertTriangle, Loader2, Upload } from 'lucide-react';
+
+interface BrokerageImportFormProps {
+  client: Client;
+  onMerge: (client: Client) => void;
+  onCancel: () => void;
+}
+
+const CHANGE_STYLES: Record<string, string> = {
+  add: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  update: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  unchanged: 'bg-slate-50 text-slate-500 border-slate-200',
+  duplicate: 'bg-slate-50 text-slate-500 border-slate-200',
+  unmatched: 'bg-amber-50 text-amber-700 border-amber-200'
+};
+
+const CHANGE_LABELS: Record<string, string> = {
+  add: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  duplicate: 'Already Recorded',
+  unmatched: 'No Matching Grant'
+};
+
+export const BrokerageImportForm: React.FC<BrokerageImportFormProps> = ({ client, onMerge, onCancel }) => {
+  const [platformChoice, setPlatformChoice] = useState<ImportPlatform | 'auto'>('auto');
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<string[][][] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState('');
+  // Unticked rows on the review screen; everything new or changed is merged by default
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const detected = useMemo(() => sheets ? detectImportPlatform(sheets) : undefined, [sheets]);
+  const platform = platformChoice === 'auto' ? detected : platformChoice;
+  const diff = useMemo(() => sheets && platform ? diffImport(client, parseImport(sheets, platform)) : null, [client, sheets, platform]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setReadError('');
+    const read = /\.xlsx$/i.test(file.name)
+      ? file.arrayBuffer().then(readXlsxSheets)
+      : file.text().then(text => [parseCSV(text)]);
+    read
+      .then(result => {
+        setSheets(result);
+        setFileName(file.name);
+        setExcluded([]);
+      })
+      .catch(() => setReadError(`Couldn't read ${file.name}. Export it as .csv or .xlsx and try again.`))
+      .finally(() => setIsReading(false));
+  };
+
+  const toggle = (id: string) => setExcluded(excluded.includes(id) ? excluded.filter(x => x !== id) : [...excluded, id]);
+
+  const isSelectable = (id: string): boolean => {
+    const grant = diff?.grants.find(d => d.id === id);
+    if (grant) return grant.change !== 'unchanged';
+    const transaction = diff?.transactions.find(d => d.id === id);
+    return transaction?.change === 'add' && (!transaction.grantDiffId || !excluded.includes(transaction.grantDiffId));
+  };
+  const accepted = new Set([...(diff?.grants || []), ...(diff?.transactions || [])]
+    .map(d => d.id)
+    .filter(id => isSelectable(id) && !excluded.includes(id)));
+
+  const handleMerge = () => {
+    if (diff) onMerge(applyImport(client, diff, accepted, () => crypto.randomUUID()));
+  };
+
+  const count = <T extends { change: string }>(items: T[], change: string) => items.filter(d => d.change === change).length;
+
+  const inputClass = "w-full px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-900 placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+  const labelClass = "block text-sm font-semibold text-slate-700 mb-1.5";
+  const theadClass = "text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100";
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-5 items-end">
+        <div>
+          <label className={labelClass}>Platform</label>
+          <select value={platformChoice} onChange={(e) => { setPlatformChoice(e.target.value as ImportPlatform | 'auto'); setExcluded([]); }} className={inputClass}>
+            <option value="auto">Detect from file{sheets ? ` (${detected ? IMPORT_PLATFORMS[detected].label : 'not recognized'})` : ''}</option>
+            {(Object.keys(IMPORT_PLATFORMS) as ImportPlatform[]).map(p => <option key={p} value={p}>{IMPORT_PLATFORMS[p].label}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center justify-center gap-2 px-4 py-2 border border-dashed border-slate-300 rounded-lg text-sm font-semibold text-tidemark-blue hover:text-tidemark-navy hover:border-tidemark-blue cursor-pointer">
+          {isReading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+          {fileName || 'Choose Export (.csv or .xlsx)'}
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500">
+        {platform
+          ? `${IMPORT_PLATFORMS[platform].label}: ${IMPORT_PLATFORMS[platform].source}`
+          : 'Grant summaries, vest schedules and transaction histories are supported. Nothing is saved until you review the changes and merge.'}
+      </p>
+      {readError && <p className="text-sm font-medium text-red-600">{readError}</p>}
+      {sheets && !platform && <p className="text-sm font-medium text-amber-700">The file's columns don't match a known export. Choose the platform it came from.</p>}
+
+      {diff && (
+        <>
+          <div className="text-sm text-slate-600">
+            <span className="font-semibold text-slate-800">Grants:</span> {count(diff.grants, 'add')} new, {count(diff.grants, 'update')} updated, {count(diff.grants, 'unchanged')} unchanged
+            <span className="mx-2 text-slate-300">|</span>
+            <span className="font-semibold text-slate-800">Transactions:</span> {count(diff.transactions, 'add')} new, {count(diff.transactions, 'duplicate')} already recorded, {count(diff.transactions, 'unmatched')} without a grant
+          </div>
+
+          {diff.warnings.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+              {diff.warnings.map(w => (
+                <p key={w} className="flex items-start gap-2"><AlertTriangle size={14} className="shrink-0 mt-0.5" /> {w}</p>
+              ))}
+            </div>
+          )}
+
+          {diff.grants.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-x-auto max-h-72 overflow-y-auto">
+              <table className="w-full text-sm text-left">
+                <thead className={theadClass}>
+                  <tr>
+                    <th className="px-3 py-3">Merge</th>
+                    <th className="px-3 py-3">Grant</th>
+                    <th className="px-3 py-3">Change</th>
+                    <th className="px-3 py-3">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {diff.grants.map(d => {
+                    const g = d.imported.grant;
+                    return (
+                      <tr key={d.id} className={accepted.has(d.id) ? '' : 'text-slate-400'}>
+                        <td className="px-3 py-2">
+                          <input type="checkbox" checked={accepted.has(d.id)} disabled={!isSelectable(d.id)} onChange={() => toggle(d.id)} />
+                        </td>
+                        <td className="px-3 py-2 font-medium whitespace-nowrap">{describeGrant(g)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`text-xs px-2 py-0.5 rounded border font-medium whitespace-nowrap ${CHANGE_STYLES[d.change]}`}>{CHANGE_LABELS[d.change]}</span>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-slate-600">
+                          {d.change === 'add' && (
+                            <>
+                              {formatNumber(g.totalShares)} shares{g.strikePrice !== undefined ? ` at ${formatCurrency(g.strikePrice)}` : ''}
+                              {' · '}{g.vestingSchedule === 'custom' ? `${(g.vestingTranches || []).length} vest dates` : VESTING_TEMPLATES.find(t => t.id === g.vestingSchedule)?.label}
+                              {' · '}Current price {d.currentPrice ? formatCurrency(d.currentPrice) : 'not set'}
+                            </>
+                          )}
+                          {d.fieldChanges.map(c => (
+                            <div key={c.label}><span className="font-semibold">{c.label}:</span> {c.from} → {c.to}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {diff.transactions.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-x-auto max-h-72 overflow-y-auto">
+              <table className="w-full text-sm text-left">
+                <thead className={theadClass}>
+                  <tr>
+                    <th className="px-3 py-3">Merge</th>
+                    <th className="px-3 py-3">Date</th>
+                    <th className="px-3 py-3">Type</th>
+                    <th className="px-3 py-3">Grant</th>
+                    <th className="px-3 py-3 text-right">Shares</th>
+                    <th className="px-3 py-3 text-right">Price</th>
+                    <th className="px-3 py-3">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {diff.transactions.map(d => {
+                    const t = d.imported.transaction;
+                    return (
+                      <tr key={d.id} className={accepted.has(d.id) ? '' : 'text-slate-400'}>
+                        <td className="px-3 py-2">
+                          <input type="checkbox" checked={accepted.has(d.id)} disabled={!isSelectable(d.id)} onChange={() => toggle(d.id)} />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{t.date}</td>
+                        <td className="px-3 py-2">{TRANSACTION_TYPE_LABELS[t.type]}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{d.grantLabel}</td>
+                        <td className="px-3 py-2 text-right">{formatNumber(t.shares)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(t.price)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`text-xs px-2 py-0.5 rounded border font-medium whitespace-nowrap ${CHANGE_STYLES[d.change]}`}>{CHANGE_LABELS[d.change]}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {diff.grants.length === 0 && diff.transactions.length === 0 && (
+            <p className="text-sm text-slate-500">No grants or transactions were found in {fileName}.</p>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-3 pt-6 border-t border-slate-100 mt-2">
+        <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleMerge} className="flex-1" disabled={accepted.size === 0}>
+          {accepted.size > 0 ? `Merge ${accepted.size} Change${accepted.size === 1 ? '' : 's'}` : 'Merge'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,50 +1,163 @@
 import React, { useState, useMemo } from 'react';
-import { Client, Grant, VestingEvent, PlannedExercise } from '../types';
+import { Client, ClientProfile, Grant, PlannedExercise, PlannedSale, PricePoint, PSUPayoutLevel, Transaction, VestingEvent } from '../types';
 import { GrantForm } from './GrantForm';
+import { CorporateActionForm } from './CorporateActionForm';
+import { TransactionForm } from './TransactionForm';
+import { PriceHistoryForm } from './PriceHistoryForm';
+import { BrokerageImportForm } from './BrokerageImportForm';
 import { AddClientModal } from './AddClientModal';
 import { ISOPlanner } from './ISOPlanner';
+import { ESPPPlanner } from './ESPPPlanner';
+import { EstimatedTaxPlanner } from './EstimatedTaxPlanner';
+import { SalePlanner } from './SalePlanner';
 import { Button } from './Button';
-import { ArrowLeft, Plus, DollarSign, PieChart, TrendingUp, AlertTriangle, Settings, Coins, Building, Download, Printer, CheckCircle, Lock, Edit2, Trash2, X } from 'lucide-react';
-import { generateVestingSchedule, getQuarterlyProjections, formatCurrency, formatNumber, formatPercent, getEffectiveRates, getGrantStatus } from '../utils/calculations';
+import { ArrowLeft, Plus, DollarSign, PieChart, TrendingUp, AlertTriangle, Settings, Coins, Building, Download, Printer, CheckCircle, Lock, Edit2, Trash2, X, LogOut, GitMerge, RotateCcw, ArrowRight, BookOpen, Layers, LineChart, Upload } from 'lucide-react';
+import { generateClientVestingSchedule, getQuarterlyProjections, formatCurrency, formatNumber, formatPercent, getEffectiveRates, getGrantStatus, calculateAMTProjection, compareTaxYears, getClientTaxRegime, getFederalRates, calculateAMTRoom, allocatePlannedExercise, formatStateAllocations, isSupplementalWageEvent, isStockUnitGrant, applyPSUPayout, calculatePSUOutcomes, compare83bElection, calculateTerminationImpact, getExerciseSplit, getISOLimitSplit, getExpiringGrants } from '../utils/calculations';
+import { getExerciseTaxType, getTerminationDate, isExpiredExercise } from '../utils/termination';
+import { DEFAULT_EXPIRATION_HORIZON_DAYS, getExpirationDate, getExpirationHorizonLabel } from '../utils/expiration';
+import { CORPORATE_ACTION_LABELS, CorporateActionInput, applyCorporateAction, describeCorporateAction, revertCorporateAction } from '../utils/corporateActions';
+import { LEDGER_MATCH_WINDOW_DAYS, TRANSACTION_TYPE_LABELS, getSaleProceeds, getTaxWithheld } from '../utils/ledger';
+import { getHoldings } from '../utils/taxLots';
+import { LOT_SELECTION_LABELS } from '../utils/salePlanner';
+import { getPriceHistoryKey } from '../utils/priceHistory';
+import { downloadCSVFile } from '../utils/csv';
+import { TAX_REGIMES, getAvailableTaxYears } from '../utils/taxParameters';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Line } from 'recharts';
 
 interface ClientDetailProps {
   client: Client;
   onBack: () => void;
   onUpdateClient: (updatedClient: Client) => void;
+  expirationHorizonDays?: number; // Flag options with exercise deadlines this close
 }
 
-type Tab = 'overview' | 'iso-planning';
+type Tab = 'overview' | 'iso-planning' | 'estimated-tax';
 
-export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUpdateClient }) => {
+const EVENT_TYPE_LABELS: Record<VestingEvent['eventType'], string> = {
+  vest: '',
+  exercise: ' Exercise',
+  purchase: ' Purchase',
+  service_vest: ' Service Vest',
+  settlement: ' Liquidity Settlement',
+  election_83b: ' 83(b) Election'
+};
+
+export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUpdateClient, expirationHorizonDays = DEFAULT_EXPIRATION_HORIZON_DAYS }) => {
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const [showGrantForm, setShowGrantForm] = useState(false);
   const [editingGrant, setEditingGrant] = useState<Grant | null>(null);
   const [showEditClient, setShowEditClient] = useState(false);
+  const [showCorporateActionForm, setShowCorporateActionForm] = useState(false);
+  const [showPriceHistoryForm, setShowPriceHistoryForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
+  // Transaction being recorded; recording a planned exercise replaces the plan
+  const [transactionDraft, setTransactionDraft] = useState<{ initialData?: Partial<Transaction>; replacesPlanId?: string } | null>(null);
   const [simulateSellAll, setSimulateSellAll] = useState(false);
+  const [psuPayout, setPsuPayout] = useState<PSUPayoutLevel | 'assumed'>('assumed');
 
   // --- Calculations ---
-  const allEvents = useMemo(() => {
-    let events: VestingEvent[] = [];
-    client.grants.forEach(grant => {
-      const grantEvents = generateVestingSchedule(grant, client, simulateSellAll);
-      events = [...events, ...grantEvents];
-    });
-    return events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [client, simulateSellAll]);
+  // PSUs are projected at each grant's assumed payout unless a payout level is being previewed
+  const projectionClient = useMemo(() => psuPayout === 'assumed' ? client : applyPSUPayout(client, psuPayout), [client, psuPayout]);
+  const allEvents = useMemo(() => generateClientVestingSchedule(projectionClient, simulateSellAll), [projectionClient, simulateSellAll]);
 
   const upcomingEvents = useMemo(() => getQuarterlyProjections(allEvents), [allEvents]);
   const hasISOs = client.grants.some(g => g.type === 'ISO');
+  const hasOptions = client.grants.some(g => g.type === 'ISO' || g.type === 'NSO');
+  const hasESPP = client.grants.some(g => g.type === 'ESPP');
+  const psuGrants = client.grants.filter(g => g.psu);
+
+  // Double-trigger settlements: accumulated vests taxed at once, with that year's AMT room
+  const liquiditySettlements = useMemo(() => allEvents
+    .filter(e => e.eventType === 'settlement')
+    .map(event => ({ event, amtRoom: calculateAMTRoom(projectionClient, { year: new Date(event.date).getFullYear() }) })),
+    [allEvents, projectionClient]);
 
-  // Calculate Unvested RSU Value specifically
+  // 83(b) elections: RSAs and early exercises, with the filing deadline and the tax either way
+  const elections83b = useMemo(() => [
+    ...client.grants
+      .filter(g => g.type === 'RSA')
+      .map(grant => ({ key: grant.id, label: `${grant.ticker || grant.companyName} RSA`, elected: !!grant.election83b, comparison: compare83bElection(client, grant) })),
+    ...(client.plannedExercises || [])
+      .filter(p => p.earlyExercise)
+      .flatMap(plan => {
+        const grant = client.grants.find(g => g.id === plan.grantId);
+        return grant ? [{ key: plan.id, label: `${plan.grantTicker || grant.companyName} ${plan.type} Early Exercise`, elected: !!plan.election83b, comparison: compare83bElection(client, grant, plan) }] : [];
+      })
+  ], [client]);
+
+  // Calculate Unvested RSU Value specifically (PSUs at the payout being projected)
   const unvestedRSUValue = useMemo(() => {
-     return client.grants
-        .filter(g => g.type === 'RSU')
+     return projectionClient.grants
+        .filter(g => isStockUnitGrant(g.type))
         .reduce((sum, g) => {
-             const status = getGrantStatus(g, []); 
+             const status = getGrantStatus(g, projectionClient, [], getTerminationDate(projectionClient, g), projectionClient.transactions);
              return sum + (status.unvested * g.currentPrice);
         }, 0);
-  }, [client.grants]);
+  }, [projectionClient]);
+
+  // Job-change scenario: forfeitures and the cash needed to keep vested options
+  const terminationImpact = useMemo(() => calculateTerminationImpact(projectionClient), [projectionClient]);
+  const terminationCash = terminationImpact.reduce((sum, i) => sum + i.cashNeeded, 0);
+
+  // Recorded transactions, newest first
+  const ledger = useMemo(() => [...(client.transactions || [])]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map(transaction => ({ transaction, grant: client.grants.find(g => g.id === transaction.grantId) })),
+    [client.transactions, client.grants]);
+
+  // Tax lots still held, valued at each grant's current price
+  const holdings = useMemo(() => getHoldings(client), [client]);
+  const holdingsValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
+  const holdingsGain = holdings.reduce((sum, h) => sum + h.unrealizedGain, 0);
+
+  // Shares actually held, for grants with ledger entries
+  const heldShares = useMemo(() => Object.fromEntries(client.grants
+    .filter(g => (client.transactions || []).some(t => t.grantId === g.id))
+    .map(g => [g.id, getGrantStatus(g, client, client.plannedExercises || [], getTerminationDate(client, g), client.transactions).held])),
+    [client]);
+
+  // Stocks with grants, and how many past vests are valued at actual rather than current prices
+  const priceCoverage = useMemo(() => {
+    const stocks = new Map<string, Grant[]>();
+    client.grants.forEach(g => stocks.set(getPriceHistoryKey(g), [...(stocks.get(getPriceHistoryKey(g)) || []), g]));
+    return Array.from(stocks.entries()).map(([key, grants]) => {
+      const pastVests = allEvents.filter(e => e.isPast && (e.eventType === 'vest' || e.eventType === 'settlement') && grants.some(g => g.id === e.grantId));
+      return {
+        key,
+        currentPrice: grants[0].currentPrice,
+        points: client.priceHistory?.[key] || [],
+        pastVests: pastVests.length,
+        pricedVests: pastVests.filter(e => e.transactionId || e.historicalPrice !== undefined).length
+      };
+    });
+  }, [client.grants, client.priceHistory, allEvents]);
+
+  // Options that lapse within the horizon with shares still to exercise
+  const expiringGrants = useMemo(() => getExpiringGrants(client, expirationHorizonDays), [client, expirationHorizonDays]);
+
+  // ISO shares over the $100k first-exercisable limit, per grant
+  const isoLimitExcess = useMemo(() => {
+    const split = getISOLimitSplit(client);
+    return Object.fromEntries(Object.entries(split).map(([grantId, tranches]) => [grantId, tranches.reduce((sum, t) => sum + t.nsoShares, 0)]));
+  }, [client]);
+
+  // Grant type as taxed: ISO shares over the limit are NSOs
+  const eventTypeLabel = (e: VestingEvent) => e.isoExcess ? 'ISO (NSO >$100k)' : e.grantType;
+  const planTypeLabel = (plan: PlannedExercise) => {
+    const { nsoShares } = getExerciseSplit(client, plan);
+    return plan.type === 'ISO' && nsoShares > 0 && nsoShares < plan.shares ? `ISO (${formatNumber(nsoShares)} NSO)` : plan.type;
+  };
+
+  const plan83bDeadline = (plan: PlannedExercise) => elections83b.find(e => e.key === plan.id)?.comparison.deadline;
+
+  // An election filed late (or never filed in the window) doesn't apply: the shares are taxed at vest
+  const plan83bLabel = (plan: PlannedExercise) => {
+    const deadline = plan83bDeadline(plan);
+    if (!plan.election83b) return 'Taxed at Vest';
+    if (deadline?.status === 'missed') return plan.election83bFiledDate ? `Filed Late ${plan.election83bFiledDate}, Taxed at Vest` : 'Missed, Taxed at Vest';
+    return plan.election83bFiledDate ? `Filed ${plan.election83bFiledDate}` : `File by ${deadline?.deadline}`;
+  };
+  const planAMTExposure = (plan: PlannedExercise) => plan.shares > 0 ? plan.amtExposure * getExerciseSplit(client, plan).isoShares / plan.shares : 0;
 
   // Aggregate stats
   const summary = useMemo(() => {
@@ -70,6 +183,15 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
     };
   }, [upcomingEvents, client.plannedExercises]);
 
+  // AMT owed this year and Form 8801 credit recovery in later years
+  const amtProjection = useMemo(() => calculateAMTProjection(client), [client]);
+  const amtThisYear = amtProjection[0];
+  const creditRecovery = amtProjection.filter(y => y.creditUsed > 0);
+
+  // Same client modelled across every tax year in the parameter registry
+  const taxRegime = getClientTaxRegime(client);
+  const taxYearComparison = useMemo(() => compareTaxYears(client, getAvailableTaxYears(taxRegime), taxRegime), [client, taxRegime]);
+
   // --- Handlers ---
 
   const handleSaveGrant = (grantData: Omit<Grant, 'id' | 'lastUpdated'>) => {
@@ -106,17 +228,8 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
     }
   };
 
-  const handleEditClientSave = (name: string, taxBracket: number, state: string, filingStatus: 'single' | 'married_joint', income: number, customState?: number, customLtcg?: number) => {
-    onUpdateClient({ 
-        ...client, 
-        name, 
-        taxBracket, 
-        state,
-        filingStatus,
-        estimatedIncome: income,
-        customStateTaxRate: customState, 
-        customLtcgTaxRate: customLtcg 
-    });
+  const handleEditClientSave = (profile: ClientProfile) => {
+    onUpdateClient({ ...client, ...profile });
   };
 
   const handleSavePlan = (plan: PlannedExercise) => {
@@ -126,8 +239,77 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
       });
   };
 
+  const handleSavePlannedSale = (sale: PlannedSale) => {
+      onUpdateClient({
+          ...client,
+          plannedSales: [...(client.plannedSales || []), sale]
+      });
+  };
+
+  const handleDeletePlannedSale = (saleId: string) => {
+      if (window.confirm("Delete this planned sale?")) {
+          onUpdateClient({ ...client, plannedSales: (client.plannedSales || []).filter(s => s.id !== saleId) });
+      }
+  };
+
+  const handleMark83bFiled = (plan: PlannedExercise) => {
+      onUpdateClient({
+          ...client,
+          plannedExercises: (client.plannedExercises || []).map(p => p.id === plan.id ? { ...p, election83bFiledDate: new Date().toISOString().split('T')[0] } : p)
+      });
+  };
+
+  const handleTerminationDateChange = (terminationDate: string) => {
+      onUpdateClient({ ...client, terminationDate: terminationDate || undefined });
+  };
+
+  const handleSaveCorporateAction = (action: CorporateActionInput) => {
+      onUpdateClient(applyCorporateAction(client, action));
+      setShowCorporateActionForm(false);
+  };
+
+  const handleSaveTransaction = (transactionData: Omit<Transaction, 'id'>) => {
+      const replacesPlanId = transactionDraft?.replacesPlanId;
+      onUpdateClient({
+          ...client,
+          plannedExercises: (client.plannedExercises || []).filter(p => p.id !== replacesPlanId),
+          transactions: [...(client.transactions || []), { ...transactionData, id: crypto.randomUUID() }]
+      });
+      setTransactionDraft(null);
+  };
+
+  const handleRecordPlannedExercise = (plan: PlannedExercise) => {
+      setTransactionDraft({
+          initialData: { grantId: plan.grantId, type: 'exercise', date: plan.exerciseDate, shares: plan.shares, price: plan.fmvAtExercise, exercisePrice: plan.exercisePrice },
+          replacesPlanId: plan.id
+      });
+  };
+
+  const handleDeleteTransaction = (transactionId: string) => {
+      if (window.confirm("Delete this transaction from the ledger?")) {
+          onUpdateClient({ ...client, transactions: (client.transactions || []).filter(t => t.id !== transactionId) });
+      }
+  };
+
+  const handleSavePriceHistory = (key: string, points: PricePoint[]) => {
+      const { [key]: _, ...others } = client.priceHistory || {};
+      onUpdateClient({ ...client, priceHistory: points.length > 0 ? { ...others, [key]: points } : others });
+      setShowPriceHistoryForm(false);
+  };
+
+  const handleMergeImport = (updatedClient: Client) => {
+      onUpdateClient(updatedClient);
+      setShowImportForm(false);
+  };
+
+  const handleRevertCorporateAction = (actionId: string) => {
+      if (window.confirm("Revert this corporate action? Affected grants and planned exercises go back to their previous terms.")) {
+          onUpdateClient(revertCorporateAction(client, actionId));
+      }
+  };
+
   const downloadCSV = () => {
-    const rows = [];
+    const rows: (string | number)[][] = [];
     
     // Header
     rows.push([`EQUITY REPORT: ${client.name.toUpperCase()}`]);
@@ -153,46 +335,113 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
 
     // Section 2: Vesting Schedule (All Events - Past & Future)
     rows.push(['SECTION 2: FULL VESTING SCHEDULE']);
-    rows.push(['Status', 'Date', 'Type', 'Shares Vesting', 'Gross Value', 'Shares Sold to Cover', 'Withholding ($)', 'Net Shares', 'Net Value', 'Tax Gap']);
+    rows.push(['Status', 'Date', 'Type', 'Shares Vesting', 'Gross Value', 'Purchase Price', 'Shares Sold to Cover', 'Withholding ($)', 'Fed Withheld', 'State Withheld', 'FICA Withheld', 'Net Shares', 'Net Value', 'Federal Tax', 'State Tax', 'Social Security', 'Medicare', 'Addl Medicare', 'State Allocation', 'Tax Gap', 'Historical Close']);
     allEvents.forEach(e => {
         rows.push([
-            e.isPast ? 'VESTED' : 'FUTURE',
+            e.transactionId ? 'ACTUAL' : e.isPast ? 'VESTED' : 'FUTURE',
             e.date,
-            e.grantType,
+            e.eventType === 'vest' ? eventTypeLabel(e) : `${eventTypeLabel(e)} ${e.eventType}`,
             e.shares,
             e.grossValue.toFixed(2),
+            e.purchasePrice !== undefined ? e.purchasePrice.toFixed(2) : '',
             e.sharesSoldToCover.toFixed(2),
             e.withholdingAmount.toFixed(2),
+            e.withholdingBreakdown.federal.toFixed(2),
+            e.withholdingBreakdown.state.toFixed(2),
+            e.withholdingBreakdown.fica.toFixed(2),
             e.netShares.toFixed(2),
             e.netValue.toFixed(2),
-            e.taxGap.toFixed(2)
+            e.taxBreakdown.fed.toFixed(2),
+            e.taxBreakdown.state.toFixed(2),
+            e.taxBreakdown.socialSecurity.toFixed(2),
+            e.taxBreakdown.medicare.toFixed(2),
+            e.taxBreakdown.additionalMedicare.toFixed(2),
+            formatStateAllocations(e.taxBreakdown.stateAllocations),
+            e.taxGap.toFixed(2),
+            e.historicalPrice !== undefined ? e.historicalPrice.toFixed(2) : ''
         ]);
     });
     rows.push([]);
 
     // Section 3: Planned Exercises
-    rows.push(['SECTION 3: PLANNED ISO EXERCISES']);
-    rows.push(['Grant', 'Date', 'Shares', 'Strike Price', 'FMV at Exercise', 'Est. Cost', 'AMT Exposure']);
+    rows.push(['SECTION 3: PLANNED OPTION EXERCISES']);
+    rows.push(['Grant', 'Type', 'Date', 'Shares', 'Strike Price', 'FMV at Exercise', 'Est. Cost', 'AMT Exposure', 'State Allocation']);
     (client.plannedExercises || []).forEach(p => {
         rows.push([
             p.grantTicker,
+            planTypeLabel(p),
             p.exerciseDate,
             p.shares,
             p.exercisePrice,
             p.fmvAtExercise,
             p.estimatedCost.toFixed(2),
-            p.amtExposure.toFixed(2)
+            planAMTExposure(p).toFixed(2),
+            formatStateAllocations(allocatePlannedExercise(client, p))
+        ]);
+    });
+
+    rows.push([]);
+
+    // Section 4: Transaction Ledger
+    rows.push(['SECTION 4: TRANSACTION LEDGER']);
+    rows.push(['Date', 'Grant', 'Transaction', 'Shares', 'Price', 'Shares Withheld', 'Tax Withheld', 'Proceeds', 'Notes']);
+    ledger.forEach(({ transaction: t, grant }) => {
+        rows.push([
+            t.date,
+            grant ? `${grant.ticker || grant.companyName} ${grant.type}` : '',
+            TRANSACTION_TYPE_LABELS[t.type],
+            t.shares,
+            t.price,
+            t.type !== 'sale' ? t.sharesWithheld ?? '' : '',
+            t.type !== 'sale' ? getTaxWithheld(t).toFixed(2) : '',
+            t.type === 'sale' ? getSaleProceeds(t).toFixed(2) : '',
+            t.notes || ''
+        ]);
+    });
+
+    rows.push([]);
+
+    // Section 5: Tax Lots
+    rows.push(['SECTION 5: TAX LOTS HELD']);
+    rows.push(['Grant', 'Source', 'Acquired', 'Shares', 'Cost Basis / Share', 'AMT Basis / Share', 'Market Value', 'Unrealized Gain', 'AMT Unrealized Gain', 'Long-Term From', 'Qualifying From', 'Actual']);
+    holdings.forEach(({ lot, marketValue, unrealizedGain, amtUnrealizedGain }) => {
+        const grant = client.grants.find(g => g.id === lot.grantId);
+        rows.push([
+            grant ? `${grant.ticker || grant.companyName} ${grant.type}` : '',
+            lot.source,
+            lot.acquisitionDate,
+            lot.remainingShares,
+            lot.costBasis.toFixed(2),
+            lot.amtBasis.toFixed(2),
+            marketValue.toFixed(2),
+            unrealizedGain.toFixed(2),
+            amtUnrealizedGain.toFixed(2),
+            lot.longTermDate,
+            lot.qualifyingDate || '',
+            lot.isActual ? 'YES' : 'PROJECTED'
         ]);
     });
 
-    const csvContent = "data:text/csv;charset=utf-8," + rows.map(r => r.join(',')).join('\n');
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `${client.name.replace(/\s+/g, '_')}_Full_Report.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    rows.push([]);
+
+    // Section 6: Planned Sales
+    rows.push(['SECTION 6: PLANNED SALES']);
+    rows.push(['Stock', 'Date', 'Lot Selection', 'Shares', 'Sale Price', 'Gross Proceeds', 'Est. Tax', 'Net Proceeds', 'Lots']);
+    (client.plannedSales || []).forEach(s => {
+        rows.push([
+            s.grantTicker,
+            s.saleDate,
+            LOT_SELECTION_LABELS[s.method],
+            s.shares,
+            s.salePrice.toFixed(2),
+            s.grossProceeds.toFixed(2),
+            s.estimatedTax.toFixed(2),
+            s.netProceeds.toFixed(2),
+            s.lots.map(l => `${l.lotId}: ${l.shares}`).join('; ')
+        ]);
+    });
+
+    downloadCSVFile(rows, `${client.name.replace(/\s+/g, '_')}_Full_Report.csv`);
   };
 
   const printReport = () => {
@@ -210,6 +459,7 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
     taxGap: e.taxGap,
     fedTax: e.taxBreakdown.fed,
     stateTax: e.taxBreakdown.state,
+    ficaTax: e.taxBreakdown.socialSecurity + e.taxBreakdown.medicare + e.taxBreakdown.additionalMedicare,
     // amtExposure is now 0 for ISOs in 'e', so we don't chart it here. 
     // This is correct as we only want to show mandatory tax liability in this chart.
   }));
@@ -235,6 +485,7 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
   };
 
   const { stateRate, fedLtcgRate } = getEffectiveRates(client);
+  const federalRates = useMemo(() => getFederalRates(client), [client]);
 
   return (
     <div className="space-y-8 print:space-y-4 print:p-0 print:m-0 print:w-full">
@@ -253,13 +504,16 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
             </div>
             <div className="flex flex-wrap items-center gap-2 text-sm text-slate-500 mt-2">
               <span className="bg-white text-slate-600 px-2 py-0.5 rounded border border-slate-200 font-medium shadow-sm">
-                Fed Ord: {client.taxBracket}%
+                Fed Ord: {formatPercent(federalRates.marginalRate)} {federalRates.isOverride ? '(Custom)' : `Marginal · ${formatPercent(federalRates.effectiveRate)} Eff.`}
+              </span>
+              <span className="bg-white text-slate-600 px-2 py-0.5 rounded border border-slate-200 font-medium shadow-sm">
+                {TAX_REGIMES.find(r => r.value === taxRegime)?.label}
               </span>
               <span className={`px-2 py-0.5 rounded border font-medium shadow-sm ${client.customStateTaxRate ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-600'}`}>
-                State ({client.state}): {formatPercent(stateRate)} {client.customStateTaxRate && '(Custom)'}
+                State ({client.state}): {formatPercent(stateRate)} {client.customStateTaxRate !== undefined ? '(Custom)' : 'Marginal'}
               </span>
               <span className={`px-2 py-0.5 rounded border font-medium shadow-sm ${client.customLtcgTaxRate ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-600'}`}>
-                Fed LTCG: {formatPercent(fedLtcgRate)} {client.customLtcgTaxRate && '(Custom)'}
+                Fed LTCG: {formatPercent(fedLtcgRate)} {client.customLtcgTaxRate !== undefined ? '(Custom)' : 'Marginal'}
               </span>
             </div>
           </div>
@@ -273,6 +527,10 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                 <Download size={18} />
                 Full CSV Export
              </Button>
+             <Button variant="secondary" onClick={() => setShowImportForm(true)} className="gap-2">
+                <Upload size={18} />
+                Import
+             </Button>
              <Button onClick={() => { setEditingGrant(null); setShowGrantForm(true); }} className="gap-2 shadow-md shadow-indigo-100">
                <Plus size={20} />
                Add Grant
@@ -317,6 +575,100 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
         </div>
       )}
 
+      {/* Corporate Action Modal */}
+      {showCorporateActionForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-tidemark-navy/40 backdrop-blur-sm p-4 overflow-y-auto print:hidden">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl border border-slate-200 p-8 animate-in fade-in zoom-in duration-200 relative">
+             <button onClick={() => setShowCorporateActionForm(false)} className="absolute right-4 top-4 text-slate-400 hover:text-slate-600 transition-colors">
+                <X size={24} />
+             </button>
+             <div className="flex items-center gap-3 mb-6">
+                 <div className="p-2 bg-tidemark-blue/10 rounded-lg">
+                    <GitMerge className="text-tidemark-blue" size={20} />
+                 </div>
+                 <h3 className="text-xl font-bold text-tidemark-navy">Record Corporate Action</h3>
+             </div>
+
+             <CorporateActionForm
+               client={client}
+               onSave={handleSaveCorporateAction}
+               onCancel={() => setShowCorporateActionForm(false)}
+             />
+          </div>
+        </div>
+      )}
+
+      {/* Price History Modal */}
+      {showPriceHistoryForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-tidemark-navy/40 backdrop-blur-sm p-4 overflow-y-auto print:hidden">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl border border-slate-200 p-8 animate-in fade-in zoom-in duration-200 relative">
+             <button onClick={() => setShowPriceHistoryForm(false)} className="absolute right-4 top-4 text-slate-400 hover:text-slate-600 transition-colors">
+                <X size={24} />
+             </button>
+             <div className="flex items-center gap-3 mb-6">
+                 <div className="p-2 bg-tidemark-blue/10 rounded-lg">
+                    <LineChart className="text-tidemark-blue" size={20} />
+                 </div>
+                 <h3 className="text-xl font-bold text-tidemark-navy">Price History</h3>
+             </div>
+
+             <PriceHistoryForm
+               grants={client.grants}
+               priceHistory={client.priceHistory || {}}
+               onSave={handleSavePriceHistory}
+               onCancel={() => setShowPriceHistoryForm(false)}
+             />
+          </div>
+        </div>
+      )}
+
+      {/* Brokerage Import Modal */}
+      {showImportForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-tidemark-navy/40 backdrop-blur-sm p-4 overflow-y-auto print:hidden">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl border border-slate-200 p-8 animate-in fade-in zoom-in duration-200 relative">
+             <button onClick={() => setShowImportForm(false)} className="absolute right-4 top-4 text-slate-400 hover:text-slate-600 transition-colors">
+                <X size={24} />
+             </button>
+             <div className="flex items-center gap-3 mb-6">
+                 <div className="p-2 bg-tidemark-blue/10 rounded-lg">
+                    <Upload className="text-tidemark-blue" size={20} />
+                 </div>
+                 <h3 className="text-xl font-bold text-tidemark-navy">Import Grants &amp; History</h3>
+             </div>
+
+             <BrokerageImportForm
+               client={client}
+               onMerge={handleMergeImport}
+               onCancel={() => setShowImportForm(false)}
+             />
+          </div>
+        </div>
+      )}
+
+      {/* Transaction Modal */}
+      {transactionDraft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-tidemark-navy/40 backdrop-blur-sm p-4 overflow-y-auto print:hidden">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl border border-slate-200 p-8 animate-in fade-in zoom-in duration-200 relative">
+             <button onClick={() => setTransactionDraft(null)} className="absolute right-4 top-4 text-slate-400 hover:text-slate-600 transition-colors">
+                <X size={24} />
+             </button>
+             <div className="flex items-center gap-3 mb-6">
+                 <div className="p-2 bg-tidemark-blue/10 rounded-lg">
+                    <BookOpen className="text-tidemark-blue" size={20} />
+                 </div>
+                 <h3 className="text-xl font-bold text-tidemark-navy">{transactionDraft.replacesPlanId ? 'Record Planned Exercise' : 'Record Transaction'}</h3>
+             </div>
+
+             <TransactionForm
+               grants={client.grants}
+               onSave={handleSaveTransaction}
+               onCancel={() => setTransactionDraft(null)}
+               initialData={transactionDraft.initialData}
+             />
+          </div>
+        </div>
+      )}
+
       {/* Navigation Tabs */}
       <div className="flex gap-1 bg-slate-200/50 p-1 rounded-xl w-fit print:hidden">
         <button
@@ -329,16 +681,42 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
           onClick={() => setActiveTab('iso-planning')}
           className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'iso-planning' ? 'bg-white text-tidemark-navy shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
         >
-          ISO Planning
+          Equity Planning
+        </button>
+        <button
+          onClick={() => setActiveTab('estimated-tax')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'estimated-tax' ? 'bg-white text-tidemark-navy shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          Estimated Payments
         </button>
       </div>
 
       {activeTab === 'iso-planning' ? (
+        <div className="print:block space-y-8">
+            {(hasOptions || !hasESPP) && <ISOPlanner client={client} grants={client.grants} onSavePlan={handleSavePlan} />}
+            {hasESPP && <ESPPPlanner client={client} grants={client.grants} />}
+            {client.grants.length > 0 && <SalePlanner client={client} onSaveSale={handleSavePlannedSale} />}
+        </div>
+      ) : activeTab === 'estimated-tax' ? (
         <div className="print:block">
-            <ISOPlanner client={client} grants={client.grants} onSavePlan={handleSavePlan} />
+            <EstimatedTaxPlanner client={client} />
         </div>
       ) : (
         <div className="space-y-8 animate-fade-in print:space-y-6">
+            {expiringGrants.length > 0 && (
+                <div className="flex gap-3 items-start p-4 rounded-xl border bg-red-50 border-red-200 text-red-800 text-sm">
+                    <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+                    <div className="space-y-1">
+                        <p className="font-bold">Options Expiring Within {getExpirationHorizonLabel(expirationHorizonDays)}</p>
+                        {expiringGrants.map(e => (
+                            <p key={e.grant.id}>
+                                {e.grant.ticker || e.grant.companyName} {e.grant.type} ({e.grant.grantDate}): {formatNumber(e.unexercisedShares)} shares {e.reason === 'termination' ? 'lapse after termination' : 'expire'} on {e.deadline} ({e.daysRemaining} days) &middot; <span className="font-semibold">{formatCurrency(e.valueAtRisk)} at risk</span>
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Scenario Planning Engine - Hidden on print as it's interactive */}
             <div className="bg-gradient-to-r from-tidemark-navy to-slate-900 rounded-2xl p-6 text-white shadow-xl relative overflow-hidden print:hidden">
                 <div className="relative z-10 flex flex-col md:flex-row justify-between items-center gap-6">
@@ -369,6 +747,22 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                     </button>
                 </div>
                 </div>
+                {psuGrants.length > 0 && (
+                    <div className="relative z-10 mt-4 pt-4 border-t border-slate-600/50 flex flex-col md:flex-row justify-between items-center gap-3">
+                        <p className="text-slate-300 text-sm">PSU payout: {psuPayout === 'assumed' ? 'each grant at its assumed payout' : `all PSUs at ${psuPayout}`}</p>
+                        <div className="bg-slate-700/50 p-1 rounded-lg flex items-center border border-slate-600/50">
+                            {(['assumed', 'threshold', 'target', 'max'] as const).map(level => (
+                                <button
+                                    key={level}
+                                    onClick={() => setPsuPayout(level)}
+                                    className={`px-3 py-1.5 rounded-md text-xs font-medium capitalize transition-all ${psuPayout === level ? 'bg-white text-slate-900 shadow-md' : 'text-slate-300 hover:text-white'}`}
+                                >
+                                    {level}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Print Only Strategy Summary */}
@@ -376,7 +770,7 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                  <h3 className="font-bold text-slate-800 text-sm">Modeling Assumptions</h3>
                  <p className="text-xs text-slate-600 mt-1">
                     Strategy: {simulateSellAll ? 'Sell All & Diversify' : 'Sell-to-Cover (Standard)'}. 
-                    Assumes federal tax rate of {client.taxBracket}% and state rate of {formatPercent(stateRate)}.
+                    Assumes federal tax on each vest stacked on year-to-date income ({formatPercent(federalRates.marginalRate)} marginal) and {client.customStateTaxRate !== undefined ? `a state rate of ${formatPercent(stateRate)}` : `${client.state} bracketed state tax (${formatPercent(stateRate)} marginal)`}.
                  </p>
             </div>
 
@@ -422,16 +816,378 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                          <TrendingUp size={22} />
                          </div>
                         <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wide">
-                            AMT Exp.
+                            AMT Owed
                         </h4>
                     </div>
                     <p className={`text-3xl font-bold text-purple-600`}>
-                        {formatCurrency(summary.amtExposure)}
+                        {formatCurrency(amtThisYear.amtOwed)}
                     </p>
-                     <p className="text-xs text-slate-400 mt-1 font-medium print:hidden">From Planned Exercises Only</p>
+                     <p className="text-xs text-slate-400 mt-1 font-medium print:hidden">
+                        {amtThisYear.year} &middot; Credit c/f {formatCurrency(amtThisYear.creditCarryforward)}
+                     </p>
                 </div>
             </div>
 
+            {/* AMT Credit Recovery */}
+            {amtThisYear.creditCarryforward > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                        <TrendingUp size={20} className="text-purple-500 print:hidden" />
+                        AMT Credit Recovery (Form 8801)
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">
+                        AMT paid on ISO spread is recovered in later years when regular tax exceeds tentative minimum tax.
+                    </p>
+                    {creditRecovery.length === 0 ? (
+                        <p className="text-sm text-slate-500">No credit is recoverable within the projection horizon at current income levels.</p>
+                    ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 print:grid-cols-5">
+                            {creditRecovery.map(y => (
+                                <div key={y.year} className="border border-slate-100 bg-slate-50 rounded-lg p-3 text-sm print:bg-white print:border-slate-300">
+                                    <div className="text-xs font-bold text-slate-500">{y.year}</div>
+                                    <div className="font-bold text-purple-700">{formatCurrency(y.creditUsed)}</div>
+                                    <div className="text-[10px] text-slate-400">Remaining {formatCurrency(y.creditCarryforward)}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Tax Year Comparison */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                <h3 className="font-bold text-tidemark-navy mb-4 flex items-center gap-2">
+                    <Building size={20} className="text-tidemark-blue print:hidden" />
+                    Tax Year Comparison ({TAX_REGIMES.find(r => r.value === taxRegime)?.label})
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:grid-cols-3">
+                    {taxYearComparison.map(y => (
+                        <div key={y.year} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
+                            <div className="font-bold text-slate-800 mb-2">{y.year}</div>
+                            <div className="space-y-1 text-slate-600 text-xs">
+                                <div className="flex justify-between">
+                                    <span>Regular Tax:</span>
+                                    <span>{formatCurrency(y.regularTax)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>{y.isItemizing ? 'Itemized (SALT)' : 'Standard'} Deduction:</span>
+                                    <span>{formatCurrency(y.effectiveDeduction)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>AMT Room:</span>
+                                    <span className="text-emerald-600 font-medium">{formatCurrency(y.amtRoom)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>AMT Owed:</span>
+                                    <span className="text-purple-600 font-medium">{formatCurrency(y.amtOwed)}</span>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Termination Scenario */}
+            {client.grants.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+                        <div>
+                            <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                                <LogOut size={20} className="text-slate-400 print:hidden" />
+                                Termination Scenario
+                            </h3>
+                            <p className="text-xs text-slate-500">Unvested shares are forfeited on the last day; vested options lapse after the exercise window and ISOs become NSOs after 90 days.</p>
+                        </div>
+                        <div className="flex items-center gap-2 print:hidden">
+                            <input
+                                type="date"
+                                value={client.terminationDate || ''}
+                                onChange={(e) => handleTerminationDateChange(e.target.value)}
+                                className="px-3 py-1.5 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-tidemark-blue outline-none"
+                            />
+                            {client.terminationDate && (
+                                <button onClick={() => handleTerminationDateChange('')} className="p-1.5 text-slate-400 hover:text-red-600 rounded-full transition-colors" title="Clear Scenario">
+                                    <X size={16} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    {terminationImpact.length === 0 ? (
+                        <p className="text-sm text-slate-500">Set a termination date to see forfeitures and option exercise deadlines.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                    <tr>
+                                        <th className="px-4 py-3">Grant</th>
+                                        <th className="px-4 py-3 text-right">Forfeited</th>
+                                        <th className="px-4 py-3 text-right">Options to Keep</th>
+                                        <th className="px-4 py-3">Exercise By</th>
+                                        <th className="px-4 py-3 text-right">Exercise Cost</th>
+                                        <th className="px-4 py-3 text-right">Tax</th>
+                                        <th className="px-4 py-3 text-right">Cash Needed</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {terminationImpact.map(impact => (
+                                        <tr key={impact.grant.id}>
+                                            <td className="px-4 py-2 font-medium text-slate-800">
+                                                {impact.grant.ticker || impact.grant.companyName} {impact.grant.type}
+                                                <div className="text-[10px] text-slate-400 font-normal">Leaves {impact.terminationDate}</div>
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">
+                                                {formatNumber(impact.forfeitedShares)}
+                                                <div className="text-[10px] text-red-500">{formatCurrency(impact.forfeitedValue)}</div>
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{impact.exerciseDeadline ? formatNumber(impact.unexercisedShares) : '-'}</td>
+                                            <td className="px-4 py-2 text-slate-600">
+                                                {impact.exerciseDeadline || '-'}
+                                                {impact.isoDeadline && impact.isoDeadline < impact.exerciseDeadline! && (
+                                                    <div className="text-[10px] text-purple-600">ISO until {impact.isoDeadline}</div>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(impact.exerciseCost)}</td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(impact.exerciseTax)}</td>
+                                            <td className="px-4 py-2 text-right font-medium text-slate-800">{formatCurrency(impact.cashNeeded)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot className="border-t border-slate-200 font-bold text-slate-800">
+                                    <tr>
+                                        <td className="px-4 py-2" colSpan={6}>Total Cash to Keep Vested Options</td>
+                                        <td className="px-4 py-2 text-right">{formatCurrency(terminationCash)}</td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Corporate Actions */}
+            {client.grants.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+                        <div>
+                            <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                                <GitMerge size={20} className="text-slate-400 print:hidden" />
+                                Corporate Actions
+                            </h3>
+                            <p className="text-xs text-slate-500">Splits, renames and acquisitions restate grants and planned exercises. Terms before each action are kept below.</p>
+                        </div>
+                        <Button variant="secondary" onClick={() => setShowCorporateActionForm(true)} className="gap-2 text-sm print:hidden">
+                            <Plus size={16} /> Record Action
+                        </Button>
+                    </div>
+                    {(client.corporateActions || []).length === 0 ? (
+                        <p className="text-sm text-slate-500">No corporate actions recorded.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {[...(client.corporateActions || [])].reverse().map((action, index) => (
+                                <div key={action.id} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
+                                    <div className="flex justify-between items-start gap-3 mb-2">
+                                        <div>
+                                            <span className="font-bold text-slate-800">{action.ticker || action.companyName} &middot; {describeCorporateAction(action)}</span>
+                                            <div className="text-[10px] uppercase text-slate-500">
+                                                {CORPORATE_ACTION_LABELS[action.type]} &middot; Effective {action.effectiveDate}
+                                                {action.acceleration && action.acceleration !== 'none' && (
+                                                    <span className="text-emerald-600"> &middot; {action.accelerationPercent ?? 100}% {action.acceleration === 'single_trigger' ? 'single' : 'double'}-trigger acceleration{action.qualifyingTerminationDate ? ` on ${action.qualifyingTerminationDate}` : ''}</span>
+                                                )}
+                                            </div>
+                                        </div>
+                                        {/* Only the latest action can be undone; earlier ones have later actions applied on top */}
+                                        {index === 0 && (
+                                            <button onClick={() => handleRevertCorporateAction(action.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-full transition-colors print:hidden" title="Revert Action">
+                                                <RotateCcw size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                    <div className="space-y-1 text-xs text-slate-600">
+                                        {action.before.grants.map(before => {
+                                            const current = client.grants.find(g => g.id === before.id);
+                                            return (
+                                                <div key={before.id} className="flex items-center gap-2">
+                                                    <span className="font-medium text-slate-700">{before.type} {before.grantDate}:</span>
+                                                    <span>{before.ticker || before.companyName} {formatNumber(before.totalShares)} sh{before.strikePrice !== undefined && ` @ $${before.strikePrice.toFixed(2)}`}</span>
+                                                    {current && index === 0 && (
+                                                        <>
+                                                            <ArrowRight size={12} className="text-slate-400" />
+                                                            <span>{current.ticker || current.companyName} {formatNumber(current.totalShares)} sh{current.strikePrice !== undefined && ` @ $${current.strikePrice.toFixed(2)}`}</span>
+                                                        </>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                        {action.before.plannedExercises.length > 0 && (
+                                            <div className="text-slate-500">{action.before.plannedExercises.length} planned exercise{action.before.plannedExercises.length === 1 ? '' : 's'} restated</div>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Price History */}
+            {priceCoverage.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+                        <div>
+                            <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                                <LineChart size={20} className="text-slate-400 print:hidden" />
+                                Price History
+                            </h3>
+                            <p className="text-xs text-slate-500">Past vests and purchases are valued at the close on the day; without a close they fall back to the current price. Future events use the current price.</p>
+                        </div>
+                        <Button variant="secondary" onClick={() => setShowPriceHistoryForm(true)} className="gap-2 text-sm print:hidden">
+                            <Plus size={16} /> Import Prices
+                        </Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:grid-cols-3">
+                        {priceCoverage.map(({ key, currentPrice, points, pastVests, pricedVests }) => (
+                            <div key={key} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
+                                <div className="flex justify-between font-bold text-slate-800 mb-2">
+                                    <span>{key}</span>
+                                    <span>${currentPrice.toFixed(2)}</span>
+                                </div>
+                                <div className="space-y-1 text-slate-600 text-xs">
+                                    <div className="flex justify-between">
+                                        <span>Closes:</span>
+                                        <span>{points.length > 0 ? `${formatNumber(points.length)} (${points[0].date} to ${points[points.length - 1].date})` : 'None'}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Past Vests at Actual Price:</span>
+                                        <span className={pricedVests < pastVests ? 'text-amber-600 font-medium' : 'text-emerald-600 font-medium'}>{pricedVests} of {pastVests}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Double-Trigger Liquidity Events */}
+            {liquiditySettlements.length > 0 && (
+                <div className="bg-white rounded-xl border border-amber-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                        <AlertTriangle size={20} className="text-amber-500 print:hidden" />
+                        Liquidity Event Tax
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">Double-trigger RSUs that service-vested before the liquidity date are all taxed on that date.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print:grid-cols-2">
+                        {liquiditySettlements.map(({ event, amtRoom }) => {
+                            const grant = client.grants.find(g => g.id === event.grantId);
+                            return (
+                                <div key={`${event.grantId}-${event.date}`} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
+                                    <div className="flex justify-between font-bold text-slate-800 mb-2">
+                                        <span>{grant?.ticker || grant?.companyName} &middot; {event.date}</span>
+                                        <span className="text-[10px] uppercase text-slate-500">{grant?.doubleTrigger?.liquidityStatus === 'actual' ? 'Actual' : 'Assumed'}</span>
+                                    </div>
+                                    <div className="space-y-1 text-slate-600 text-xs">
+                                        <div className="flex justify-between"><span>Shares Settled:</span><span>{formatNumber(event.shares)}</span></div>
+                                        <div className="flex justify-between"><span>Taxable Wages:</span><span className="font-medium text-slate-800">{formatCurrency(event.grossValue)}</span></div>
+                                        <div className="flex justify-between"><span>Total Tax:</span><span>{formatCurrency(event.taxBreakdown.totalLiability)}</span></div>
+                                        <div className="flex justify-between"><span>Withheld ({event.electedWithholdingRate.toFixed(0)}% Fed):</span><span>{formatCurrency(event.withholdingAmount)}</span></div>
+                                        <div className="flex justify-between font-medium"><span>Withholding Gap:</span><span className="text-amber-600">{formatCurrency(event.taxGap)}</span></div>
+                                        <div className="flex justify-between text-slate-500"><span>{amtRoom.year} ISO AMT Room:</span><span className="text-purple-600">{formatCurrency(amtRoom.room)}</span></div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* PSU Payout Range */}
+            {psuGrants.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                        <PieChart size={20} className="text-tidemark-blue print:hidden" />
+                        PSU Payout Range
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">Shares delivered and tax due over each grant's performance periods, at today's price.</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                <tr>
+                                    <th className="px-4 py-3">Grant</th>
+                                    <th className="px-4 py-3">Outcome</th>
+                                    <th className="px-4 py-3 text-right">Shares</th>
+                                    <th className="px-4 py-3 text-right">Value</th>
+                                    <th className="px-4 py-3 text-right">Total Tax</th>
+                                    <th className="px-4 py-3 text-right">Tax Gap</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {psuGrants.flatMap(grant => calculatePSUOutcomes(client, grant).map(outcome => (
+                                    <tr key={`${grant.id}-${outcome.level}`} className={outcome.payoutPercent === grant.psu!.assumedPayout ? 'bg-sky-50/40' : ''}>
+                                        <td className="px-4 py-2 font-medium text-slate-800">{grant.ticker || grant.companyName}</td>
+                                        <td className="px-4 py-2 text-slate-600 capitalize">{outcome.level} ({outcome.payoutPercent}%)</td>
+                                        <td className="px-4 py-2 text-right text-slate-600">{formatNumber(outcome.shares)}</td>
+                                        <td className="px-4 py-2 text-right font-medium text-slate-800">{formatCurrency(outcome.grossValue)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(outcome.totalTax)}</td>
+                                        <td className="px-4 py-2 text-right text-amber-600">{formatCurrency(outcome.taxGap)}</td>
+                                    </tr>
+                                )))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* 83(b) Elections */}
+            {elections83b.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                        <Lock size={20} className="text-tidemark-blue print:hidden" />
+                        83(b) Elections
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">Tax on unvested shares if recognized at transfer (83(b)) vs as each tranche vests at today's price. The election must be filed within 30 days of the transfer.</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                <tr>
+                                    <th className="px-4 py-3">Award</th>
+                                    <th className="px-4 py-3">Transfer</th>
+                                    <th className="px-4 py-3">Deadline</th>
+                                    <th className="px-4 py-3 text-right">Unvested</th>
+                                    <th className="px-4 py-3 text-right">Tax With 83(b)</th>
+                                    <th className="px-4 py-3 text-right">Tax at Vest</th>
+                                    <th className="px-4 py-3 text-right">Savings</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {elections83b.map(({ key, label, elected, comparison }) => (
+                                    <tr key={key}>
+                                        <td className="px-4 py-2 font-medium text-slate-800">
+                                            {label}
+                                            <span className={`ml-2 text-[10px] font-bold uppercase ${elected ? 'text-tidemark-blue' : 'text-slate-400'}`}>{elected ? 'Elected' : 'Not Elected'}</span>
+                                        </td>
+                                        <td className="px-4 py-2 text-slate-600">{comparison.transferDate}</td>
+                                        <td className="px-4 py-2">
+                                            {comparison.deadline.status === 'filed' ? (
+                                                <span className="text-emerald-600 font-medium">Filed</span>
+                                            ) : comparison.deadline.status === 'open' ? (
+                                                <span className={elected ? 'text-amber-600 font-medium' : 'text-slate-600'}>{comparison.deadline.deadline} ({comparison.deadline.daysRemaining}d left)</span>
+                                            ) : comparison.deadline.filedDate ? (
+                                                <span className="text-red-600 font-medium">Filed Late {comparison.deadline.filedDate} (due {comparison.deadline.deadline})</span>
+                                            ) : (
+                                                <span className={elected ? 'text-red-600 font-medium' : 'text-slate-400'}>{comparison.deadline.deadline} (Closed)</span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2 text-right text-slate-600">{formatNumber(comparison.restrictedShares)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-800">{formatCurrency(comparison.withElection.totalTax)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-800">{formatCurrency(comparison.withoutElection.totalTax)}</td>
+                                        <td className={`px-4 py-2 text-right font-medium ${comparison.taxSavings >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(comparison.taxSavings)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
             {/* Planned Exercises Section */}
             {(client.plannedExercises || []).length > 0 && (
                 <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
@@ -443,7 +1199,15 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                          {(client.plannedExercises || []).map(plan => (
                              <div key={plan.id} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
                                  <div className="flex justify-between font-bold text-slate-800 mb-2">
-                                     <span>{plan.grantTicker} ISO</span>
+                                     <span>
+                                         {plan.grantTicker} {planTypeLabel(plan)}
+                                         {getExerciseTaxType(client, plan) !== plan.type && (
+                                             <span className="ml-1 text-[10px] uppercase text-amber-600" title="Exercised more than 90 days after termination">Taxed as NSO</span>
+                                         )}
+                                         {isExpiredExercise(client, plan) && (
+                                             <span className="ml-1 text-[10px] uppercase text-red-600" title="After the post-termination exercise window">Expired</span>
+                                         )}
+                                     </span>
                                      <span>{formatNumber(plan.shares)} Shares</span>
                                  </div>
                                  <div className="space-y-1 text-slate-600 text-xs">
@@ -453,8 +1217,76 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                                      </div>
                                       <div className="flex justify-between">
                                          <span>AMT Exposure:</span>
-                                         <span className="text-purple-600 font-medium">{formatCurrency(plan.amtExposure)}</span>
+                                         <span className="text-purple-600 font-medium">{formatCurrency(planAMTExposure(plan))}</span>
+                                     </div>
+                                     {plan.earlyExercise && (
+                                         <div className="flex justify-between">
+                                             <span>83(b) Election:</span>
+                                             <span className={`font-medium ${plan83bDeadline(plan)?.status === 'missed' && plan.election83b ? 'text-red-600' : ''}`}>{plan83bLabel(plan)}</span>
+                                         </div>
+                                     )}
+                                     {plan.exerciseDate <= new Date().toISOString().split('T')[0] && (
+                                         <button
+                                             onClick={() => handleRecordPlannedExercise(plan)}
+                                             className="block text-xs font-bold text-tidemark-blue hover:text-tidemark-navy underline print:hidden"
+                                         >
+                                             Record as Exercised
+                                         </button>
+                                     )}
+                                     {plan.election83b && !plan.election83bFiledDate && plan83bDeadline(plan)?.status !== 'missed' && (
+                                         <button
+                                             onClick={() => handleMark83bFiled(plan)}
+                                             className="text-xs font-bold text-tidemark-blue hover:text-tidemark-navy underline print:hidden"
+                                         >
+                                             Mark 83(b) Filed Today
+                                         </button>
+                                     )}
+                                     {allocatePlannedExercise(client, plan).filter(a => a.fraction > 0 || a.tax > 0).map(a => (
+                                         <div key={a.state} className="flex justify-between text-slate-500">
+                                             <span>{a.state} ({formatPercent(a.fraction)} of spread):</span>
+                                             <span>{formatCurrency(a.tax)} state tax</span>
+                                         </div>
+                                     ))}
+                                 </div>
+                             </div>
+                         ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Planned Sales Section */}
+            {(client.plannedSales || []).length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-4 flex items-center gap-2">
+                        <Coins size={20} className="text-emerald-500 print:hidden" />
+                        Planned Sales
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:grid-cols-3">
+                         {(client.plannedSales || []).map(sale => (
+                             <div key={sale.id} className="border border-slate-100 bg-slate-50 rounded-lg p-4 text-sm print:bg-white print:border-slate-300">
+                                 <div className="flex justify-between font-bold text-slate-800 mb-2">
+                                     <span>{sale.grantTicker} Sale</span>
+                                     <span className="flex items-center gap-2">
+                                         {formatNumber(sale.shares)} Shares
+                                         <button onClick={() => handleDeletePlannedSale(sale.id)} className="text-slate-400 hover:text-red-500 print:hidden" title="Delete planned sale">
+                                             <Trash2 size={14} />
+                                         </button>
+                                     </span>
+                                 </div>
+                                 <div className="space-y-1 text-slate-600 text-xs">
+                                     <div className="flex justify-between">
+                                         <span>{sale.saleDate} at ${sale.salePrice.toFixed(2)}:</span>
+                                         <span>{formatCurrency(sale.grossProceeds)}</span>
+                                     </div>
+                                     <div className="flex justify-between">
+                                         <span>Est. Tax:</span>
+                                         <span className="text-red-500 font-medium">{formatCurrency(sale.estimatedTax)}</span>
+                                     </div>
+                                     <div className="flex justify-between">
+                                         <span>Net After Tax:</span>
+                                         <span className="text-emerald-600 font-medium">{formatCurrency(sale.netProceeds)}</span>
                                      </div>
+                                     <div className="text-slate-500">{LOT_SELECTION_LABELS[sale.method]} &middot; {sale.lots.length} lot{sale.lots.length === 1 ? '' : 's'}</div>
                                  </div>
                              </div>
                          ))}
@@ -462,6 +1294,140 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                 </div>
             )}
 
+            {/* Holdings by Tax Lot */}
+            {holdings.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                        <Layers size={20} className="text-slate-400 print:hidden" />
+                        Holdings by Tax Lot
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">Shares kept from vests, purchases and recorded exercises, less recorded sales. ISO lots carry a separate AMT basis (FMV at exercise).</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                <tr>
+                                    <th className="px-4 py-3">Lot</th>
+                                    <th className="px-4 py-3 text-right">Shares</th>
+                                    <th className="px-4 py-3 text-right">Basis / Share</th>
+                                    <th className="px-4 py-3 text-right">Value</th>
+                                    <th className="px-4 py-3 text-right">Unrealized Gain</th>
+                                    <th className="px-4 py-3">Holding Period</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {holdings.map(({ lot, marketValue, unrealizedGain, amtUnrealizedGain, isLongTerm, isQualifying, daysToLongTerm }) => {
+                                    const grant = client.grants.find(g => g.id === lot.grantId);
+                                    return (
+                                        <tr key={lot.id}>
+                                            <td className="px-4 py-2 font-medium text-slate-800">
+                                                {grant?.ticker || grant?.companyName} {lot.isoShares ? 'ISO' : lot.grantType === 'ISO' ? 'ISO (NSO)' : lot.grantType}
+                                                <div className="text-[10px] text-slate-400 font-normal">
+                                                    {EVENT_TYPE_LABELS[lot.source].trim() || 'Vest'} {lot.acquisitionDate}{!lot.isActual && ' · projected'}
+                                                </div>
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">
+                                                {formatNumber(lot.remainingShares)}
+                                                {lot.remainingShares < lot.shares && <div className="text-[10px] text-slate-400">of {formatNumber(lot.shares)}</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">
+                                                ${lot.costBasis.toFixed(2)}
+                                                {lot.amtBasis !== lot.costBasis && <div className="text-[10px] text-purple-600">AMT ${lot.amtBasis.toFixed(2)}</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(marketValue)}</td>
+                                            <td className={`px-4 py-2 text-right font-medium ${unrealizedGain >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                                {formatCurrency(unrealizedGain)}
+                                                {lot.amtBasis !== lot.costBasis && <div className="text-[10px] text-purple-600 font-normal">AMT {formatCurrency(amtUnrealizedGain)}</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-slate-600 text-xs">
+                                                {isLongTerm ? 'Long-term' : `Short-term · LT ${lot.longTermDate} (${daysToLongTerm}d)`}
+                                                {lot.qualifyingDate && (
+                                                    <div className={`text-[10px] ${isQualifying ? 'text-emerald-600' : 'text-amber-600'}`}>
+                                                        {isQualifying ? 'Qualifying disposition' : `Qualifying from ${lot.qualifyingDate}`}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                            <tfoot className="border-t border-slate-200 font-bold text-slate-800">
+                                <tr>
+                                    <td className="px-4 py-2" colSpan={3}>Total</td>
+                                    <td className="px-4 py-2 text-right">{formatCurrency(holdingsValue)}</td>
+                                    <td className={`px-4 py-2 text-right ${holdingsGain >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(holdingsGain)}</td>
+                                    <td></td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* Transaction Ledger */}
+            {client.grants.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 print:border-slate-300 print:p-4 break-inside-avoid print:shadow-none">
+                    <div className="flex flex-wrap justify-between items-start gap-3 mb-4">
+                        <div>
+                            <h3 className="font-bold text-tidemark-navy mb-1 flex items-center gap-2">
+                                <BookOpen size={20} className="text-slate-400 print:hidden" />
+                                Transaction Ledger
+                            </h3>
+                            <p className="text-xs text-slate-500">Actual vests, exercises and sales. Recorded vests replace the projected vest within {LEDGER_MATCH_WINDOW_DAYS} days; holdings come from the ledger.</p>
+                        </div>
+                        <Button variant="secondary" onClick={() => setTransactionDraft({})} className="gap-2 text-sm print:hidden">
+                            <Plus size={16} /> Record Transaction
+                        </Button>
+                    </div>
+                    {ledger.length === 0 ? (
+                        <p className="text-sm text-slate-500">No transactions recorded. Projections value past vests at today's price.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                    <tr>
+                                        <th className="px-4 py-3">Date</th>
+                                        <th className="px-4 py-3">Grant</th>
+                                        <th className="px-4 py-3">Transaction</th>
+                                        <th className="px-4 py-3 text-right">Shares</th>
+                                        <th className="px-4 py-3 text-right">Price</th>
+                                        <th className="px-4 py-3 text-right">Withheld</th>
+                                        <th className="px-4 py-3 text-right">Value</th>
+                                        <th className="px-4 py-3 print:hidden"></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {ledger.map(({ transaction: t, grant }) => (
+                                        <tr key={t.id}>
+                                            <td className="px-4 py-2 text-slate-600">{t.date}</td>
+                                            <td className="px-4 py-2 font-medium text-slate-800">
+                                                {grant ? `${grant.ticker || grant.companyName} ${grant.type}` : 'Deleted grant'}
+                                                {t.notes && <div className="text-[10px] text-slate-400 font-normal">{t.notes}</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-slate-600">{TRANSACTION_TYPE_LABELS[t.type]}</td>
+                                            <td className="px-4 py-2 text-right text-slate-600">{formatNumber(t.shares)}</td>
+                                            <td className="px-4 py-2 text-right text-slate-600">${t.price.toFixed(2)}</td>
+                                            <td className="px-4 py-2 text-right text-slate-600">
+                                                {t.type === 'sale' ? '-' : formatCurrency(getTaxWithheld(t))}
+                                                {t.sharesWithheld !== undefined && t.type !== 'sale' && <div className="text-[10px] text-slate-400">{formatNumber(t.sharesWithheld)} sh</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-right font-medium text-slate-800">
+                                                {formatCurrency(t.type === 'sale' ? getSaleProceeds(t) : t.shares * t.price)}
+                                                {t.type === 'sale' && <div className="text-[10px] text-slate-400 font-normal">Proceeds</div>}
+                                            </td>
+                                            <td className="px-4 py-2 text-right print:hidden">
+                                                <button onClick={() => handleDeleteTransaction(t.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-full transition-colors" title="Delete Transaction">
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Charts (Hidden on Print if complex, but kept here for now as requested) */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:hidden">
                 <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
@@ -499,7 +1465,8 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                             <Tooltip content={<CustomTooltip />} />
                             <Legend iconType="circle" wrapperStyle={{fontSize: '12px', paddingTop: '10px'}} />
                             <Bar dataKey="fedTax" name="Federal Tax" stackId="a" fill="#00558C" radius={[0, 0, 4, 4]} maxBarSize={40} />
-                            <Bar dataKey="stateTax" name={`State (${client.state || 'Other'})`} stackId="a" fill="#1B365D" radius={[4, 4, 0, 0]} maxBarSize={40} />
+                            <Bar dataKey="stateTax" name={`State (${client.state || 'Other'})`} stackId="a" fill="#1B365D" maxBarSize={40} />
+                            <Bar dataKey="ficaTax" name="FICA (SS + Medicare)" stackId="a" fill="#94a3b8" radius={[4, 4, 0, 0]} maxBarSize={40} />
                             {/* Removed ISO AMT Line to prevent confusion with potential vs actual exercise */}
                         </BarChart>
                     </ResponsiveContainer>
@@ -540,8 +1507,20 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                                     </button>
                                 </div>
                                 <div className="flex justify-between items-start mb-2">
-                                    <span className="font-bold text-slate-800 text-lg">{grant.ticker || 'N/A'}</span>
-                                    <span className={`px-2 py-0.5 text-xs font-bold rounded uppercase ${grant.type === 'ISO' ? 'bg-purple-100 text-purple-700' : 'bg-tidemark-blue/10 text-tidemark-navy'}`}>
+                                    <span className="font-bold text-slate-800 text-lg">
+                                        {grant.ticker || 'N/A'}
+                                        {(grant.election83b || grant.allowEarlyExercise) && (
+                                            <span className="ml-2 text-[10px] font-bold uppercase text-tidemark-blue">
+                                                {grant.election83b ? '83(b)' : 'Early Exercise'}
+                                            </span>
+                                        )}
+                                        {grant.doubleTrigger && (
+                                            <span className="ml-2 text-[10px] font-bold uppercase text-amber-600" title={grant.doubleTrigger.liquidityDate ? `Liquidity ${grant.doubleTrigger.liquidityStatus}: ${grant.doubleTrigger.liquidityDate}` : 'No liquidity event assumed'}>
+                                                Double-Trigger
+                                            </span>
+                                        )}
+                                    </span>
+                                    <span className={`px-2 py-0.5 text-xs font-bold rounded uppercase ${grant.type === 'ISO' ? 'bg-purple-100 text-purple-700' : grant.type === 'NSO' ? 'bg-amber-100 text-amber-700' : grant.type === 'ESPP' ? 'bg-emerald-100 text-emerald-700' : 'bg-tidemark-blue/10 text-tidemark-navy'}`}>
                                     {grant.type}
                                     </span>
                                 </div>
@@ -549,9 +1528,25 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                                 
                                 <div className="grid grid-cols-2 gap-y-2 text-xs text-slate-500">
                                     <div>Price: <span className="font-medium text-slate-700">{formatCurrency(grant.currentPrice)}</span></div>
-                                    {grant.type === 'ISO' && <div>Strike: <span className="font-medium text-slate-700">{formatCurrency(grant.strikePrice || 0)}</span></div>}
-                                    <div>Total: <span className="font-medium text-slate-700">{formatNumber(grant.totalShares)}</span></div>
-                                    <div>Rate: <span className="font-medium text-slate-700">{grant.withholdingRate || 22}%</span></div>
+                                    {(grant.type === 'ISO' || grant.type === 'NSO') && <div>Strike: <span className="font-medium text-slate-700">{formatCurrency(grant.strikePrice || 0)}</span></div>}
+                                    {heldShares[grant.id] !== undefined && <div>Held: <span className="font-medium text-slate-700">{formatNumber(heldShares[grant.id])}</span></div>}
+                                    {getExpirationDate(grant) && <div>Expires: <span className={`font-medium ${expiringGrants.some(e => e.grant.id === grant.id) ? 'text-red-600' : 'text-slate-700'}`}>{getExpirationDate(grant)}</span></div>}
+                                    {isoLimitExcess[grant.id] > 0 && <div title="First exercisable above $100k of grant-date value in a year (IRC 422(d))">Over $100k: <span className="font-medium text-amber-600">{formatNumber(isoLimitExcess[grant.id])} NSO</span></div>}
+                                    {grant.type === 'RSA' && <div>Paid: <span className="font-medium text-slate-700">{formatCurrency(grant.strikePrice || 0)}</span></div>}
+                                    {grant.psu ? (
+                                        <>
+                                            <div>Target: <span className="font-medium text-slate-700">{formatNumber(grant.totalShares)}</span></div>
+                                            <div>Payout: <span className="font-medium text-slate-700">{grant.psu.assumedPayout}%</span></div>
+                                        </>
+                                    ) : grant.espp ? (
+                                        <>
+                                            <div>Contrib: <span className="font-medium text-slate-700">{grant.espp.contributionRate}%</span></div>
+                                            <div>Discount: <span className="font-medium text-slate-700">{grant.espp.discount}%{grant.espp.lookbackPrice !== undefined ? ' + Lookback' : ''}</span></div>
+                                        </>
+                                    ) : (
+                                        <div>Total: <span className="font-medium text-slate-700">{formatNumber(grant.totalShares)}</span></div>
+                                    )}
+                                    {(isStockUnitGrant(grant.type) || grant.type === 'NSO') && <div>Fed W/H: <span className="font-medium text-slate-700">{grant.withholdingRate !== undefined ? `${grant.withholdingRate}%` : 'Statutory'}</span></div>}
                                 </div>
                             </div>
                         ))
@@ -590,13 +1585,28 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                                 <tr key={idx} className="hover:bg-slate-50 transition-colors print:break-inside-avoid">
                                 <td className="px-4 py-3 font-medium text-slate-900">
                                     {event.date}
-                                    <div className="text-[10px] text-slate-400 uppercase print:text-black">{event.grantType}</div>
+                                    <div className="text-[10px] text-slate-400 uppercase print:text-black">{eventTypeLabel(event)}{EVENT_TYPE_LABELS[event.eventType]}</div>
+                                    {event.taxBreakdown.stateAllocations.length > 1 && (
+                                        <div className="text-[10px] text-slate-400 print:text-black" title="State tax by sourced state">
+                                            {event.taxBreakdown.stateAllocations.map(a => `${a.state} ${formatPercent(a.fraction)} (${formatCurrency(a.tax)})`).join(' · ')}
+                                        </div>
+                                    )}
                                 </td>
                                 <td className="px-4 py-3 text-slate-600 print:text-black">{formatNumber(event.shares)}</td>
-                                <td className="px-4 py-3 text-right text-slate-600 font-medium print:text-black">{formatCurrency(event.grossValue)}</td>
+                                <td className="px-4 py-3 text-right text-slate-600 font-medium print:text-black">
+                                    {formatCurrency(event.grossValue)}
+                                    {event.purchasePrice !== undefined && (
+                                        <div className="text-[10px] text-slate-400 font-normal print:text-black">Bought @ {formatCurrency(event.purchasePrice)}</div>
+                                    )}
+                                </td>
                                 <td className="px-4 py-3 text-center">
-                                    <div className="text-xs text-slate-500 print:text-black">{event.electedWithholdingRate}%</div>
+                                    <div className="text-xs text-slate-500 print:text-black">{event.grossValue > 0 ? formatPercent(event.withholdingAmount / event.grossValue) : '-'}</div>
                                     <div className="text-[10px] text-slate-400 print:hidden">({formatCurrency(event.withholdingAmount)})</div>
+                                    {event.withholdingAmount > 0 && (
+                                        <div className="text-[10px] text-slate-400 print:hidden">
+                                            Fed {event.electedWithholdingRate.toFixed(0)}% · State {formatCurrency(event.withholdingBreakdown.state)} · FICA {formatCurrency(event.withholdingBreakdown.fica)}
+                                        </div>
+                                    )}
                                 </td>
                                 <td className="px-4 py-3 text-right bg-slate-50/50 text-slate-500 font-mono print:bg-white print:text-black">
                                     -{formatNumber(Math.round(event.sharesSoldToCover))}
@@ -608,9 +1618,9 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
                                     {formatCurrency(event.netValue)}
                                 </td>
                                 <td className="px-4 py-3 text-right">
-                                    {event.grantType === 'ISO' ? (
+                                    {!isSupplementalWageEvent(event) ? (
                                     <div className="flex flex-col items-end">
-                                        <span className="text-slate-400 text-xs print:text-black">Unexercised</span>
+                                        <span className="text-slate-400 text-xs print:text-black">{event.eventType === 'purchase' ? 'Taxed at Sale' : event.eventType === 'service_vest' ? (event.grantType === 'RSA' ? 'Taxed at 83(b)' : 'Awaiting Liquidity') : 'Unexercised'}</span>
                                     </div>
                                     ) : (
                                     event.taxGap > 0 ? (
@@ -653,11 +1663,18 @@ export const ClientDetail: React.FC<ClientDetailProps> = ({ client, onBack, onUp
         initialData={{ 
             name: client.name, 
             taxBracket: client.taxBracket, 
+            useManualTaxBracket: client.useManualTaxBracket,
             state: client.state || 'CA',
+            residencyHistory: client.residencyHistory,
             filingStatus: client.filingStatus,
             estimatedIncome: client.estimatedIncome,
             customStateTaxRate: client.customStateTaxRate,
-            customLtcgTaxRate: client.customLtcgTaxRate
+            customLtcgTaxRate: client.customLtcgTaxRate,
+            taxRegime: client.taxRegime,
+            priorAmtCreditCarryforward: client.priorAmtCreditCarryforward,
+            priorYearFederalTax: client.priorYearFederalTax,
+            priorYearStateTax: client.priorYearStateTax,
+            priorYearAGI: client.priorYearAGI
         }}
       />
     </div>
@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { AccelerationTrigger, Client, CorporateActionType } from '../types';
+import { CORPORATE_ACTION_LABELS, CorporateActionInput, applyCorporateAction, isAcquisition, isAffectedGrant } from '../utils/corporateActions';
+import { ArrowRight } from 'lucide-react';
+
+interface CorporateActionFormProps {
+  client: Client;
+  onSave: (action: CorporateActionInput) => void;
+  onCancel: () => void;
+}
+
+export const CorporateActionForm: React.FC<CorporateActionFormProps> = ({ client, onSave, onCancel }) => {
+  // One entry per company the client holds grants in
+  const companies = useMemo(() => {
+    const seen = new Map<string, { ticker: string; companyName: string }>();
+    client.grants.forEach(g => {
+      const key = g.ticker ? g.ticker.toUpperCase() : g.companyName.trim().toLowerCase();
+      if (!seen.has(key)) seen.set(key, { ticker: g.ticker, companyName: g.companyName });
+    });
+    return Array.from(seen.entries()).map(([key, company]) => ({ key, ...company }));
+  }, [client.grants]);
+
+  const [type, setType] = useState<CorporateActionType>('split');
+  const [companyKey, setCompanyKey] = useState(companies[0]?.key || '');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  // Split ratios are entered as "new for old", e.g. 2-for-1 or 1-for-10
+  const [newShares, setNewShares] = useState<string>('2');
+  const [oldShares, setOldShares] = useState<string>('1');
+  const [exchangeRatio, setExchangeRatio] = useState<string>('');
+  const [newTicker, setNewTicker] = useState('');
+  const [newCompanyName, setNewCompanyName] = useState('');
+  const [cashPerShare, setCashPerShare] = useState<string>('');
+  const [acquirerPrice, setAcquirerPrice] = useState<string>('');
+  const [acceleration, setAcceleration] = useState<AccelerationTrigger>('none');
+  const [accelerationPercent, setAccelerationPercent] = useState<string>('100');
+  const [qualifyingTerminationDate, setQualifyingTerminationDate] = useState('');
+
+  const company = companies.find(c => c.key === companyKey);
+  const isSplit = type === 'split' || type === 'reverse_split';
+  const acquisition = isAcquisition({ type });
+
+  const changeType = (next: CorporateActionType) => {
+    if (next === 'split') { setNewShares('2'); setOldShares('1'); }
+    if (next === 'reverse_split') { setNewShares('1'); setOldShares('10'); }
+    setType(next);
+  };
+
+  const buildAction = (): CorporateActionInput | null => {
+    if (!company || !effectiveDate) return null;
+    const ratio = isSplit
+      ? (parseFloat(newShares) || 0) / (parseFloat(oldShares) || 1)
+      : type === 'stock_acquisition' ? parseFloat(exchangeRatio) || 0 : undefined;
+    if (ratio !== undefined && ratio <= 0) return null;
+    return {
+      id: '',
+      type,
+      effectiveDate,
+      ticker: company.ticker.toUpperCase(),
+      companyName: company.companyName,
+      ratio,
+      newTicker: type === 'ticker_change' || type === 'stock_acquisition' ? newTicker.toUpperCase() : undefined,
+      newCompanyName: (type === 'ticker_change' || type === 'stock_acquisition') && newCompanyName ? newCompanyName : undefined,
+      cashPerShare: type === 'cash_acquisition' && cashPerShare !== '' ? parseFloat(cashPerShare) : undefined,
+      acquirerPrice: type === 'stock_acquisition' && acquirerPrice !== '' ? parseFloat(acquirerPrice) : undefined,
+      acceleration: acquisition ? acceleration : undefined,
+      accelerationPercent: acquisition && acceleration !== 'none' && accelerationPercent !== '' ? parseFloat(accelerationPercent) : undefined,
+      qualifyingTerminationDate: acquisition && acceleration === 'double_trigger' && qualifyingTerminationDate ? qualifyingTerminationDate : undefined
+    };
+  };
+
+  const draft = buildAction();
+
+  // Affected grants before and after, so the adjustment can be checked before saving
+  const updated = draft ? applyCorporateAction(client, draft) : client;
+  const preview = draft
+    ? client.grants
+        .filter(g => isAffectedGrant(g, draft))
+        .map(before => ({ before, after: updated.grants.find(g => g.id === before.id)! }))
+    : [];
+  const accelerates = acquisition && acceleration !== 'none';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft) onSave({ ...draft, id: crypto.randomUUID() });
+  };
+
+  const inputClass = "w-full px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-900 placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+  const labelClass = "block text-sm font-semibold text-slate-700 mb-1.5";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-2 gap-5">
+        <div>
+          <label className={labelClass}>Action</label>
+          <select value={type} onChange={(e) => changeType(e.target.value as CorporateActionType)} className={inputClass}>
+            {(Object.keys(CORPORATE_ACTION_LABELS) as CorporateActionType[]).map(t => (
+              <option key={t} value={t}>{CORPORATE_ACTION_LABELS[t]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Company</label>
+          <select required value={companyKey} onChange={(e) => setCompanyKey(e.target.value)} className={inputClass}>
+            {companies.map(c => (
+              <option key={c.key} value={c.key}>{c.ticker ? `${c.ticker.toUpperCase()} — ${c.companyName}` : c.companyName}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-5">
+        <div>
+          <label className={labelClass}>Effective Date</label>
+          <input type="date" required value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} className={inputClass} />
+        </div>
+        {isSplit && (
+          <div className="animate-fade-in">
+            <label className={labelClass}>Ratio (new for old)</label>
+            <div className="flex items-center gap-2">
+              <input type="number" required min="0" step="any" value={newShares} onChange={(e) => setNewShares(e.target.value)} className={inputClass} />
+              <span className="text-sm text-slate-500">for</span>
+              <input type="number" required min="0" step="any" value={oldShares} onChange={(e) => setOldShares(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        )}
+        {type === 'cash_acquisition' && (
+          <div className="animate-fade-in">
+            <label className={labelClass}>Cash per Share ($)</label>
+            <input type="number" required min="0" step="0.01" value={cashPerShare} onChange={(e) => setCashPerShare(e.target.value)} className={inputClass} />
+          </div>
+        )}
+        {type === 'stock_acquisition' && (
+          <div className="animate-fade-in">
+            <label className={labelClass}>Exchange Ratio</label>
+            <input type="number" required min="0" step="any" value={exchangeRatio} onChange={(e) => setExchangeRatio(e.target.value)} className={inputClass} placeholder="Acquirer shares per share" />
+          </div>
+        )}
+      </div>
+
+      {(type === 'ticker_change' || type === 'stock_acquisition') && (
+        <div className="grid grid-cols-2 gap-5 animate-fade-in">
+          <div>
+            <label className={labelClass}>{type === 'stock_acquisition' ? 'Acquirer Ticker' : 'New Ticker'}</label>
+            <input type="text" value={newTicker} onChange={(e) => setNewTicker(e.target.value)} className={`${inputClass} uppercase`} />
+          </div>
+          <div>
+            <label className={labelClass}>{type === 'stock_acquisition' ? 'Acquirer Name' : 'New Company Name'}</label>
+            <input type="text" value={newCompanyName} onChange={(e) => setNewCompanyName(e.target.value)} className={inputClass} />
+          </div>
+          {type === 'stock_acquisition' && (
+            <div>
+              <label className={labelClass}>Acquirer Price ($)</label>
+              <input type="number" min="0" step="0.01" value={acquirerPrice} onChange={(e) => setAcquirerPrice(e.target.value)} className={inputClass} placeholder="Current price ÷ ratio" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {acquisition && (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 space-y-4 animate-fade-in">
+          <div className="grid grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>Vesting Acceleration</label>
+              <select value={acceleration} onChange={(e) => setAcceleration(e.target.value as AccelerationTrigger)} className={inputClass}>
+                <option value="none">None (awards assumed)</option>
+                <option value="single_trigger">Single trigger (at closing)</option>
+                <option value="double_trigger">Double trigger (closing + termination)</option>
+              </select>
+            </div>
+            {acceleration !== 'none' && (
+              <div>
+                <label className={labelClass}>Unvested Shares Accelerated (%)</label>
+                <input type="number" min="0" max="100" value={accelerationPercent} onChange={(e) => setAccelerationPercent(e.target.value)} className={inputClass} />
+              </div>
+            )}
+          </div>
+          {acceleration === 'double_trigger' && (
+            <div>
+              <label className={labelClass}>Qualifying Termination Date</label>
+              <input type="date" required min={effectiveDate} value={qualifyingTerminationDate} onChange={(e) => setQualifyingTerminationDate(e.target.value)} className={inputClass} />
+              <p className="text-xs text-slate-500 mt-1">Involuntary or good-reason termination after closing. Also becomes the grant's termination date.</p>
+            </div>
+          )}
+          <p className="text-xs text-slate-500">PSUs keep their performance periods. Double-trigger RSUs without a liquidity date settle at closing.</p>
+        </div>
+      )}
+
+      {preview.length > 0 && (
+        <div>
+          <label className={labelClass}>Affected Grants</label>
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 text-sm">
+            {preview.map(({ before, after }) => (
+              <div key={before.id} className="px-4 py-2 flex items-center justify-between gap-3">
+                <span className="font-medium text-slate-700">{before.type} · {before.grantDate}</span>
+                <span className="flex items-center gap-2 text-slate-600">
+                  {before.totalShares.toLocaleString()} sh{before.strikePrice !== undefined && ` @ $${before.strikePrice.toFixed(2)}`}
+                  <ArrowRight size={14} className="text-slate-400" />
+                  {after.ticker || after.companyName} {after.totalShares.toLocaleString()} sh{after.strikePrice !== undefined && ` @ $${after.strikePrice.toFixed(2)}`}
+                  {accelerates && !before.psu && before.type !== 'ESPP' && <span className="text-xs text-emerald-600 font-semibold">Accelerated</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-6 border-t border-slate-100 mt-2">
+        <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!draft}>
+          Record Action
+        </Button>
+      </div>
+    </form>
+  );
+};
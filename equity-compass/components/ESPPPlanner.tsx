@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Client, Grant, ISOScenario } from '../types';
+import { calculateESPPSaleScenario, getESPPPurchases, formatCurrency, formatNumber } from '../utils/calculations';
+import { getQualifyingDispositionDate } from '../utils/espp';
+import { ShoppingCart, TrendingUp, Info } from 'lucide-react';
+
+interface ESPPPlannerProps {
+  client: Client;
+  grants: Grant[];
+}
+
+export const ESPPPlanner: React.FC<ESPPPlannerProps> = ({ client, grants }) => {
+  const esppGrants = grants.filter(g => g.type === 'ESPP' && g.espp);
+  const [selectedGrantId, setSelectedGrantId] = useState<string>(esppGrants[0]?.id || '');
+  const selectedGrant = esppGrants.find(g => g.id === selectedGrantId);
+
+  const purchases = useMemo(() => selectedGrant ? getESPPPurchases(selectedGrant, client) : [], [selectedGrant, client]);
+  const [purchaseDate, setPurchaseDate] = useState<string>('');
+  const [shares, setShares] = useState<number>(0);
+  const [futurePrice, setFuturePrice] = useState<number>(0);
+
+  const purchase = purchases.find(p => p.date === purchaseDate) || purchases[0];
+
+  useEffect(() => {
+    if (selectedGrant) setFuturePrice(selectedGrant.currentPrice * 1.1);
+    setPurchaseDate(purchases[0]?.date || '');
+  }, [selectedGrant?.id]);
+
+  useEffect(() => {
+    if (purchase) setShares(Math.floor(purchase.shares));
+  }, [purchase?.date, purchase?.shares]);
+
+  if (!selectedGrant || !purchase) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  const earliestSale = purchase.date > today ? purchase.date : today;
+  const qualifyingDate = getQualifyingDispositionDate(selectedGrant.espp!, purchase.date);
+
+  const sellNow = calculateESPPSaleScenario(client, selectedGrant, purchase, shares, selectedGrant.currentPrice, earliestSale);
+  const holdQualifying = calculateESPPSaleScenario(client, selectedGrant, purchase, shares, futurePrice, qualifyingDate);
+  const netDifference = holdQualifying.netProfit - sellNow.netProfit;
+
+  const inputClass = "w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-tidemark-blue outline-none font-medium";
+
+  const renderScenario = (title: string, scenario: ISOScenario, highlight: boolean) => (
+    <div className={`border rounded-xl p-4 shadow-sm ${highlight ? 'border-tidemark-blue/30 bg-sky-50/30 ring-1 ring-tidemark-blue/10' : 'border-slate-200 bg-white'}`}>
+        <div className="flex justify-between items-start mb-3">
+            <div>
+                <h4 className={`font-bold text-sm ${highlight ? 'text-tidemark-navy' : 'text-tidemark-gray'}`}>{title}</h4>
+                <div className="text-[11px] text-slate-400">Sell {scenario.saleDate} at {formatCurrency(scenario.salePrice)}</div>
+            </div>
+            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${scenario.name === 'Qualifying Disposition' ? 'bg-tidemark-blue text-white' : 'bg-amber-100 text-amber-800'}`}>
+                {scenario.name === 'Qualifying Disposition' ? 'Qualifying' : 'Disqualifying'}
+            </span>
+        </div>
+        <div className="text-right mb-3">
+            <div className="text-[10px] text-slate-500 uppercase font-bold">Net Profit</div>
+            <div className={`text-xl font-bold ${highlight ? 'text-tidemark-navy' : 'text-tidemark-gray'}`}>{formatCurrency(scenario.netProfit)}</div>
+        </div>
+        <div className="pt-3 border-t border-slate-100 space-y-1 text-xs">
+            <div className="flex justify-between"><span className="text-slate-500">Ordinary Income (W-2)</span><span className="font-medium text-slate-700">{formatCurrency(scenario.ordinaryIncome)}</span></div>
+            <div className="flex justify-between"><span className="text-slate-500">Capital Gain</span><span className="font-medium text-slate-700">{formatCurrency(scenario.capitalGain)}</span></div>
+            <div className="flex justify-between"><span className="text-slate-500">Total Tax</span><span className="text-red-500 font-medium">{formatCurrency(scenario.taxes.totalTax)}</span></div>
+        </div>
+        <p className="mt-3 text-[11px] text-slate-400">{scenario.description}</p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm animate-fade-in">
+        <div className="mb-6 border-b border-slate-100 pb-6">
+            <h3 className="text-lg font-bold text-tidemark-navy flex items-center gap-2">
+                <ShoppingCart size={20} className="text-tidemark-blue" />
+                ESPP Sale Modeler
+            </h3>
+            <p className="text-sm text-slate-500">Compare a disqualifying sale now with holding to a qualifying disposition.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-1 space-y-5">
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Select Plan</label>
+                    <select value={selectedGrantId} onChange={(e) => setSelectedGrantId(e.target.value)} className={inputClass}>
+                        {esppGrants.map(g => (
+                            <option key={g.id} value={g.id}>{g.ticker || g.companyName} ESPP - {g.espp!.discount}% Discount</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Purchase</label>
+                    <select value={purchase.date} onChange={(e) => setPurchaseDate(e.target.value)} className={inputClass}>
+                        {purchases.map(p => (
+                            <option key={p.date} value={p.date}>{p.date} - {formatNumber(p.shares)} sh @ {formatCurrency(p.purchasePrice)}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Shares to Sell</label>
+                    <input
+                        type="number"
+                        min="0"
+                        max={purchase.shares}
+                        value={shares}
+                        onChange={(e) => setShares(parseFloat(e.target.value))}
+                        className={inputClass}
+                    />
+                    <div className="mt-2 space-y-1 text-xs text-slate-500">
+                        <div className="flex justify-between"><span>FMV at Purchase:</span><span className="font-bold text-slate-800">{formatCurrency(purchase.fmvAtPurchase)}</span></div>
+                        <div className="flex justify-between"><span>Purchase Price:</span><span className="font-bold text-slate-800">{formatCurrency(purchase.purchasePrice)}</span></div>
+                        <div className="flex justify-between"><span>Contributions:</span><span className="font-bold text-slate-800">{formatCurrency(purchase.contributions)}</span></div>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Projected Price on {qualifyingDate}</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={futurePrice}
+                        onChange={(e) => setFuturePrice(parseFloat(e.target.value))}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {renderScenario('Sell Now', sellNow, false)}
+                    {renderScenario('Hold to Qualifying Date', holdQualifying, true)}
+                </div>
+
+                {netDifference !== 0 && (
+                    <div className={`p-3 rounded-lg border flex items-center justify-center gap-2 text-sm font-bold ${
+                        netDifference > 0 ? 'bg-emerald-50 border-emerald-100 text-emerald-800' : 'bg-red-50 border-red-100 text-red-800'
+                    }`}>
+                        <TrendingUp size={16} />
+                        {netDifference > 0 ? 'Benefit of Holding:' : 'Cost of Holding:'}
+                        <span>{formatCurrency(Math.abs(netDifference))}</span>
+                    </div>
+                )}
+
+                <div className="flex gap-2 items-start p-3 bg-slate-50 text-slate-600 rounded-lg text-xs border border-slate-200">
+                    <Info size={16} className="shrink-0 mt-0.5 text-slate-400" />
+                    <p>
+                        ESPP income is reported on the W-2 in the year of sale but is not subject to FICA or withholding,
+                        so the tax shown here is due through estimated payments or at filing.
+                    </p>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { Client } from '../types';
+import { calculateEstimatedPayments, formatCurrency, getClientTaxRegime, EstimatedTaxPlan } from '../utils/calculations';
+import { getAvailableTaxYears } from '../utils/taxParameters';
+import { downloadCSVFile } from '../utils/csv';
+import { CalendarClock, Download, AlertTriangle, ShieldCheck, Info } from 'lucide-react';
+import { Button } from './Button';
+
+interface EstimatedTaxPlannerProps {
+  client: Client;
+}
+
+const SAFE_HARBOR_LABELS = {
+  current_year: '90% of current-year tax',
+  prior_year: 'Prior-year tax'
+};
+
+export const EstimatedTaxPlanner: React.FC<EstimatedTaxPlannerProps> = ({ client }) => {
+  const currentYear = new Date().getFullYear();
+  const [taxYear, setTaxYear] = useState<number>(currentYear);
+  const taxYearOptions = Array.from(new Set([currentYear, ...getAvailableTaxYears(getClientTaxRegime(client))]))
+    .filter(y => y >= currentYear)
+    .sort((a, b) => a - b);
+
+  const schedule = useMemo(() => calculateEstimatedPayments(client, taxYear), [client, taxYear]);
+  const plans = [schedule.federal, ...(schedule.state ? [schedule.state] : [])];
+
+  const safeHarborLabel = (plan: EstimatedTaxPlan) => plan.method === 'prior_year'
+    ? `${SAFE_HARBOR_LABELS.prior_year} (${((plan.priorYearRate || 1) * 100).toFixed(0)}%${plan.priorYearAGIUnknown ? ', prior-year AGI not entered' : ''})`
+    : SAFE_HARBOR_LABELS.current_year;
+
+  const exportSchedule = () => {
+    const rows: (string | number)[][] = [];
+    rows.push(['ESTIMATED TAX PAYMENT SCHEDULE']);
+    rows.push(['Client', client.name]);
+    rows.push(['Tax Year', taxYear]);
+    rows.push([]);
+
+    rows.push(['Jurisdiction', 'Projected Tax', 'Withholding', 'Balance Due', 'Current-Year Safe Harbor', 'Prior-Year Safe Harbor', 'Method', 'Required Annual Payment', 'Estimates Needed', 'Penalty if Paid in April']);
+    plans.forEach(p => {
+        rows.push([
+            p.jurisdiction,
+            p.currentYearTax.toFixed(2),
+            p.withholding.toFixed(2),
+            p.balanceDue.toFixed(2),
+            p.currentYearRequired.toFixed(2),
+            p.priorYearRequired !== undefined ? p.priorYearRequired.toFixed(2) : 'N/A',
+            p.method === 'prior_year' ? 'Prior Year' : 'Current Year',
+            p.requiredAnnualPayment.toFixed(2),
+            p.estimatedPaymentsNeeded.toFixed(2),
+            p.penaltyIfPaidInApril.toFixed(2)
+        ]);
+    });
+    rows.push([]);
+
+    rows.push(['Due Date', 'Vest Tax Gap in Period', 'ISO Exercise Exposure', ...plans.map(p => `${p.jurisdiction} Payment`)]);
+    schedule.periods.forEach((period, i) => {
+        rows.push([
+            period.dueDate,
+            period.vestTaxGap.toFixed(2),
+            period.isoExposure.toFixed(2),
+            ...plans.map(p => p.installments[i].recommendedPayment.toFixed(2))
+        ]);
+    });
+
+    downloadCSVFile(rows, `${client.name.replace(/\s+/g, '_')}_Estimated_Payments_${taxYear}.csv`);
+  };
+
+  const inputClass = "px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-tidemark-blue outline-none font-medium";
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6 border-b border-slate-100 pb-6">
+                <div>
+                    <h3 className="text-lg font-bold text-tidemark-navy flex items-center gap-2">
+                        <CalendarClock size={20} className="text-tidemark-blue" />
+                        Estimated Tax Payments
+                    </h3>
+                    <p className="text-sm text-slate-500">Quarterly 1040-ES and state vouchers needed to reach a safe harbor.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select value={taxYear} onChange={(e) => setTaxYear(parseInt(e.target.value))} className={inputClass}>
+                        {taxYearOptions.map(y => <option key={y} value={y}>{y}</option>)}
+                    </select>
+                    <Button variant="secondary" onClick={exportSchedule} className="flex items-center gap-2">
+                        <Download size={16} /> Export CSV
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {plans.map(plan => (
+                    <div key={plan.jurisdiction} className="border border-slate-200 rounded-xl p-5 bg-slate-50/50">
+                        <div className="flex justify-between items-center mb-4">
+                            <h4 className="font-bold text-slate-800">{plan.jurisdiction === 'Federal' ? 'Federal (1040-ES)' : `${plan.jurisdiction} State Vouchers`}</h4>
+                            {plan.estimatedPaymentsNeeded === 0 ? (
+                                <span className="flex items-center gap-1 text-xs font-medium text-emerald-600"><ShieldCheck size={14} /> Covered by withholding</span>
+                            ) : (
+                                <span className="text-xs font-medium text-amber-600">{formatCurrency(plan.estimatedPaymentsNeeded)} in estimates</span>
+                            )}
+                        </div>
+                        <div className="space-y-1.5 text-sm text-slate-600">
+                            <div className="flex justify-between"><span>Projected Tax</span><span className="font-medium text-slate-800">{formatCurrency(plan.currentYearTax)}</span></div>
+                            <div className="flex justify-between"><span>Withholding</span><span className="font-medium text-slate-800">{formatCurrency(plan.withholding)}</span></div>
+                            <div className="flex justify-between"><span>Balance Due at Filing</span><span className="font-medium text-slate-800">{formatCurrency(plan.balanceDue)}</span></div>
+                            <div className="border-t border-slate-200 my-2"></div>
+                            <div className="flex justify-between"><span>90% Current Year</span><span>{formatCurrency(plan.currentYearRequired)}</span></div>
+                            <div className="flex justify-between">
+                                <span>Prior Year</span>
+                                <span>{plan.priorYearRequired !== undefined ? formatCurrency(plan.priorYearRequired) : 'Not available'}</span>
+                            </div>
+                            <div className="flex justify-between font-medium text-tidemark-navy"><span>Safe Harbor Used</span><span>{safeHarborLabel(plan)}</span></div>
+                        </div>
+                        {plan.penaltyIfPaidInApril > 0 && (
+                            <div className="flex gap-2 items-start mt-4 p-3 bg-amber-50 text-amber-800 rounded-lg text-xs border border-amber-100">
+                                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                                <p>Paying only in April {taxYear + 1} adds an estimated <strong>{formatCurrency(plan.penaltyIfPaidInApril)}</strong> underpayment penalty{plan.jurisdiction === 'Federal' ? ' (Form 2210)' : ''}.</p>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-5 border-b border-slate-100 bg-slate-50/50">
+                <h3 className="font-bold text-slate-800">Payment Schedule</h3>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                        <tr>
+                            <th className="px-4 py-4">Due Date</th>
+                            <th className="px-4 py-4 text-right">Vest Tax Gap</th>
+                            <th className="px-4 py-4 text-right">ISO Exposure</th>
+                            {plans.map(p => <th key={p.jurisdiction} className="px-4 py-4 text-right">{p.jurisdiction} Payment</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {schedule.periods.map((period, i) => (
+                            <tr key={period.dueDate} className="hover:bg-slate-50 transition-colors">
+                                <td className="px-4 py-3 font-medium text-slate-900">{period.dueDate}</td>
+                                <td className="px-4 py-3 text-right text-slate-600">{formatCurrency(period.vestTaxGap)}</td>
+                                <td className="px-4 py-3 text-right text-purple-600">{formatCurrency(period.isoExposure)}</td>
+                                {plans.map(p => (
+                                    <td key={p.jurisdiction} className="px-4 py-3 text-right font-bold text-tidemark-navy">{formatCurrency(p.installments[i].recommendedPayment)}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex gap-2 items-start p-4 text-xs text-slate-500 border-t border-slate-100">
+                <Info size={14} className="shrink-0 mt-0.5" />
+                <p>
+                    Salary withholding is assumed to cover the tax on salary. Withholding counts as paid evenly across the four due dates.
+                    {!client.priorYearFederalTax && ' Add last year\'s tax in the client settings to unlock the prior-year safe harbor.'}
+                </p>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './Button';
-import { Grant, GrantType } from '../types';
+import { Grant, GrantType, PerformancePeriod, PSUMetric, VestingTrancheDefinition } from '../types';
 import { fetchStockPrice } from '../services/geminiService';
-import { Search, Loader2 } from 'lucide-react';
+import { buildPurchaseDates } from '../utils/espp';
+import { VESTING_TEMPLATES, getVestingDefinition } from '../utils/vesting';
+import { getExpirationDate } from '../utils/expiration';
+import { get83bDeadline } from '../utils/election83b';
+import { VestingScheduleEditor } from './VestingScheduleEditor';
+import { Search, Loader2, Plus, Trash2 } from 'lucide-react';
 
 interface GrantFormProps {
   onSave: (grant: Omit<Grant, 'id' | 'lastUpdated'>) => void;
@@ -19,7 +24,34 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
   const [grantDate, setGrantDate] = useState('');
   const [totalShares, setTotalShares] = useState<string>('');
   const [vestingSchedule, setVestingSchedule] = useState<Grant['vestingSchedule']>('standard_4y_1y_cliff');
-  const [withholdingRate, setWithholdingRate] = useState<string>('22');
+  const [vestingTranches, setVestingTranches] = useState<VestingTrancheDefinition[]>([]);
+  // Double-trigger (private company) RSUs
+  const [isDoubleTrigger, setIsDoubleTrigger] = useState(false);
+  const [liquidityDate, setLiquidityDate] = useState('');
+  const [liquidityStatus, setLiquidityStatus] = useState<'assumed' | 'actual'>('assumed');
+  const [withholdingRate, setWithholdingRate] = useState<string>('');
+  // Early exercise (options) and 83(b) election (RSAs; strikePrice is the price paid)
+  const [allowEarlyExercise, setAllowEarlyExercise] = useState(false);
+  const [election83b, setElection83b] = useState(false);
+  const [election83bFiledDate, setElection83bFiledDate] = useState('');
+  const [fmvAtGrant, setFmvAtGrant] = useState<string>('');
+  // Leaving this employer (overrides the client's termination scenario)
+  const [terminationDate, setTerminationDate] = useState('');
+  const [postTerminationExerciseDays, setPostTerminationExerciseDays] = useState<string>('');
+  const [expirationDate, setExpirationDate] = useState('');
+  // ESPP offering terms (grantDate doubles as the offering start)
+  const [contributionRate, setContributionRate] = useState<string>('10');
+  const [discount, setDiscount] = useState<string>('15');
+  const [offeringEndDate, setOfferingEndDate] = useState('');
+  const [purchaseInterval, setPurchaseInterval] = useState<number>(6);
+  const [lookbackPrice, setLookbackPrice] = useState<string>('');
+  // PSU performance terms (totalShares is the target award)
+  const [psuMetric, setPsuMetric] = useState<PSUMetric>('tsr');
+  const [performancePeriods, setPerformancePeriods] = useState<PerformancePeriod[]>([]);
+  const [thresholdPayout, setThresholdPayout] = useState<string>('50');
+  const [targetPayout, setTargetPayout] = useState<string>('100');
+  const [maxPayout, setMaxPayout] = useState<string>('200');
+  const [assumedPayout, setAssumedPayout] = useState<string>('100');
   const [isFetchingPrice, setIsFetchingPrice] = useState(false);
   const [priceError, setPriceError] = useState('');
 
@@ -35,8 +67,40 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
       setGrantDate(initialData.grantDate);
       setTotalShares(initialData.totalShares.toString());
       setVestingSchedule(initialData.vestingSchedule);
+      setVestingTranches(initialData.vestingTranches || []);
+      setIsDoubleTrigger(!!initialData.doubleTrigger);
+      setLiquidityDate(initialData.doubleTrigger?.liquidityDate || '');
+      setLiquidityStatus(initialData.doubleTrigger?.liquidityStatus || 'assumed');
+      setAllowEarlyExercise(!!initialData.allowEarlyExercise);
+      setElection83b(!!initialData.election83b);
+      setElection83bFiledDate(initialData.election83bFiledDate || '');
+      setFmvAtGrant(initialData.fmvAtGrant !== undefined ? initialData.fmvAtGrant.toString() : '');
+      setTerminationDate(initialData.terminationDate || '');
+      setPostTerminationExerciseDays(initialData.postTerminationExerciseDays !== undefined ? initialData.postTerminationExerciseDays.toString() : '');
+      setExpirationDate(initialData.expirationDate || '');
       // Fix: Check for undefined specifically
-      setWithholdingRate(initialData.withholdingRate !== undefined ? initialData.withholdingRate.toString() : '22');
+      setWithholdingRate(initialData.withholdingRate !== undefined ? initialData.withholdingRate.toString() : '');
+      if (initialData.espp) {
+        const { espp } = initialData;
+        setContributionRate(espp.contributionRate.toString());
+        setDiscount(espp.discount.toString());
+        setOfferingEndDate(espp.offeringEndDate);
+        setLookbackPrice(espp.lookbackPrice !== undefined ? espp.lookbackPrice.toString() : '');
+        if (espp.purchaseDates.length > 0) {
+          const start = new Date(espp.offeringStartDate);
+          const first = new Date(espp.purchaseDates[0]);
+          setPurchaseInterval((first.getFullYear() - start.getFullYear()) * 12 + first.getMonth() - start.getMonth());
+        }
+      }
+      if (initialData.psu) {
+        const { psu } = initialData;
+        setPsuMetric(psu.metric);
+        setPerformancePeriods(psu.performancePeriods);
+        setThresholdPayout(psu.thresholdPayout.toString());
+        setTargetPayout(psu.targetPayout.toString());
+        setMaxPayout(psu.maxPayout.toString());
+        setAssumedPayout(psu.assumedPayout.toString());
+      }
     }
   }, [initialData]);
 
@@ -60,19 +124,83 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const isESPP = type === 'ESPP';
     onSave({
       type,
       ticker: ticker.toUpperCase(),
       companyName,
       currentPrice: parseFloat(currentPrice),
-      strikePrice: type === 'ISO' && strikePrice !== '' ? parseFloat(strikePrice) : undefined,
+      strikePrice: (isOption || type === 'RSA') && strikePrice !== '' ? parseFloat(strikePrice) : undefined,
       grantDate,
-      totalShares: parseFloat(totalShares),
+      totalShares: isESPP ? 0 : parseFloat(totalShares),
       vestingSchedule,
-      withholdingRate: type === 'RSU' ? parseFloat(withholdingRate) : undefined
+      vestingTranches: vestingSchedule === 'custom' ? vestingTranches.filter(t => t.date) : undefined,
+      withholdingRate: hasWithholding && withholdingRate !== '' ? parseFloat(withholdingRate) : undefined,
+      espp: isESPP ? {
+        contributionRate: parseFloat(contributionRate),
+        discount: parseFloat(discount),
+        offeringStartDate: grantDate,
+        offeringEndDate,
+        purchaseDates: buildPurchaseDates(grantDate, offeringEndDate, purchaseInterval),
+        lookbackPrice: lookbackPrice !== '' ? parseFloat(lookbackPrice) : undefined
+      } : undefined,
+      allowEarlyExercise: isOption && allowEarlyExercise ? true : undefined,
+      election83b: type === 'RSA' && election83b ? true : undefined,
+      election83bFiledDate: type === 'RSA' && election83b && election83bFiledDate ? election83bFiledDate : undefined,
+      fmvAtGrant: (type === 'RSA' || type === 'ISO') && fmvAtGrant !== '' ? parseFloat(fmvAtGrant) : undefined,
+      terminationDate: terminationDate || undefined,
+      postTerminationExerciseDays: isOption && postTerminationExerciseDays !== '' ? parseInt(postTerminationExerciseDays) : undefined,
+      expirationDate: isOption && expirationDate ? expirationDate : undefined,
+      externalId: initialData?.externalId,
+      doubleTrigger: type === 'RSU' && isDoubleTrigger ? {
+        liquidityDate: liquidityDate || undefined,
+        liquidityStatus
+      } : undefined,
+      psu: type === 'PSU' ? {
+        metric: psuMetric,
+        performancePeriods: performancePeriods.filter(p => p.startDate && p.endDate),
+        thresholdPayout: parseFloat(thresholdPayout),
+        targetPayout: parseFloat(targetPayout),
+        maxPayout: parseFloat(maxPayout),
+        assumedPayout: parseFloat(assumedPayout)
+      } : undefined
     });
   };
 
+  // Switching to custom starts from the schedule that was selected
+  const changeVestingSchedule = (next: Grant['vestingSchedule']) => {
+    if (next === 'custom' && vestingTranches.length === 0 && grantDate) {
+      setVestingTranches(getVestingDefinition(vestingSchedule, grantDate));
+    }
+    setVestingSchedule(next);
+  };
+
+  const updatePeriod = (index: number, changes: Partial<PerformancePeriod>) => {
+    setPerformancePeriods(performancePeriods.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+
+  // New periods follow on from the last one (or start at the grant date) and run 3 years
+  const addPeriod = () => {
+    const start = performancePeriods.length > 0 ? performancePeriods[performancePeriods.length - 1].endDate : grantDate;
+    let end = '';
+    if (start) {
+      const d = new Date(start);
+      d.setFullYear(d.getFullYear() + 3);
+      end = d.toISOString().split('T')[0];
+    }
+    setPerformancePeriods([...performancePeriods, { startDate: start, endDate: end, weight: performancePeriods.length === 0 ? 100 : 0 }]);
+  };
+
+  const isOption = type === 'ISO' || type === 'NSO';
+  const hasWithholding = type === 'RSU' || type === 'PSU' || type === 'RSA' || type === 'NSO';
+  const periodWeight = performancePeriods.reduce((sum, p) => sum + (p.weight || 0), 0);
+  const payoutLevels = [
+    { label: 'Threshold', value: thresholdPayout },
+    { label: 'Target', value: targetPayout },
+    { label: 'Max', value: maxPayout }
+  ];
+  const purchaseDates = type === 'ESPP' ? buildPurchaseDates(grantDate, offeringEndDate, purchaseInterval) : [];
+
   const inputClass = "w-full px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-900 placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
   const labelClass = "block text-sm font-semibold text-slate-700 mb-1.5";
 
@@ -82,7 +210,7 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
       {/* Type Selector */}
       <div>
         <label className={labelClass}>Grant Type</label>
-        <div className="flex p-1 bg-slate-100 rounded-lg w-full max-w-xs">
+        <div className="flex p-1 bg-slate-100 rounded-lg w-full max-w-sm">
            <button
              type="button"
              onClick={() => setType('RSU')}
@@ -90,12 +218,40 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
            >
              RSU
            </button>
+           <button
+             type="button"
+             onClick={() => setType('PSU')}
+             className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${type === 'PSU' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+           >
+             PSU
+           </button>
+           <button
+             type="button"
+             onClick={() => setType('RSA')}
+             className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${type === 'RSA' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+           >
+             RSA
+           </button>
            <button
              type="button"
              onClick={() => setType('ISO')}
              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${type === 'ISO' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
            >
-             ISO / Option
+             ISO
+           </button>
+           <button
+             type="button"
+             onClick={() => setType('NSO')}
+             className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${type === 'NSO' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+           >
+             NSO
+           </button>
+           <button
+             type="button"
+             onClick={() => setType('ESPP')}
+             className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${type === 'ESPP' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+           >
+             ESPP
            </button>
         </div>
       </div>
@@ -153,12 +309,12 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
           {priceError && <p className="text-xs text-red-500 mt-1">{priceError}</p>}
         </div>
 
-        {type === 'ISO' && (
+        {(isOption || type === 'RSA') && (
            <div className="animate-fade-in">
-             <label className={labelClass}>Strike Price ($)</label>
+             <label className={labelClass}>{type === 'RSA' ? 'Purchase Price ($)' : 'Strike Price ($)'}</label>
              <input
                type="number"
-               required
+               required={isOption}
                step="0.01"
                min="0"
                value={strikePrice}
@@ -169,67 +325,430 @@ export const GrantForm: React.FC<GrantFormProps> = ({ onSave, onCancel, initialD
            </div>
         )}
         
-        {type === 'RSU' && (
+        {hasWithholding && (
            <div className="animate-fade-in">
-             <label className={labelClass}>Elected Withholding (%)</label>
+             <label className={labelClass}>Elected Federal Withholding (%)</label>
              <div className="relative">
                 <input
                   type="number"
-                  required
                   min="0"
                   max="100"
                   value={withholdingRate}
                   onChange={(e) => setWithholdingRate(e.target.value)}
                   className={inputClass}
-                  placeholder="22"
+                  placeholder="Statutory (22%)"
                 />
                 <span className="absolute right-3 top-2.5 text-slate-500 font-medium">%</span>
              </div>
-             <p className="text-xs text-slate-500 mt-1">Statutory default is 22%. High income is 37%.</p>
+             <p className="text-xs text-slate-500 mt-1">Leave blank for the 22% flat rate. {type === 'NSO' ? 'Exercises' : 'Vests'} above $1M YTD are always withheld at 37%; state and FICA are withheld on top.</p>
            </div>
         )}
       </div>
 
-      <div className="grid grid-cols-2 gap-5">
-        <div>
-          <label className={labelClass}>Grant Date</label>
-          <input
-            type="date"
-            required
-            value={grantDate}
-            onChange={(e) => setGrantDate(e.target.value)}
-            className={inputClass}
-          />
+      {type === 'RSU' && (
+        <div className="animate-fade-in">
+          <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input
+              type="checkbox"
+              checked={isDoubleTrigger}
+              onChange={(e) => setIsDoubleTrigger(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Double-Trigger (Private Company)
+          </label>
+          {isDoubleTrigger && (
+            <div className="grid grid-cols-2 gap-5 mt-3">
+              <div>
+                <label className={labelClass}>Liquidity Event Date</label>
+                <input
+                  type="date"
+                  value={liquidityDate}
+                  onChange={(e) => setLiquidityDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Date Is</label>
+                <select value={liquidityStatus} onChange={(e) => setLiquidityStatus(e.target.value as 'assumed' | 'actual')} className={inputClass}>
+                  <option value="assumed">Assumed (IPO / Acquisition Plan)</option>
+                  <option value="actual">Actual</option>
+                </select>
+              </div>
+              <p className="col-span-2 text-xs text-slate-500 -mt-2">
+                Service-vested shares accumulate untaxed and are all taxed on the liquidity date. Leave the date blank if no event is expected yet.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isOption && (
+        <div className="animate-fade-in">
+          <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input
+              type="checkbox"
+              checked={allowEarlyExercise}
+              onChange={(e) => setAllowEarlyExercise(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Early Exercise Allowed
+          </label>
+          <p className="text-xs text-slate-500 mt-1">Unvested shares can be exercised; the planner compares filing an 83(b) election with being taxed as they vest.</p>
+          <div className="mt-4">
+            <label className={labelClass}>Expiration Date</label>
+            <input
+              type="date"
+              min={grantDate}
+              value={expirationDate}
+              onChange={(e) => setExpirationDate(e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              {grantDate ? `Defaults to ${getExpirationDate({ type, grantDate })} (10 years after grant).` : 'Defaults to 10 years after the grant date.'} Unexercised options are worthless after this date.
+            </p>
+          </div>
+          {type === 'ISO' && (
+            <div className="mt-4">
+              <label className={labelClass}>FMV at Grant ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={fmvAtGrant}
+                onChange={(e) => setFmvAtGrant(e.target.value)}
+                className={inputClass}
+                placeholder="Strike price if blank"
+              />
+              <p className="text-xs text-slate-500 mt-1">Values the grant for the $100k annual ISO limit; shares over it are taxed as NSOs.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {type === 'RSA' && (
+        <div className="space-y-3 animate-fade-in">
+          <div className="grid grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>FMV at Grant ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={fmvAtGrant}
+                onChange={(e) => setFmvAtGrant(e.target.value)}
+                className={inputClass}
+                placeholder="Current price if blank"
+              />
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 mb-1.5">
+                <input
+                  type="checkbox"
+                  checked={election83b}
+                  onChange={(e) => setElection83b(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                83(b) Election
+              </label>
+              <input
+                type="date"
+                disabled={!election83b}
+                value={election83bFiledDate}
+                onChange={(e) => setElection83bFiledDate(e.target.value)}
+                className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-400`}
+              />
+              {election83b && grantDate && get83bDeadline(grantDate, election83bFiledDate || undefined).status === 'missed' ? (
+                <p className="text-xs text-red-600 mt-1">Past the {get83bDeadline(grantDate).deadline} deadline: the vests are taxed as if no election was made.</p>
+              ) : (
+                <p className="text-xs text-slate-500 mt-1">Date filed (blank if not yet filed).</p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            With an 83(b) election the spread over the purchase price is taxed on the grant date and vests are not taxable; without it, each vest is taxed at its value then.
+          </p>
         </div>
+      )}
+
+      {type === 'ESPP' ? (
+        <div className="space-y-5 animate-fade-in">
+          <div className="grid grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>Offering Start Date</label>
+              <input
+                type="date"
+                required
+                value={grantDate}
+                onChange={(e) => setGrantDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Offering End Date</label>
+              <input
+                type="date"
+                required
+                min={grantDate}
+                value={offeringEndDate}
+                onChange={(e) => setOfferingEndDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-5">
+            <div>
+              <label className={labelClass}>Contribution (%)</label>
+              <input
+                type="number"
+                required
+                min="0"
+                max="100"
+                step="0.5"
+                value={contributionRate}
+                onChange={(e) => setContributionRate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Discount (%)</label>
+              <input
+                type="number"
+                required
+                min="0"
+                max="15"
+                step="0.5"
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Purchase Every</label>
+              <select
+                value={purchaseInterval}
+                onChange={(e) => setPurchaseInterval(parseInt(e.target.value))}
+                className={inputClass}
+              >
+                <option value={3}>3 Months</option>
+                <option value={6}>6 Months</option>
+                <option value={12}>12 Months</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Lookback Price ($)</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={lookbackPrice}
+              onChange={(e) => setLookbackPrice(e.target.value)}
+              className={inputClass}
+              placeholder="FMV on offering date (blank if no lookback)"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              {purchaseDates.length > 0
+                ? `Purchases on ${purchaseDates.join(', ')}. Contributions come from salary; the $25k annual limit applies.`
+                : 'Enter the offering dates to schedule purchases.'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>Grant Date</label>
+              <input
+                type="date"
+                required
+                value={grantDate}
+                onChange={(e) => setGrantDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
         
+            <div>
+              <label className={labelClass}>{type === 'PSU' ? 'Target Shares' : 'Total Shares Granted'}</label>
+              <input
+                type="number"
+                required
+                min="1"
+                value={totalShares}
+                onChange={(e) => setTotalShares(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {type === 'PSU' ? (
+            <div className="space-y-5 animate-fade-in">
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-sm font-semibold text-slate-700">Performance Periods</label>
+                  <button
+                    type="button"
+                    onClick={addPeriod}
+                    className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+                  >
+                    <Plus size={14} /> Add Period
+                  </button>
+                </div>
+                {performancePeriods.length === 0 ? (
+                  <p className="text-xs text-slate-500">Add the period(s) over which performance is measured. Shares vest when each period ends.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {performancePeriods.map((period, i) => (
+                      <div key={i} className="grid grid-cols-[1fr_1fr_90px_auto] gap-2 items-center">
+                        <input
+                          type="date"
+                          required
+                          value={period.startDate}
+                          onChange={(e) => updatePeriod(i, { startDate: e.target.value })}
+                          className="px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                        />
+                        <input
+                          type="date"
+                          required
+                          min={period.startDate}
+                          value={period.endDate}
+                          onChange={(e) => updatePeriod(i, { endDate: e.target.value })}
+                          className="px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                        />
+                        <div className="relative">
+                          <input
+                            type="number"
+                            required
+                            min="0"
+                            max="100"
+                            value={period.weight}
+                            onChange={(e) => updatePeriod(i, { weight: parseFloat(e.target.value) })}
+                            className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                          />
+                          <span className="absolute right-2 top-2 text-slate-400 text-sm">%</span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setPerformancePeriods(performancePeriods.filter((_, idx) => idx !== i))}
+                          className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    <p className={`text-[10px] ${periodWeight === 100 ? 'text-slate-400' : 'text-amber-600'}`}>
+                      Start, end and share of target earned in each period ({periodWeight}% of 100% allocated).
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                <div>
+                  <label className={labelClass}>Metric</label>
+                  <select value={psuMetric} onChange={(e) => setPsuMetric(e.target.value as PSUMetric)} className={inputClass}>
+                    <option value="tsr">Relative TSR</option>
+                    <option value="revenue">Revenue</option>
+                    <option value="eps">EPS</option>
+                    <option value="other">Other</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Threshold (%)</label>
+                  <input type="number" required min="0" value={thresholdPayout} onChange={(e) => setThresholdPayout(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Target (%)</label>
+                  <input type="number" required min="0" value={targetPayout} onChange={(e) => setTargetPayout(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Max (%)</label>
+                  <input type="number" required min="0" value={maxPayout} onChange={(e) => setMaxPayout(e.target.value)} className={inputClass} />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Assumed Payout (%)</label>
+                <div className="flex gap-2 items-center">
+                  {payoutLevels.map(level => (
+                    <button
+                      key={level.label}
+                      type="button"
+                      onClick={() => setAssumedPayout(level.value)}
+                      className={`px-3 py-2 text-sm font-medium rounded-lg border transition-all ${assumedPayout === level.value ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
+                  <input
+                    type="number"
+                    required
+                    min="0"
+                    value={assumedPayout}
+                    onChange={(e) => setAssumedPayout(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Projected vests deliver this share of target. Threshold, target and max outcomes are compared on the client overview.</p>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Vesting Schedule</label>
+              <select
+                value={vestingSchedule}
+                onChange={(e) => changeVestingSchedule(e.target.value as Grant['vestingSchedule'])}
+                className={inputClass}
+              >
+                <option value="standard_4y_1y_cliff">Standard 4-Year (1 Year Cliff)</option>
+                <option value="standard_4y_quarterly">Standard 4-Year (Quarterly Immediate)</option>
+                <option value="custom">Custom Tranches</option>
+              </select>
+              {vestingSchedule === 'custom' ? (
+                <div className="mt-3">
+                  <VestingScheduleEditor
+                    grantDate={grantDate}
+                    totalShares={parseFloat(totalShares) || 0}
+                    tranches={vestingTranches}
+                    onChange={setVestingTranches}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500 mt-1">
+                  {VESTING_TEMPLATES.find(t => t.id === vestingSchedule)?.description}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-5">
         <div>
-          <label className={labelClass}>Total Shares Granted</label>
+          <label className={labelClass}>Termination Date</label>
           <input
-            type="number"
-            required
-            min="1"
-            value={totalShares}
-            onChange={(e) => setTotalShares(e.target.value)}
+            type="date"
+            value={terminationDate}
+            onChange={(e) => setTerminationDate(e.target.value)}
             className={inputClass}
           />
+          <p className="text-xs text-slate-500 mt-1">Only if leaving this employer on a different date than the client's scenario.</p>
         </div>
-      </div>
-
-      <div>
-        <label className={labelClass}>Vesting Schedule</label>
-        <select
-          value={vestingSchedule}
-          onChange={(e) => setVestingSchedule(e.target.value as Grant['vestingSchedule'])}
-          className={inputClass}
-        >
-          <option value="standard_4y_1y_cliff">Standard 4-Year (1 Year Cliff)</option>
-          <option value="standard_4y_quarterly">Standard 4-Year (Quarterly Immediate)</option>
-        </select>
-        <p className="text-xs text-slate-500 mt-1">
-          {vestingSchedule === 'standard_4y_1y_cliff' 
-            ? '25% vests after 1 year, then 1/16th quarterly thereafter.' 
-            : '1/16th vests every quarter starting 3 months after grant.'}
-        </p>
+        {isOption && (
+          <div className="animate-fade-in">
+            <label className={labelClass}>Post-Termination Exercise Window (days)</label>
+            <input
+              type="number"
+              min="0"
+              value={postTerminationExerciseDays}
+              onChange={(e) => setPostTerminationExerciseDays(e.target.value)}
+              className={inputClass}
+              placeholder="90"
+            />
+            {type === 'ISO' && <p className="text-xs text-slate-500 mt-1">Exercises more than 90 days after leaving are taxed as NSOs.</p>}
+          </div>
+        )}
       </div>
 
       <div className="flex gap-3 pt-6 border-t border-slate-100 mt-2">
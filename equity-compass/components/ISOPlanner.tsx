@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Client, Grant, PlannedExercise } from '../types';
-import { calculateISOScenarios, formatCurrency, formatPercent, getGrantStatus, formatNumber, calculateAMTRoom, getEffectiveRates } from '../utils/calculations';
-import { Info, CheckCircle, Save, TrendingUp, Lock, Unlock, MinusCircle, AlertTriangle, Wallet, ArrowRight, DollarSign, CalendarClock } from 'lucide-react';
+import { Client, Grant, PlannedExercise, TaxRegime } from '../types';
+import { calculateISOScenarios, calculateNSOScenarios, calculateNSOExerciseTax, compare83bElection, getExerciseSplit, getISOLimitSplit, formatCurrency, formatPercent, getGrantStatus, formatNumber, calculateAMTRoom, calculateAMTProjection, getClientTaxRegime } from '../utils/calculations';
+import { TAX_REGIMES, FILING_STATUSES, getAvailableTaxYears } from '../utils/taxParameters';
+import { getExerciseDeadline, getISODeadline, getTerminationDate } from '../utils/termination';
+import { getExpirationDate } from '../utils/expiration';
+import { Info, CheckCircle, Save, TrendingUp, Lock, Unlock, MinusCircle, AlertTriangle, Wallet, ArrowRight, DollarSign, CalendarClock, FileSignature } from 'lucide-react';
 import { Button } from './Button';
 
 interface ISOPlannerProps {
@@ -13,20 +16,27 @@ interface ISOPlannerProps {
 type StrategyMode = 'buy_hold' | 'cashless';
 
 export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePlan }) => {
-  const isoGrants = grants.filter(g => g.type === 'ISO');
-  const [selectedGrantId, setSelectedGrantId] = useState<string>(isoGrants[0]?.id || '');
+  const optionGrants = grants.filter(g => g.type === 'ISO' || g.type === 'NSO');
+  const [selectedGrantId, setSelectedGrantId] = useState<string>(optionGrants[0]?.id || '');
   const [sharesToExercise, setSharesToExercise] = useState<number>(0);
   const [futurePrice, setFuturePrice] = useState<number>(0);
   const [isSaved, setIsSaved] = useState(false);
   const [strategyMode, setStrategyMode] = useState<StrategyMode>('buy_hold');
+  const [fileElection83b, setFileElection83b] = useState(true);
+  const [taxYear, setTaxYear] = useState<number>(new Date().getFullYear());
+  const [taxRegime, setTaxRegime] = useState<TaxRegime>(getClientTaxRegime(client));
+  const currentYear = new Date().getFullYear();
+  const taxYearOptions = Array.from(new Set([currentYear, ...getAvailableTaxYears(taxRegime)])).filter(y => y >= currentYear).sort((a, b) => a - b);
 
-  const selectedGrant = isoGrants.find(g => g.id === selectedGrantId);
+  const selectedGrant = optionGrants.find(g => g.id === selectedGrantId);
+  const isNSO = selectedGrant?.type === 'NSO';
+  const terminationDate = selectedGrant ? getTerminationDate(client, selectedGrant) : undefined;
 
   // Stats for the specific selected grant
   const grantStatus = useMemo(() => {
      if (!selectedGrant) return null;
-     return getGrantStatus(selectedGrant, client.plannedExercises || []);
-  }, [selectedGrant, client.plannedExercises]);
+     return getGrantStatus(selectedGrant, client, client.plannedExercises || [], terminationDate, client.transactions);
+  }, [selectedGrant, client.plannedExercises, terminationDate, client.transactions]);
 
   useEffect(() => {
     if (selectedGrant && grantStatus) {
@@ -38,10 +48,60 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
   }, [selectedGrant?.id, grantStatus?.available]); 
 
   // AMT Optimization Logic
-  const amtStats = useMemo(() => calculateAMTRoom(client), [client]);
-  const currentSpread = selectedGrant ? (selectedGrant.currentPrice - (selectedGrant.strikePrice || 0)) * sharesToExercise : 0;
+  const scenario = useMemo(() => ({ year: taxYear, regime: taxRegime }), [taxYear, taxRegime]);
+  const amtStats = useMemo(() => calculateAMTRoom(client, scenario), [client, scenario]);
+
+  // Shares beyond those already vested are an early exercise (grant must allow it)
+  const vestedAvailable = grantStatus ? Math.max(0, grantStatus.vestedTotal - grantStatus.exercised) : 0;
+  const isEarlyExercise = !!selectedGrant?.allowEarlyExercise && sharesToExercise > vestedAvailable;
+
+  const buildPlan = (grant: Grant, id: string): PlannedExercise => ({
+        id,
+        grantId: grant.id,
+        grantTicker: grant.ticker,
+        shares: sharesToExercise,
+        // Exercises modelled for a later tax year are dated at the start of that year
+        exerciseDate: taxYear === currentYear ? new Date().toISOString().split('T')[0] : `${taxYear}-01-02`,
+        exercisePrice: grant.strikePrice || 0,
+        fmvAtExercise: grant.currentPrice,
+        type: isNSO ? 'NSO' : 'ISO',
+        // If cashless, AMT exposure is technically 0 because it's a disqualifying disposition in same year
+        // But we track the spread for record keeping. NSO spread is wages, never an AMT preference.
+        amtExposure: strategyMode === 'buy_hold' && !isNSO ? (grant.currentPrice - (grant.strikePrice || 0)) * sharesToExercise : 0,
+        estimatedCost: sharesToExercise * (grant.strikePrice || 0),
+        earlyExercise: isEarlyExercise || undefined,
+        election83b: isEarlyExercise && fileElection83b ? true : undefined
+  });
+
+  // ISO shares over the $100k limit are exercised as NSOs
+  const exerciseSplit = useMemo(() => {
+    if (!selectedGrant || isNSO) return { isoShares: 0, nsoShares: sharesToExercise };
+    const draft = buildPlan(selectedGrant, 'draft');
+    return getExerciseSplit({ ...client, plannedExercises: [...(client.plannedExercises || []), draft] }, draft);
+  }, [client, selectedGrant, isNSO, sharesToExercise, taxYear, strategyMode]);
+
+  // Only the ISO shares carry AMT preference
+  const currentSpread = selectedGrant ? (selectedGrant.currentPrice - (selectedGrant.strikePrice || 0)) * (isNSO ? sharesToExercise : exerciseSplit.isoShares) : 0;
   const isAmtDanger = currentSpread > amtStats.room;
 
+  // Full AMT + credit projection including this (unsaved) exercise
+  const amtProjection = useMemo(
+    () => calculateAMTProjection(client, strategyMode === 'buy_hold' && !isNSO ? Math.max(0, currentSpread) : 0, scenario),
+    [client, currentSpread, strategyMode, scenario, isNSO]
+  );
+  const amtThisYear = amtProjection[0];
+  const creditRecovery = amtProjection.filter(y => y.creditUsed > 0);
+  const isoLimitExcess = useMemo(
+    () => (getISOLimitSplit(client)[selectedGrantId] || []).reduce((sum, t) => sum + t.nsoShares, 0),
+    [client, selectedGrantId]
+  );
+
+  // 83(b) with vs without on the unvested shares of an early exercise
+  const election = useMemo(
+    () => selectedGrant && isEarlyExercise ? compare83bElection(client, selectedGrant, buildPlan(selectedGrant, 'draft')) : null,
+    [client, selectedGrant, isEarlyExercise, sharesToExercise, taxYear, strategyMode]
+  );
+
   const handleSave = () => {
     if (!selectedGrant) return;
     if (sharesToExercise > (grantStatus?.available || 0)) {
@@ -50,30 +110,16 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
     }
 
     // For cashless, the exercise price is effectively paid by sale, but we still record the event
-    const plan: PlannedExercise = {
-        id: crypto.randomUUID(),
-        grantId: selectedGrant.id,
-        grantTicker: selectedGrant.ticker,
-        shares: sharesToExercise,
-        exerciseDate: new Date().toISOString().split('T')[0],
-        exercisePrice: selectedGrant.strikePrice || 0,
-        fmvAtExercise: selectedGrant.currentPrice,
-        type: 'ISO',
-        // If cashless, AMT exposure is technically 0 because it's a disqualifying disposition in same year
-        // But we track the spread for record keeping.
-        amtExposure: strategyMode === 'buy_hold' ? (selectedGrant.currentPrice - (selectedGrant.strikePrice || 0)) * sharesToExercise : 0,
-        estimatedCost: sharesToExercise * (selectedGrant.strikePrice || 0)
-    };
-    onSavePlan(plan);
+    onSavePlan(buildPlan(selectedGrant, crypto.randomUUID()));
     setIsSaved(true);
     setTimeout(() => setIsSaved(false), 3000);
   };
 
-  if (isoGrants.length === 0) {
+  if (optionGrants.length === 0) {
     return (
         <div className="p-12 text-center bg-slate-50 rounded-xl border border-dashed border-slate-300">
-            <h3 className="text-slate-500 font-medium">No ISO Grants found for this client.</h3>
-            <p className="text-slate-400 text-sm mt-1">Add an ISO/Option grant to use the planning tools.</p>
+            <h3 className="text-slate-500 font-medium">No Option Grants found for this client.</h3>
+            <p className="text-slate-400 text-sm mt-1">Add an ISO or NSO grant to use the planning tools.</p>
         </div>
     );
   }
@@ -81,7 +127,9 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
   if (!selectedGrant || !grantStatus) return null;
 
   // --- Calculations for Buy & Hold ---
-  const qualifiedScenario = calculateISOScenarios(
+  const qualifiedScenario = isNSO
+    ? calculateNSOScenarios(selectedGrant, sharesToExercise, futurePrice, client, true)
+    : calculateISOScenarios(
       sharesToExercise, 
       selectedGrant.strikePrice || 0, 
       selectedGrant.currentPrice, 
@@ -90,7 +138,9 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
       true
   );
 
-  const disqualifiedScenario = calculateISOScenarios(
+  const disqualifiedScenario = isNSO
+    ? calculateNSOScenarios(selectedGrant, sharesToExercise, selectedGrant.currentPrice, client, false)
+    : calculateISOScenarios(
       sharesToExercise, 
       selectedGrant.strikePrice || 0, 
       selectedGrant.currentPrice, 
@@ -99,16 +149,18 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
       false
   );
 
+  // NSO spread is taxed (and withheld on) at exercise whichever way the shares are held
+  const nsoExercise = exerciseSplit.nsoShares > 0 ? calculateNSOExerciseTax(client, selectedGrant, exerciseSplit.nsoShares, selectedGrant.currentPrice) : null;
+
   const netDifference = qualifiedScenario.netProfit - disqualifiedScenario.netProfit;
 
   // --- Calculations for Cashless ---
-  const { stateRate } = getEffectiveRates(client);
   const totalProceeds = sharesToExercise * selectedGrant.currentPrice;
   const totalCost = sharesToExercise * (selectedGrant.strikePrice || 0);
   const grossProfit = totalProceeds - totalCost;
-  // Cashless is always Ordinary Income (Disqualified)
-  const estimatedTaxRate = (client.taxBracket / 100) + stateRate;
-  const estimatedTaxes = grossProfit * estimatedTaxRate;
+  // Cashless is always Ordinary Income (Disqualified for ISOs) - same as selling immediately at FMV
+  const estimatedTaxes = disqualifiedScenario.taxes.totalTax;
+  const estimatedTaxRate = grossProfit > 0 ? estimatedTaxes / grossProfit : 0;
   const netCash = grossProfit - estimatedTaxes;
 
   const inputClass = "w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-tidemark-blue outline-none font-medium";
@@ -121,7 +173,7 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
             <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6 border-b border-slate-100 pb-6">
                 <div>
                     <h3 className="text-lg font-bold text-tidemark-navy flex items-center gap-2">
-                        ISO Exercise Modeler
+                        {isNSO ? 'NSO' : 'ISO'} Exercise Modeler
                     </h3>
                     <p className="text-sm text-slate-500">Plan execution strategy for your options.</p>
                 </div>
@@ -130,7 +182,13 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                         <Lock size={14} className="text-slate-400" />
                         Unvested: <span className="font-bold text-slate-700">{formatNumber(grantStatus.unvested)}</span>
                     </div>
-                     <div className="flex items-center gap-2 px-3 py-1.5 bg-tidemark-blue/10 rounded-md border border-tidemark-blue/20 text-xs text-tidemark-navy" title="Shares vested and ready to exercise">
+                     {isoLimitExcess > 0 && (
+                        <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-50 rounded-md border border-amber-200 text-xs text-amber-800" title="Shares first exercisable above $100k of grant-date value in a year (IRC 422(d)) are treated as NSOs">
+                            <AlertTriangle size={14} className="text-amber-500" />
+                            Over $100k Limit (NSO): <span className="font-bold">{formatNumber(isoLimitExcess)}</span>
+                        </div>
+                     )}
+                     <div className="flex items-center gap-2 px-3 py-1.5 bg-tidemark-blue/10 rounded-md border border-tidemark-blue/20 text-xs text-tidemark-navy" title={selectedGrant.allowEarlyExercise ? 'Shares that can be exercised, including unvested shares (early exercise)' : 'Shares vested and ready to exercise'}>
                         <Unlock size={14} className="text-tidemark-blue" />
                         Available: <span className="font-bold text-tidemark-blue text-sm">{formatNumber(grantStatus.available)}</span>
                     </div>
@@ -168,12 +226,31 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                             onChange={(e) => setSelectedGrantId(e.target.value)}
                             className={inputClass}
                         >
-                            {isoGrants.map(g => (
-                                <option key={g.id} value={g.id}>{g.ticker} - {formatCurrency(g.strikePrice || 0)} Strike</option>
+                            {optionGrants.map(g => (
+                                <option key={g.id} value={g.id}>{g.ticker} {g.type} - {formatCurrency(g.strikePrice || 0)} Strike</option>
                             ))}
                         </select>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Tax Year</label>
+                            <select value={taxYear} onChange={(e) => setTaxYear(parseInt(e.target.value))} className={inputClass}>
+                                {taxYearOptions.map(y => (
+                                    <option key={y} value={y}>{y}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Tax Law</label>
+                            <select value={taxRegime} onChange={(e) => setTaxRegime(e.target.value as TaxRegime)} className={inputClass}>
+                                {TAX_REGIMES.map(r => (
+                                    <option key={r.value} value={r.value}>{r.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
                     <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
                          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5">Shares to Exercise</label>
                          <div className="flex items-center gap-2">
@@ -196,6 +273,28 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                              <span>Cost to Exercise:</span>
                              <span className="font-bold text-slate-800">{formatCurrency(sharesToExercise * (selectedGrant.strikePrice || 0))}</span>
                          </div>
+                         {!isNSO && exerciseSplit.nsoShares > 0 && (
+                             <div className="mt-1 text-xs text-amber-700 flex justify-between">
+                                 <span>ISO / NSO (over $100k):</span>
+                                 <span className="font-bold">{formatNumber(exerciseSplit.isoShares)} / {formatNumber(exerciseSplit.nsoShares)}</span>
+                             </div>
+                         )}
+                         {isEarlyExercise && (
+                             <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+                                 <div className="text-xs text-amber-700 font-medium">
+                                     Early exercise: {formatNumber(sharesToExercise - vestedAvailable)} unvested shares
+                                 </div>
+                                 <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                                     <input
+                                         type="checkbox"
+                                         checked={fileElection83b}
+                                         onChange={(e) => setFileElection83b(e.target.checked)}
+                                         className="rounded border-slate-300 text-tidemark-blue focus:ring-tidemark-blue"
+                                     />
+                                     File 83(b) Election
+                                 </label>
+                             </div>
+                         )}
                     </div>
 
                      <div>
@@ -226,19 +325,120 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
 
                 {/* Right Column: Analysis */}
                 <div className="lg:col-span-2 space-y-6">
+
+                    {!terminationDate && (() => {
+                        const exerciseDate = buildPlan(selectedGrant, 'draft').exerciseDate;
+                        const expirationDate = getExpirationDate(selectedGrant);
+                        if (!expirationDate || exerciseDate <= expirationDate) return null;
+                        return (
+                            <div className="flex gap-2 items-start p-3 rounded-lg text-xs border bg-red-50 text-red-800 border-red-100">
+                                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                                <p>These options expire on {expirationDate}. This exercise ({exerciseDate}) is after they lapse.</p>
+                            </div>
+                        );
+                    })()}
+
+                    {terminationDate && (() => {
+                        const exerciseDate = buildPlan(selectedGrant, 'draft').exerciseDate;
+                        const exerciseDeadline = getExerciseDeadline(selectedGrant, terminationDate);
+                        const isoDeadline = getISODeadline(terminationDate);
+                        return (
+                            <div className={`flex gap-2 items-start p-3 rounded-lg text-xs border ${exerciseDate > exerciseDeadline ? 'bg-red-50 text-red-800 border-red-100' : 'bg-amber-50 text-amber-800 border-amber-100'}`}>
+                                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                                <p>
+                                    Leaves {terminationDate}: {formatNumber(grantStatus.forfeited)} unvested shares are forfeited and vested options must be exercised by {exerciseDeadline}.
+                                    {!isNSO && ` Exercises after ${isoDeadline} are taxed as NSOs (wages at exercise, no AMT).`}
+                                    {exerciseDate > exerciseDeadline && ` This exercise (${exerciseDate}) is after the options lapse.`}
+                                </p>
+                            </div>
+                        );
+                    })()}
+
+                    {election && (
+                        <div className="rounded-xl border p-5 bg-amber-50/40 border-amber-200 animate-fade-in">
+                            <div className="flex justify-between items-center mb-3">
+                                <h4 className="font-bold text-tidemark-navy flex items-center gap-2">
+                                    <FileSignature size={18} className="text-amber-600" />
+                                    83(b) Election on {formatNumber(election.restrictedShares)} Unvested Shares
+                                </h4>
+                                <div className="text-xs font-medium text-slate-500 bg-white px-2 py-1 rounded border border-slate-200">
+                                    File by {election.deadline.deadline}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4 text-sm">
+                                {([['With 83(b)', election.withElection, fileElection83b], ['Without (Taxed at Vest)', election.withoutElection, !fileElection83b]] as const).map(([label, outcome, selected]) => (
+                                    <div key={label} className={`p-3 rounded-lg border ${selected ? 'bg-white border-tidemark-blue/30 ring-1 ring-tidemark-blue/10' : 'bg-white/60 border-slate-200'}`}>
+                                        <div className="text-xs font-bold text-slate-500 uppercase mb-2">{label}</div>
+                                        <div className="flex justify-between"><span className="text-slate-600">{election.incomeType === 'amt' ? 'AMT Preference' : 'Wage Income'}:</span><span className="font-medium text-slate-800">{formatCurrency(outcome.recognizedIncome)}</span></div>
+                                        <div className="flex justify-between"><span className="text-slate-600">{election.incomeType === 'amt' ? 'Net AMT' : 'Total Tax'}:</span><span className="font-bold text-slate-900">{formatCurrency(outcome.totalTax)}</span></div>
+                                        <div className="flex justify-between"><span className="text-slate-600">Holding Period From:</span><span className="font-medium text-slate-800">{outcome.holdingPeriodStart}</span></div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className={`mt-3 text-sm font-bold ${election.taxSavings >= 0 ? 'text-emerald-700' : 'text-red-700'}`}>
+                                {election.taxSavings >= 0 ? 'Election saves' : 'Election costs'} {formatCurrency(Math.abs(election.taxSavings))} at a {formatCurrency(selectedGrant.currentPrice)} share price
+                            </div>
+                            <p className="mt-2 text-xs text-slate-500">
+                                Without the election, each tranche is taxed as it vests at the projected price, so the comparison favors the election when the price is expected to rise. Tax paid under 83(b) is not refunded if the shares are forfeited or lose value.
+                            </p>
+                        </div>
+                    )}
                     
                     {/* MODE: BUY & HOLD */}
                     {strategyMode === 'buy_hold' && (
                         <div className="animate-fade-in space-y-6">
-                            {/* AMT Breakeven Visualizer */}
+                            {nsoExercise && (
+                            <div className="rounded-xl border p-5 bg-slate-50 border-slate-200">
+                                <div className="flex justify-between items-center mb-3">
+                                    <h4 className="font-bold text-tidemark-navy flex items-center gap-2">
+                                        <CalendarClock size={18} className="text-slate-400" />
+                                        {isNSO ? 'Tax at Exercise' : `${formatNumber(exerciseSplit.nsoShares)} Shares Over $100k ISO Limit`} ({new Date(nsoExercise.date).getFullYear()})
+                                    </h4>
+                                    <div className="text-xs font-medium text-slate-500 bg-white px-2 py-1 rounded border border-slate-200">
+                                        Filing: {FILING_STATUSES.find(f => f.value === (client.filingStatus || 'single'))?.abbreviation}
+                                    </div>
+                                </div>
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">Spread Taxed as Wages:</span>
+                                        <span className="font-bold text-slate-900">{formatCurrency(nsoExercise.grossValue)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">Federal Income Tax:</span>
+                                        <span className="font-medium text-slate-800">{formatCurrency(nsoExercise.taxBreakdown.fed)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">State Income Tax:</span>
+                                        <span className="font-medium text-slate-800">{formatCurrency(nsoExercise.taxBreakdown.state)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">FICA (SS + Medicare):</span>
+                                        <span className="font-medium text-slate-800">{formatCurrency(nsoExercise.taxBreakdown.socialSecurity + nsoExercise.taxBreakdown.medicare + nsoExercise.taxBreakdown.additionalMedicare)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">Withheld at Exercise ({nsoExercise.electedWithholdingRate.toFixed(0)}% Fed):</span>
+                                        <span className="font-medium text-slate-800">{formatCurrency(nsoExercise.withholdingAmount)}</span>
+                                    </div>
+                                    <div className="pt-2 mt-2 border-t border-slate-200 flex justify-between text-sm">
+                                        <span className="text-slate-600">Tax Gap (Owed at Filing):</span>
+                                        <span className={`font-bold ${nsoExercise.taxGap > 0 ? 'text-red-600' : 'text-emerald-600'}`}>{formatCurrency(nsoExercise.taxGap)}</span>
+                                    </div>
+                                </div>
+                                <p className="mt-3 text-xs text-slate-500">
+                                    {isNSO ? 'NSOs carry no AMT preference.' : 'ISO shares first exercisable above $100k of grant-date value in a year are NSOs: taxed as wages at exercise, with no AMT preference.'} The shares' basis is the FMV at exercise; only later appreciation is a capital gain.
+                                </p>
+                            </div>
+                            )}
+                            {!isNSO && (
+                            /* AMT Breakeven Visualizer */
                             <div className={`rounded-xl border p-5 ${isAmtDanger ? 'bg-purple-50 border-purple-200' : 'bg-slate-50 border-slate-200'}`}>
                                 <div className="flex justify-between items-center mb-3">
                                     <h4 className="font-bold text-tidemark-navy flex items-center gap-2">
                                         <CalendarClock size={18} className={isAmtDanger ? 'text-purple-600' : 'text-slate-400'} />
-                                        AMT Optimization (2026 Sunset Rules)
+                                        AMT Optimization ({amtStats.year} {TAX_REGIMES.find(r => r.value === taxRegime)?.label})
                                     </h4>
                                     <div className="text-xs font-medium text-slate-500 bg-white px-2 py-1 rounded border border-slate-200">
-                                        Filing: {client.filingStatus === 'married_joint' ? 'MFJ' : 'Single'}
+                                        Filing: {FILING_STATUSES.find(f => f.value === (client.filingStatus || 'single'))?.abbreviation}
                                     </div>
                                 </div>
                                 
@@ -251,13 +451,23 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                                         <span className="text-slate-600">Estimated AMT Room (Safe Harbor):</span>
                                         <span className="font-bold text-emerald-600">{formatCurrency(amtStats.room)}</span>
                                     </div>
+                                    {amtStats.existingPreference > 0 && (
+                                        <div className="flex justify-between text-xs">
+                                            <span className="text-slate-500">Already Planned This Year (Spread):</span>
+                                            <span className="font-medium text-slate-700">{formatCurrency(amtStats.existingPreference)}</span>
+                                        </div>
+                                    )}
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-600">AMT Owed {amtThisYear.year} (incl. this exercise):</span>
+                                        <span className={`font-bold ${amtThisYear.amtOwed > 0 ? 'text-purple-700' : 'text-slate-900'}`}>{formatCurrency(amtThisYear.amtOwed)}</span>
+                                    </div>
                                     <div className="pt-2 mt-2 border-t border-slate-100 flex flex-col gap-1 text-[11px] text-slate-400">
                                         <div className="flex justify-between">
                                             <span>Base Income (Est):</span>
                                             <span>{formatCurrency(amtStats.baseIncome)}</span>
                                         </div>
                                          <div className="flex justify-between">
-                                            <span>+ Proj. RSU Income ({new Date().getFullYear()}):</span>
+                                            <span>+ Proj. RSU Income ({amtStats.year}):</span>
                                             <span className="text-slate-600 font-medium">{formatCurrency(amtStats.projectedRSUIncome)}</span>
                                         </div>
                                          <div className="flex justify-between">
@@ -290,21 +500,44 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                                 {isAmtDanger ? (
                                     <div className="mt-3 flex gap-2 items-start text-xs text-purple-700 bg-purple-100 p-2 rounded">
                                         <AlertTriangle size={14} className="mt-0.5 shrink-0" />
-                                        <p>Warning: This exercise exceeds the estimated AMT break-even point for 2026. The TCJA sunset (State Taxes not deductible for AMT) lowers the threshold significantly.</p>
+                                        <p>
+                                            Warning: This exercise exceeds the estimated AMT break-even point for {amtStats.year}.
+                                            {taxRegime === 'tcja_sunset'
+                                                ? ' The TCJA sunset (State Taxes not deductible for AMT) lowers the threshold significantly.'
+                                                : ' State taxes and the standard deduction are added back for AMT.'}
+                                        </p>
                                     </div>
                                 ) : (
                                     <p className="mt-3 text-xs text-slate-500">
                                         You can likely exercise this amount without triggering AMT, assuming deductions align.
                                     </p>
                                 )}
+
+                                {amtThisYear.creditCarryforward > 0 && (
+                                    <div className="mt-4 pt-3 border-t border-slate-200">
+                                        <div className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">Credit Recoverable by Year</div>
+                                        {creditRecovery.length === 0 ? (
+                                            <p className="text-xs text-slate-500">Credit of {formatCurrency(amtThisYear.creditCarryforward)} is not recovered within the projection horizon.</p>
+                                        ) : (
+                                            <div className="flex flex-wrap gap-2">
+                                                {creditRecovery.map(y => (
+                                                    <div key={y.year} className="px-2 py-1 bg-white rounded border border-slate-200 text-xs">
+                                                        <span className="text-slate-500">{y.year}:</span> <span className="font-bold text-purple-700">{formatCurrency(y.creditUsed)}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                             </div>
+                            )}
 
                             {/* Compare Cards */}
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div className="border border-slate-200 rounded-xl p-4 bg-white shadow-sm">
                                     <div className="flex justify-between items-start mb-3">
                                         <h4 className="font-bold text-tidemark-gray text-sm">Sell Immediately</h4>
-                                        <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">Disqualified</span>
+                                        <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{isNSO ? 'Ordinary' : 'Disqualified'}</span>
                                     </div>
                                     <div className="text-right mb-3">
                                         <div className="text-[10px] text-slate-500 uppercase font-bold">Net Profit</div>
@@ -321,7 +554,7 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                                 <div className="border border-tidemark-blue/30 rounded-xl p-4 bg-sky-50/30 shadow-sm ring-1 ring-tidemark-blue/10">
                                     <div className="flex justify-between items-start mb-3">
                                         <h4 className="font-bold text-tidemark-navy text-sm">Hold 1 Year</h4>
-                                        <span className="text-[10px] font-bold uppercase bg-tidemark-blue text-white px-2 py-0.5 rounded-full">Qualified</span>
+                                        <span className="text-[10px] font-bold uppercase bg-tidemark-blue text-white px-2 py-0.5 rounded-full">{isNSO ? 'Long-Term' : 'Qualified'}</span>
                                     </div>
                                     <div className="text-right mb-3">
                                         <div className="text-[10px] text-tidemark-blue uppercase font-bold">Net Profit</div>
@@ -398,7 +631,7 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
                                         <div className="bg-slate-100 p-2 rounded-full text-slate-500 font-bold text-xs">3</div>
                                         <div>
                                             <p className="text-xs text-slate-500 font-bold uppercase">Less: Est. Taxes</p>
-                                            <p className="text-xs text-slate-400">Fed + State (~{formatPercent(estimatedTaxRate)}) on Profit</p>
+                                            <p className="text-xs text-slate-400">Fed + State{isNSO ? ' + FICA' : ''} (~{formatPercent(estimatedTaxRate)}) on Profit</p>
                                         </div>
                                     </div>
                                     <span className="font-medium text-red-500">-{formatCurrency(estimatedTaxes)}</span>
@@ -422,11 +655,18 @@ export const ISOPlanner: React.FC<ISOPlannerProps> = ({ client, grants, onSavePl
 
                                 <div className="flex gap-2 items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-xs border border-amber-100">
                                     <AlertTriangle size={16} className="shrink-0 mt-0.5" />
-                                    <p>
-                                        <strong>Note:</strong> Cashless exercises are Disqualifying Dispositions. 
-                                        You lose ISO tax benefits, and the profit is taxed as Ordinary Income. 
-                                        However, no upfront cash is required from the client.
-                                    </p>
+                                    {isNSO ? (
+                                        <p>
+                                            <strong>Note:</strong> The NSO spread is taxed as wages (including FICA) at exercise.
+                                            Part of the tax is withheld from the proceeds; the rest is due at filing.
+                                        </p>
+                                    ) : (
+                                        <p>
+                                            <strong>Note:</strong> Cashless exercises are Disqualifying Dispositions. 
+                                            You lose ISO tax benefits, and the profit is taxed as Ordinary Income. 
+                                            However, no upfront cash is required from the client.
+                                        </p>
+                                    )}
                                 </div>
                             </div>
                          </div>
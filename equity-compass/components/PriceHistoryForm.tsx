@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { Grant, PricePoint } from '../types';
+import { getPriceHistoryKey, mergePriceHistory, parsePriceHistoryCSV } from '../utils/priceHistory';
+import { Trash2, Upload } from 'lucide-react';
+
+interface PriceHistoryFormProps {
+  grants: Grant[];
+  priceHistory: Record<string, PricePoint[]>;
+  onSave: (key: string, points: PricePoint[]) => void;
+  onCancel: () => void;
+}
+
+export const PriceHistoryForm: React.FC<PriceHistoryFormProps> = ({ grants, priceHistory, onSave, onCancel }) => {
+  // One entry per stock the client holds grants in
+  const stocks = useMemo(() => {
+    const seen = new Map<string, string>();
+    grants.forEach(g => {
+      const key = getPriceHistoryKey(g);
+      if (!seen.has(key)) seen.set(key, g.ticker ? `${key} — ${g.companyName}` : `${key} (private)`);
+    });
+    return Array.from(seen.entries()).map(([key, label]) => ({ key, label }));
+  }, [grants]);
+
+  const [stockKey, setStockKey] = useState(stocks[0]?.key || '');
+  const [points, setPoints] = useState<PricePoint[]>(priceHistory[stocks[0]?.key] || []);
+  const [csvText, setCsvText] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const [date, setDate] = useState('');
+  const [close, setClose] = useState<string>('');
+
+  const changeStock = (key: string) => {
+    setStockKey(key);
+    setPoints(priceHistory[key] || []);
+    setImportMessage('');
+  };
+
+  const importCSV = (text: string) => {
+    const imported = parsePriceHistoryCSV(text);
+    setImportMessage(imported.length > 0
+      ? `Imported ${imported.length} closes from ${imported[0].date} to ${imported[imported.length - 1].date}.`
+      : 'No rows with a date and a price were found.');
+    if (imported.length > 0) {
+      setPoints(mergePriceHistory(points, imported));
+      setCsvText('');
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) file.text().then(importCSV);
+    e.target.value = '';
+  };
+
+  const addPoint = () => {
+    const value = parseFloat(close);
+    if (!date || !(value > 0)) return;
+    setPoints(mergePriceHistory(points, [{ date, close: value }]));
+    setDate('');
+    setClose('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(stockKey, points);
+  };
+
+  const inputClass = "w-full px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-900 placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+  const labelClass = "block text-sm font-semibold text-slate-700 mb-1.5";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label className={labelClass}>Stock</label>
+        <select required value={stockKey} onChange={(e) => changeStock(e.target.value)} className={inputClass}>
+          {stocks.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+      </div>
+
+      <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <label className={`${labelClass} mb-0`}>Import CSV</label>
+          <label className="flex items-center gap-2 text-sm font-semibold text-tidemark-blue hover:text-tidemark-navy cursor-pointer">
+            <Upload size={16} /> Choose File
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+        <textarea
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          rows={4}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder={"Date,Close\n2025-03-14,182.40\n2025-03-17,184.10"}
+        />
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">Needs a date column and a close or price column. Enter closes as traded; later splits are applied for you.</p>
+          <Button type="button" variant="secondary" onClick={() => importCSV(csvText)} disabled={!csvText.trim()} className="text-sm shrink-0">
+            Import Pasted
+          </Button>
+        </div>
+        {importMessage && <p className="text-xs font-medium text-slate-700">{importMessage}</p>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-5 items-end">
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Close ($)</label>
+          <input type="number" min="0" step="0.01" value={close} onChange={(e) => setClose(e.target.value)} className={inputClass} placeholder="0.00" />
+        </div>
+        <Button type="button" variant="secondary" onClick={addPoint} disabled={!date || !(parseFloat(close) > 0)}>
+          Add Close
+        </Button>
+      </div>
+
+      <div>
+        <label className={labelClass}>{points.length} Closes</label>
+        {points.length > 0 && (
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 text-sm max-h-64 overflow-y-auto">
+            {[...points].reverse().map(p => (
+              <div key={p.date} className="px-4 py-1.5 flex items-center justify-between gap-3">
+                <span className="text-slate-600">{p.date}</span>
+                <span className="flex items-center gap-3 font-medium text-slate-800">
+                  ${p.close.toFixed(2)}
+                  <button type="button" onClick={() => setPoints(points.filter(q => q.date !== p.date))} className="text-slate-400 hover:text-red-500" title="Remove close">
+                    <Trash2 size={14} />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-3 pt-6 border-t border-slate-100 mt-2">
+        <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!stockKey}>
+          Save Prices
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Client, LotSelectionMethod, PlannedSale } from '../types';
+import { formatCurrency, formatNumber, formatPercent } from '../utils/calculations';
+import { isAffectedGrant } from '../utils/corporateActions';
+import { TaxLot } from '../utils/taxLots';
+import { LOT_SELECTION_LABELS, SaleTarget, getSaleLots, planSale, rankLots, toPlannedSale } from '../utils/salePlanner';
+import { Button } from './Button';
+import { Banknote, CheckCircle, Save, AlertTriangle, Info } from 'lucide-react';
+
+interface SalePlannerProps {
+  client: Client;
+  onSaveSale: (sale: PlannedSale) => void;
+}
+
+export const SalePlanner: React.FC<SalePlannerProps> = ({ client, onSaveSale }) => {
+  // One entry per company the client holds grants in
+  const companies = useMemo(() => {
+    const seen = new Map<string, { ticker: string; companyName: string; currentPrice: number }>();
+    client.grants.forEach(g => {
+      const key = g.ticker ? g.ticker.toUpperCase() : g.companyName.trim().toLowerCase();
+      if (!seen.has(key)) seen.set(key, { ticker: g.ticker, companyName: g.companyName, currentPrice: g.currentPrice });
+    });
+    return Array.from(seen.entries()).map(([key, company]) => ({ key, ...company }));
+  }, [client.grants]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const [companyKey, setCompanyKey] = useState(companies[0]?.key || '');
+  const [saleDate, setSaleDate] = useState(today);
+  const [salePrice, setSalePrice] = useState<number>(companies[0]?.currentPrice || 0);
+  const [method, setMethod] = useState<LotSelectionMethod>('specific_id');
+  const [target, setTarget] = useState<SaleTarget>('cash');
+  const [amount, setAmount] = useState<number>(0);
+  // Specific ID: lots the client does not want to sell
+  const [excludedLots, setExcludedLots] = useState<string[]>([]);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const company = companies.find(c => c.key === companyKey);
+
+  useEffect(() => {
+    if (company) setSalePrice(company.currentPrice);
+    setExcludedLots([]);
+  }, [companyKey]);
+
+  const grantIds = useMemo(
+    () => company ? client.grants.filter(g => isAffectedGrant(g, company)).map(g => g.id) : [],
+    [client.grants, company?.key]
+  );
+  const lots = useMemo(() => getSaleLots(client, grantIds, saleDate), [client, grantIds, saleDate]);
+  const ranked = useMemo(() => rankLots(client, lots, method, salePrice, saleDate), [client, lots, method, salePrice, saleDate]);
+  const plan = useMemo(
+    () => planSale(client, method === 'specific_id' ? lots.filter(l => !excludedLots.includes(l.id)) : lots, method, target, amount, salePrice, saleDate),
+    [client, lots, method, target, amount, salePrice, saleDate, excludedLots]
+  );
+
+  if (!company) return null;
+
+  const toggleLot = (lotId: string) =>
+    setExcludedLots(excludedLots.includes(lotId) ? excludedLots.filter(id => id !== lotId) : [...excludedLots, lotId]);
+
+  const handleSave = () => {
+    onSaveSale(toPlannedSale(plan, company.ticker ? company.ticker.toUpperCase() : company.companyName, crypto.randomUUID()));
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 3000);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-tidemark-blue outline-none font-medium";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1.5";
+
+  const holdingLabel = (lot: TaxLot) => {
+    if (lot.qualifyingDate) {
+      return saleDate >= lot.qualifyingDate
+        ? <span className="text-emerald-600 font-semibold">Qualifying</span>
+        : <span className="text-amber-600 font-semibold" title={`Qualifying from ${lot.qualifyingDate}`}>Disqualifying</span>;
+    }
+    return saleDate >= lot.longTermDate
+      ? <span className="text-emerald-600 font-semibold">Long-Term</span>
+      : <span className="text-amber-600 font-semibold" title={`Long-term from ${lot.longTermDate}`}>Short-Term</span>;
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm animate-fade-in">
+        <div className="mb-6 border-b border-slate-100 pb-6">
+            <h3 className="text-lg font-bold text-tidemark-navy flex items-center gap-2">
+                <Banknote size={20} className="text-tidemark-blue" />
+                Sale Planner
+            </h3>
+            <p className="text-sm text-slate-500">Choose which lots to sell to raise a cash amount after tax, or to sell a number of shares.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-1 space-y-5">
+                <div>
+                    <label className={labelClass}>Company</label>
+                    <select value={companyKey} onChange={(e) => setCompanyKey(e.target.value)} className={inputClass}>
+                        {companies.map(c => (
+                            <option key={c.key} value={c.key}>{c.ticker ? `${c.ticker.toUpperCase()} — ${c.companyName}` : c.companyName}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Sale Date</label>
+                        <input type="date" value={saleDate} onChange={(e) => setSaleDate(e.target.value || today)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Sale Price ($)</label>
+                        <input type="number" min="0" step="0.01" value={salePrice} onChange={(e) => setSalePrice(parseFloat(e.target.value) || 0)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+                    <label className={labelClass}>Raise</label>
+                    <div className="flex gap-1 bg-slate-200/50 p-1 rounded-lg mb-3">
+                        {(['cash', 'shares'] as SaleTarget[]).map(t => (
+                            <button
+                                key={t}
+                                onClick={() => setTarget(t)}
+                                className={`flex-1 px-3 py-1.5 rounded-md text-xs font-bold transition-all ${target === t ? 'bg-white text-tidemark-navy shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {t === 'cash' ? 'Cash After Tax' : 'Share Count'}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="number"
+                        min="0"
+                        value={amount}
+                        onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                        className={inputClass}
+                        placeholder={target === 'cash' ? 'e.g. 200000' : 'Shares'}
+                    />
+                    <div className="mt-2 text-xs text-slate-500 flex justify-between">
+                        <span>Available on {saleDate}:</span>
+                        <span className="font-bold text-slate-800">{formatNumber(lots.reduce((sum, l) => sum + l.remainingShares, 0))} shares</span>
+                    </div>
+                </div>
+
+                <div>
+                    <label className={labelClass}>Lot Selection</label>
+                    <select value={method} onChange={(e) => setMethod(e.target.value as LotSelectionMethod)} className={inputClass}>
+                        {(Object.keys(LOT_SELECTION_LABELS) as LotSelectionMethod[]).map(m => (
+                            <option key={m} value={m}>{LOT_SELECTION_LABELS[m]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <Button onClick={handleSave} className={`w-full gap-2 ${isSaved ? 'bg-emerald-600 hover:bg-emerald-700' : ''}`} disabled={plan.shares <= 0}>
+                    {isSaved ? <CheckCircle size={18} /> : <Save size={18} />}
+                    {isSaved ? 'Sale Saved' : 'Save Planned Sale'}
+                </Button>
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+                {lots.length === 0 ? (
+                    <div className="p-12 text-center bg-slate-50 rounded-xl border border-dashed border-slate-300">
+                        <h3 className="text-slate-500 font-medium">No shares held on {saleDate}.</h3>
+                        <p className="text-slate-400 text-sm mt-1">Shares appear here once they vest, are purchased or are recorded as exercised.</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="border border-slate-200 rounded-xl p-4 bg-white shadow-sm">
+                                <div className="text-[10px] text-slate-500 uppercase font-bold">Gross Proceeds</div>
+                                <div className="text-xl font-bold text-tidemark-gray">{formatCurrency(plan.grossProceeds)}</div>
+                                <div className="text-[11px] text-slate-400">{formatNumber(plan.shares)} shares at {formatCurrency(salePrice)}</div>
+                            </div>
+                            <div className="border border-slate-200 rounded-xl p-4 bg-white shadow-sm">
+                                <div className="text-[10px] text-slate-500 uppercase font-bold">Estimated Tax</div>
+                                <div className="text-xl font-bold text-red-500">{formatCurrency(plan.taxes.totalTax)}</div>
+                                <div className="text-[11px] text-slate-400">{plan.grossProceeds > 0 ? formatPercent(plan.taxes.totalTax / plan.grossProceeds) : '0%'} of proceeds</div>
+                            </div>
+                            <div className="border border-tidemark-blue/30 rounded-xl p-4 bg-sky-50/30 shadow-sm ring-1 ring-tidemark-blue/10">
+                                <div className="text-[10px] text-tidemark-blue uppercase font-bold">Net After Tax</div>
+                                <div className="text-xl font-bold text-tidemark-navy">{formatCurrency(plan.netProceeds)}</div>
+                                <div className="text-[11px] text-slate-400">{LOT_SELECTION_LABELS[method]}</div>
+                            </div>
+                        </div>
+
+                        {plan.shortfall > 0 && (
+                            <div className="flex gap-2 items-start p-3 bg-amber-50 text-amber-800 rounded-lg text-xs border border-amber-200">
+                                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                                <p>
+                                    The lots available fall {target === 'cash' ? formatCurrency(plan.shortfall) : `${formatNumber(plan.shortfall)} shares`} short of the target.
+                                </p>
+                            </div>
+                        )}
+
+                        <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+                            <div>
+                                <div className="text-slate-500 font-bold uppercase">Federal</div>
+                                <div className="font-bold text-slate-800">{formatCurrency(plan.taxes.fedAmount)}</div>
+                                <div className="text-slate-400">{formatPercent(plan.taxes.fedRate)} effective</div>
+                            </div>
+                            <div>
+                                <div className="text-slate-500 font-bold uppercase">NIIT</div>
+                                <div className="font-bold text-slate-800">{formatCurrency(plan.taxes.niitAmount)}</div>
+                                <div className="text-slate-400">{formatPercent(plan.taxes.niitRate)} of gains</div>
+                            </div>
+                            <div>
+                                <div className="text-slate-500 font-bold uppercase">State</div>
+                                <div className="font-bold text-slate-800">{formatCurrency(plan.taxes.stateAmount)}</div>
+                                <div className="text-slate-400">{formatPercent(plan.taxes.stateRate)} effective</div>
+                            </div>
+                            <div>
+                                <div className="text-slate-500 font-bold uppercase">Income Recognized</div>
+                                <div className="font-bold text-slate-800">{formatCurrency(plan.income.ordinaryIncome + plan.income.shortTermGain + plan.income.longTermGain)}</div>
+                                <div className="text-slate-400">
+                                    {formatCurrency(plan.income.ordinaryIncome)} ordinary &middot; {formatCurrency(plan.income.shortTermGain)} ST &middot; {formatCurrency(plan.income.longTermGain)} LT
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="text-xs text-slate-500 bg-slate-50 uppercase tracking-wider font-semibold border-b border-slate-100">
+                                    <tr>
+                                        {method === 'specific_id' && <th className="px-3 py-3">Sell</th>}
+                                        <th className="px-3 py-3">Lot</th>
+                                        <th className="px-3 py-3 text-right">Available</th>
+                                        <th className="px-3 py-3 text-right">After Tax / Sh</th>
+                                        <th className="px-3 py-3 text-right">Shares Sold</th>
+                                        <th className="px-3 py-3 text-right">Ordinary</th>
+                                        <th className="px-3 py-3 text-right">Capital Gain</th>
+                                        <th className="px-3 py-3 text-right">Federal</th>
+                                        <th className="px-3 py-3 text-right">NIIT</th>
+                                        <th className="px-3 py-3 text-right">State</th>
+                                        <th className="px-3 py-3 text-right">Total Tax</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {ranked.map(({ lot, shares: available, afterTaxProceeds }) => {
+                                        const sale = plan.sales.find(s => s.lot.id === lot.id);
+                                        const grant = client.grants.find(g => g.id === lot.grantId);
+                                        return (
+                                            <tr key={lot.id} className={sale ? '' : 'text-slate-400'}>
+                                                {method === 'specific_id' && (
+                                                    <td className="px-3 py-2">
+                                                        <input type="checkbox" checked={!excludedLots.includes(lot.id)} onChange={() => toggleLot(lot.id)} />
+                                                    </td>
+                                                )}
+                                                <td className="px-3 py-2">
+                                                    <div className="font-medium text-slate-800">{lot.isoShares ? 'ISO' : lot.grantType === 'ISO' ? 'ISO (NSO)' : lot.grantType} · {lot.acquisitionDate}</div>
+                                                    <div className="text-xs">{grant?.grantDate} grant &middot; basis ${lot.costBasis.toFixed(2)} &middot; {holdingLabel(lot)}</div>
+                                                </td>
+                                                <td className="px-3 py-2 text-right">{formatNumber(available)}</td>
+                                                <td className="px-3 py-2 text-right">${(afterTaxProceeds / available).toFixed(2)}</td>
+                                                <td className="px-3 py-2 text-right font-bold">{sale ? formatNumber(sale.shares) : '—'}</td>
+                                                <td className="px-3 py-2 text-right">{sale ? formatCurrency(sale.scenario.ordinaryIncome) : ''}</td>
+                                                <td className="px-3 py-2 text-right">{sale ? formatCurrency(sale.scenario.capitalGain) : ''}</td>
+                                                <td className="px-3 py-2 text-right">{sale ? formatCurrency(sale.scenario.taxes.fedAmount) : ''}</td>
+                                                <td className="px-3 py-2 text-right">{sale ? formatCurrency(sale.scenario.taxes.niitAmount) : ''}</td>
+                                                <td className="px-3 py-2 text-right">{sale ? formatCurrency(sale.scenario.taxes.stateAmount) : ''}</td>
+                                                <td className="px-3 py-2 text-right text-red-500 font-medium">{sale ? formatCurrency(sale.scenario.taxes.totalTax) : ''}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="flex gap-2 items-start p-3 bg-slate-50 text-slate-600 rounded-lg text-xs border border-slate-200">
+                            <Info size={16} className="shrink-0 mt-0.5 text-slate-400" />
+                            <p>
+                                Each lot's tax is shown as if sold on its own; the totals net gains and losses across lots.
+                                Disqualifying ISO and ESPP sales turn the discount or spread into ordinary income.
+                                {plan.amtAdjustment < 0 && ` Qualifying ISO sales reduce AMT income by ${formatCurrency(-plan.amtAdjustment)}, which may free up AMT credit.`}
+                            </p>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
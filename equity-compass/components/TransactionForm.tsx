@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Grant, Transaction, TransactionType } from '../types';
+import { TRANSACTION_TYPE_LABELS } from '../utils/ledger';
+import { isStockUnitGrant } from '../utils/calculations';
+
+interface TransactionFormProps {
+  grants: Grant[];
+  onSave: (transaction: Omit<Transaction, 'id'>) => void;
+  onCancel: () => void;
+  initialData?: Partial<Transaction>; // Pre-filled, e.g. from a planned exercise being recorded
+}
+
+// Stock grants vest into shares; options are exercised. Anything held can be sold.
+const getTransactionTypes = (grant?: Grant): TransactionType[] =>
+  !grant ? [] : grant.type === 'ISO' || grant.type === 'NSO' ? ['exercise', 'sale'] : isStockUnitGrant(grant.type) ? ['vest', 'sale'] : ['sale'];
+
+export const TransactionForm: React.FC<TransactionFormProps> = ({ grants, onSave, onCancel, initialData }) => {
+  const [grantId, setGrantId] = useState(initialData?.grantId || grants[0]?.id || '');
+  const grant = grants.find(g => g.id === grantId);
+  const types = getTransactionTypes(grant);
+  const [type, setType] = useState<TransactionType>(initialData?.type || types[0] || 'sale');
+  const [date, setDate] = useState(initialData?.date || '');
+  const [shares, setShares] = useState<string>(initialData?.shares !== undefined ? initialData.shares.toString() : '');
+  const [price, setPrice] = useState<string>(initialData?.price !== undefined ? initialData.price.toString() : '');
+  const [exercisePrice, setExercisePrice] = useState<string>(initialData?.exercisePrice !== undefined ? initialData.exercisePrice.toString() : '');
+  const [sharesWithheld, setSharesWithheld] = useState<string>('');
+  const [taxWithheld, setTaxWithheld] = useState<string>('');
+  const [proceeds, setProceeds] = useState<string>('');
+  const [notes, setNotes] = useState('');
+
+  const changeGrant = (id: string) => {
+    setGrantId(id);
+    const next = getTransactionTypes(grants.find(g => g.id === id));
+    if (!next.includes(type)) setType(next[0]);
+  };
+
+  const withholds = type === 'vest' || (type === 'exercise' && grant?.type === 'NSO');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      grantId,
+      type,
+      date,
+      shares: parseFloat(shares),
+      price: parseFloat(price),
+      exercisePrice: type === 'exercise' && exercisePrice !== '' ? parseFloat(exercisePrice) : undefined,
+      sharesWithheld: withholds && sharesWithheld !== '' ? parseFloat(sharesWithheld) : undefined,
+      taxWithheld: withholds && taxWithheld !== '' ? parseFloat(taxWithheld) : undefined,
+      proceeds: type === 'sale' && proceeds !== '' ? parseFloat(proceeds) : undefined,
+      notes: notes || undefined
+    });
+  };
+
+  const inputClass = "w-full px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-900 placeholder:text-slate-400 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+  const labelClass = "block text-sm font-semibold text-slate-700 mb-1.5";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-2 gap-5">
+        <div>
+          <label className={labelClass}>Grant</label>
+          <select required value={grantId} onChange={(e) => changeGrant(e.target.value)} className={inputClass}>
+            {grants.map(g => (
+              <option key={g.id} value={g.id}>{g.ticker || g.companyName} {g.type} ({g.grantDate})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Transaction</label>
+          <select value={type} onChange={(e) => setType(e.target.value as TransactionType)} className={inputClass}>
+            {types.map(t => <option key={t} value={t}>{TRANSACTION_TYPE_LABELS[t]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-5">
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Shares</label>
+          <input type="number" required min="0" step="any" value={shares} onChange={(e) => setShares(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{type === 'sale' ? 'Sale Price ($)' : 'FMV ($)'}</label>
+          <input type="number" required min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClass} placeholder="0.00" />
+        </div>
+      </div>
+
+      {type === 'exercise' && (
+        <div className="grid grid-cols-2 gap-5 animate-fade-in">
+          <div>
+            <label className={labelClass}>Strike Paid ($)</label>
+            <input type="number" min="0" step="0.01" value={exercisePrice} onChange={(e) => setExercisePrice(e.target.value)} className={inputClass} placeholder={grant?.strikePrice !== undefined ? grant.strikePrice.toFixed(2) : '0.00'} />
+          </div>
+        </div>
+      )}
+
+      {withholds && (
+        <div className="grid grid-cols-2 gap-5 animate-fade-in">
+          <div>
+            <label className={labelClass}>Shares Withheld</label>
+            <input type="number" min="0" step="any" value={sharesWithheld} onChange={(e) => setSharesWithheld(e.target.value)} className={inputClass} placeholder="Sold or withheld to cover" />
+          </div>
+          <div>
+            <label className={labelClass}>Tax Withheld ($)</label>
+            <input type="number" min="0" step="0.01" value={taxWithheld} onChange={(e) => setTaxWithheld(e.target.value)} className={inputClass} placeholder="Shares withheld × FMV" />
+          </div>
+          <p className="col-span-2 text-xs text-slate-500 -mt-2">From the vest or exercise confirmation. Leave both blank to use the projected withholding.</p>
+        </div>
+      )}
+
+      {type === 'sale' && (
+        <div className="grid grid-cols-2 gap-5 animate-fade-in">
+          <div>
+            <label className={labelClass}>Net Proceeds ($)</label>
+            <input type="number" min="0" step="0.01" value={proceeds} onChange={(e) => setProceeds(e.target.value)} className={inputClass} placeholder="Shares × sale price" />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className={labelClass}>Notes</label>
+        <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} placeholder="Optional" />
+      </div>
+
+      <div className="flex gap-3 pt-6 border-t border-slate-100 mt-2">
+        <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!grant}>
+          Record Transaction
+        </Button>
+      </div>
+    </form>
+  );
+};
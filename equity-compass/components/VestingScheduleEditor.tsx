@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { VestingTrancheDefinition } from '../types';
+import { VESTING_TEMPLATES, addMonths, resolveVestingTranches, summarizeVestingDefinition } from '../utils/vesting';
+import { formatNumber } from '../utils/calculations';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface VestingScheduleEditorProps {
+  grantDate: string;
+  totalShares: number;
+  tranches: VestingTrancheDefinition[];
+  onChange: (tranches: VestingTrancheDefinition[]) => void;
+}
+
+type TrancheUnit = 'percent' | 'shares';
+
+export const VestingScheduleEditor: React.FC<VestingScheduleEditorProps> = ({ grantDate, totalShares, tranches, onChange }) => {
+  const [unit, setUnit] = useState<TrancheUnit>(tranches.some(t => t.shares !== undefined) ? 'shares' : 'percent');
+
+  const resolved = resolveVestingTranches(tranches, totalShares);
+  const summary = summarizeVestingDefinition(tranches, totalShares);
+  const isComplete = unit === 'percent' ? Math.abs(summary.percent - 100) < 0.01 : Math.abs(summary.shares - totalShares) < 0.5;
+
+  const amountOf = (t: VestingTrancheDefinition): number =>
+    unit === 'shares'
+      ? (t.shares !== undefined ? t.shares : totalShares * (t.percent || 0) / 100)
+      : (t.percent !== undefined ? t.percent : totalShares > 0 ? ((t.shares || 0) / totalShares) * 100 : 0);
+
+  const withAmount = (t: VestingTrancheDefinition, amount: number): VestingTrancheDefinition =>
+    unit === 'shares' ? { date: t.date, shares: amount } : { date: t.date, percent: amount };
+
+  // Switching units converts every tranche so the schedule itself is unchanged
+  const changeUnit = (next: TrancheUnit) => {
+    if (next === unit) return;
+    onChange(tranches.map(t => next === 'shares'
+      ? { date: t.date, shares: t.shares !== undefined ? t.shares : totalShares * (t.percent || 0) / 100 }
+      : { date: t.date, percent: t.percent !== undefined ? t.percent : totalShares > 0 ? ((t.shares || 0) / totalShares) * 100 : 0 }));
+    setUnit(next);
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = VESTING_TEMPLATES.find(t => t.id === id);
+    if (!template || !grantDate) return;
+    setUnit('percent');
+    onChange(template.build(grantDate));
+  };
+
+  const addTranche = () => {
+    const last = tranches[tranches.length - 1];
+    const date = last?.date ? addMonths(new Date(last.date), 3) : grantDate ? addMonths(new Date(grantDate), 12) : new Date();
+    onChange([...tranches, withAmount({ date: date.toISOString().split('T')[0] }, 0)]);
+  };
+
+  const updateTranche = (index: number, changes: Partial<VestingTrancheDefinition>) => {
+    onChange(tranches.map((t, i) => i === index ? { ...t, ...changes } : t));
+  };
+
+  const inputClass = "px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+
+  return (
+    <div className="space-y-3 border border-slate-200 rounded-lg p-4 bg-slate-50/50">
+      <div className="flex flex-wrap gap-2 items-center justify-between">
+        <select defaultValue="" onChange={(e) => { applyTemplate(e.target.value); e.target.value = ''; }} className={inputClass} disabled={!grantDate}>
+          <option value="" disabled>{grantDate ? 'Start from template...' : 'Set a grant date for templates'}</option>
+          {VESTING_TEMPLATES.map(t => (
+            <option key={t.id} value={t.id}>{t.label}</option>
+          ))}
+        </select>
+        <div className="flex p-0.5 bg-slate-100 rounded-md">
+          {(['percent', 'shares'] as const).map(u => (
+            <button
+              key={u}
+              type="button"
+              onClick={() => changeUnit(u)}
+              className={`px-3 py-1 text-xs font-medium rounded transition-all ${unit === u ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {u === 'percent' ? '% of Grant' : 'Shares'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tranches.length === 0 ? (
+        <p className="text-xs text-slate-500">Pick a template or add tranches one by one.</p>
+      ) : (
+        <div className="space-y-2 max-h-56 overflow-y-auto pr-1">
+          {tranches.map((tranche, i) => (
+            <div key={i} className="grid grid-cols-[1fr_110px_auto] gap-2 items-center">
+              <input
+                type="date"
+                required
+                value={tranche.date}
+                onChange={(e) => updateTranche(i, { date: e.target.value })}
+                className={inputClass}
+              />
+              <div className="relative">
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="any"
+                  value={Number(amountOf(tranche).toFixed(4))}
+                  onChange={(e) => onChange(tranches.map((t, idx) => idx === i ? withAmount(t, parseFloat(e.target.value) || 0) : t))}
+                  className={`${inputClass} w-full`}
+                />
+                {unit === 'percent' && <span className="absolute right-2 top-2 text-slate-400 text-sm">%</span>}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(tranches.filter((_, idx) => idx !== i))}
+                className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={addTranche}
+        className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+      >
+        <Plus size={14} /> Add Tranche
+      </button>
+
+      {/* Preview */}
+      {resolved.length > 0 && (
+        <div className="pt-3 border-t border-slate-200">
+          <div className="flex justify-between text-xs mb-2">
+            <span className="font-semibold text-slate-600">Preview: {resolved.length} vests, {resolved[0].date.toISOString().split('T')[0]} to {resolved[resolved.length - 1].date.toISOString().split('T')[0]}</span>
+            <span className={isComplete ? 'text-emerald-600 font-medium' : 'text-amber-600 font-medium'}>
+              {formatNumber(summary.shares)} / {formatNumber(totalShares)} shares ({summary.percent.toFixed(1)}%)
+            </span>
+          </div>
+          <div className="flex items-end gap-0.5 h-12">
+            {resolved.map((t, i) => (
+              <div
+                key={i}
+                className="flex-1 bg-indigo-300 rounded-t"
+                style={{ height: `${Math.max(4, (t.shares / Math.max(...resolved.map(r => r.shares), 1)) * 100)}%` }}
+                title={`${t.date.toISOString().split('T')[0]}: ${formatNumber(t.shares)} shares`}
+              ></div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
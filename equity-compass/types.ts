@@ -1,4 +1,14 @@
-export type GrantType = 'RSU' | 'ISO';
+export type GrantType = 'RSU' | 'PSU' | 'RSA' | 'ISO' | 'NSO' | 'ESPP';
+
+export type FilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+
+export type TaxRegime = 'current_law' | 'tcja_sunset';
+
+// A tax year modelled under a given policy regime
+export interface TaxScenario {
+  year: number;
+  regime: TaxRegime;
+}
 
 export interface PlannedExercise {
   id: string;
@@ -8,9 +18,57 @@ export interface PlannedExercise {
   exerciseDate: string; // YYYY-MM-DD
   exercisePrice: number; // Strike
   fmvAtExercise: number;
-  type: 'ISO'; 
-  amtExposure: number;
+  type: 'ISO' | 'NSO';
+  amtExposure: number; // ISO bargain element; always 0 for NSOs (taxed as wages at exercise)
   estimatedCost: number;
+  earlyExercise?: boolean; // Includes shares that were unvested on the exercise date
+  election83b?: boolean; // 83(b) filed: spread recognized at exercise instead of at each vest
+  election83bFiledDate?: string;
+}
+
+// Section 423 employee stock purchase plan offering
+export interface ESPPTerms {
+  contributionRate: number; // % of salary deducted toward purchases
+  discount: number; // % off the purchase price, typically 15
+  offeringStartDate: string; // YYYY-MM-DD; starts the 2-year qualifying holding period
+  offeringEndDate: string;
+  purchaseDates: string[]; // YYYY-MM-DD, end of each purchase period within the offering
+  lookbackPrice?: number; // FMV on the offering date; purchases use the lower of this and purchase-date FMV
+}
+
+// Standard schedules are generated from the grant date; 'custom' uses the grant's own tranches
+export type VestingScheduleType = 'standard_4y_1y_cliff' | 'standard_4y_quarterly' | 'custom';
+
+export interface VestingTrancheDefinition {
+  date: string; // YYYY-MM-DD
+  percent?: number; // % of totalShares
+  shares?: number; // Fixed share count; takes precedence over percent
+}
+
+export type PSUMetric = 'tsr' | 'revenue' | 'eps' | 'other';
+
+export type PSUPayoutLevel = 'threshold' | 'target' | 'max';
+
+export interface PerformancePeriod {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // Shares are certified and vest at the end of the period
+  weight: number; // % of target shares earned over this period
+}
+
+// Performance share unit terms. totalShares is the target award.
+export interface PSUTerms {
+  metric: PSUMetric;
+  performancePeriods: PerformancePeriod[];
+  thresholdPayout: number; // % of target earned at threshold performance
+  targetPayout: number;
+  maxPayout: number;
+  assumedPayout: number; // % of target used in projections
+}
+
+// Private-company RSUs taxed only after both the service vest and a liquidity event
+export interface DoubleTriggerTerms {
+  liquidityDate?: string; // YYYY-MM-DD; unset when no event is assumed yet
+  liquidityStatus: 'assumed' | 'actual';
 }
 
 export interface Grant {
@@ -19,34 +77,156 @@ export interface Grant {
   ticker: string; // Empty if private
   companyName: string;
   currentPrice: number; // FMV
-  strikePrice?: number; // Only for ISO/Options
+  strikePrice?: number; // ISO/NSO strike; RSA price paid per share
   grantDate: string; // ISO date string YYYY-MM-DD
   totalShares: number;
-  vestingSchedule: 'standard_4y_1y_cliff' | 'standard_4y_quarterly'; 
-  withholdingRate?: number; // User elected withholding % (e.g., 22 or 37)
+  vestingSchedule: VestingScheduleType; 
+  vestingTranches?: VestingTrancheDefinition[]; // Only for 'custom' schedules
+  withholdingRate?: number; // Elected federal % on RSU vests / NSO exercises up to $1M YTD; statutory flat rate when unset
+  espp?: ESPPTerms; // Only for ESPP; totalShares is unused, purchases are driven by contributions
+  psu?: PSUTerms; // Only for PSU; performance periods replace vestingSchedule
+  doubleTrigger?: DoubleTriggerTerms; // Only for RSU
+  allowEarlyExercise?: boolean; // ISO/NSO: unvested shares may be exercised
+  election83b?: boolean; // RSA: 83(b) election made on the award
+  election83bFiledDate?: string;
+  fmvAtGrant?: number; // RSA: FMV taxed under an 83(b) election; ISO: FMV for the $100k limit (defaults to strike)
+  terminationDate?: string; // Leaves this employer on this date (overrides the client scenario)
+  postTerminationExerciseDays?: number; // ISO/NSO: days vested options stay exercisable after leaving (default 90)
+  expirationDate?: string; // ISO/NSO: YYYY-MM-DD end of the option term; defaults to 10 years after grantDate
+  externalId?: string; // Grant / award number at the plan administrator; matches re-imports
   lastUpdated: string;
 }
 
+export type LotSelectionMethod = 'specific_id' | 'fifo' | 'hifo';
+
+// Shares of one tax lot in a planned sale
+export interface PlannedSaleLot {
+  lotId: string; // TaxLot id (see utils/taxLots)
+  grantId: string;
+  shares: number;
+}
+
+export interface PlannedSale {
+  id: string;
+  grantTicker: string; // Ticker, or company name for private stock
+  saleDate: string; // YYYY-MM-DD
+  salePrice: number;
+  method: LotSelectionMethod;
+  lots: PlannedSaleLot[];
+  shares: number;
+  grossProceeds: number;
+  estimatedTax: number;
+  netProceeds: number; // Gross proceeds less estimated tax
+}
+
+export type CorporateActionType = 'split' | 'reverse_split' | 'ticker_change' | 'cash_acquisition' | 'stock_acquisition';
+
+export type AccelerationTrigger = 'none' | 'single_trigger' | 'double_trigger';
+
+// A split, rename or acquisition affecting every grant in one company's stock
+export interface CorporateAction {
+  id: string;
+  type: CorporateActionType;
+  effectiveDate: string; // YYYY-MM-DD
+  ticker: string; // Affected company's ticker before the action
+  companyName: string; // Matches private-company grants with no ticker
+  ratio?: number; // Split / reverse split: new shares per old (2 = 2-for-1, 0.1 = 1-for-10); stock acquisition: acquirer shares per share
+  newTicker?: string; // Rename or stock acquisition
+  newCompanyName?: string;
+  cashPerShare?: number; // Cash acquisition price
+  acquirerPrice?: number; // Stock acquisition: acquirer's share price at closing
+  acceleration?: AccelerationTrigger; // Acquisitions: vesting of unvested shares
+  accelerationPercent?: number; // % of unvested shares accelerated (default 100)
+  qualifyingTerminationDate?: string; // Double trigger: termination after closing that accelerates vesting
+  // Affected grants, planned exercises and ledger entries as they were before the action (history and revert)
+  before: {
+    grants: Grant[];
+    plannedExercises: PlannedExercise[];
+    transactions?: Transaction[]; // Absent on actions recorded before the ledger existed
+    plannedSales?: PlannedSale[];
+    priceHistory?: Record<string, PricePoint[]>;
+  };
+}
+
+export type TransactionType = 'vest' | 'exercise' | 'sale';
+
+// An actual event from the brokerage or payroll record, as opposed to a projection
+export interface Transaction {
+  id: string;
+  grantId: string;
+  type: TransactionType;
+  date: string; // YYYY-MM-DD
+  shares: number; // Gross shares vested, exercised or sold
+  price: number; // FMV per share at vest/exercise; sale price per share for sales
+  exercisePrice?: number; // Exercise: strike paid per share (defaults to the grant's)
+  sharesWithheld?: number; // Vest / NSO exercise: shares withheld or sold to cover taxes
+  taxWithheld?: number; // Vest / NSO exercise: total tax withheld (defaults to sharesWithheld x price)
+  proceeds?: number; // Sale: net proceeds after fees (defaults to shares x price)
+  lotId?: string; // Sale: specific lot sold (the grant's oldest lots first when unset)
+  notes?: string;
+}
+
+// Closing price on a trading day, as traded (before any later split)
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+export interface ResidencyPeriod {
+  state: string;
+  startDate: string; // YYYY-MM-DD; period runs until the next entry's start date
+}
+
 export interface Client {
   id: string;
   name: string;
-  state: string; // e.g., 'CA', 'NY', 'TX'
-  filingStatus: 'single' | 'married_joint'; // For AMT calcs
-  taxBracket: number; // Federal Ordinary Income Bracket (e.g. 37)
+  state: string; // Current state of residence, e.g., 'CA', 'NY', 'TX'
+  residencyHistory?: ResidencyPeriod[]; // Moves over time; used to source equity income across states
+  filingStatus: FilingStatus; // For AMT calcs
+  taxRegime?: TaxRegime; // Policy regime for projections (defaults to current law)
+  taxBracket?: number; // Manual federal marginal bracket (e.g. 37); only applied with useManualTaxBracket
+  useManualTaxBracket?: boolean; // Opt-in: clients saved when the bracket was required keep it but have it derived from income
   estimatedIncome?: number; // Optional: Annual income for accurate AMT headroom calc
   customStateTaxRate?: number; // Optional override for state tax %
   customLtcgTaxRate?: number; // Optional override for LTCG %
+  priorAmtCreditCarryforward?: number; // Form 8801 minimum tax credit carried into the current year
+  priorYearFederalTax?: number; // Last year's total federal tax (estimated-payment safe harbor)
+  priorYearStateTax?: number;
+  priorYearAGI?: number; // Drives the 110% prior-year safe harbor
+  terminationDate?: string; // Job-change scenario: leaves the employer on this date
   grants: Grant[];
   plannedExercises: PlannedExercise[];
+  plannedSales?: PlannedSale[];
+  corporateActions?: CorporateAction[];
+  transactions?: Transaction[]; // Ledger of actual vests, exercises and sales
+  priceHistory?: Record<string, PricePoint[]>; // By ticker (company name for private stock); values past events
 }
 
+// Editable profile fields (everything except the portfolio itself)
+export type ClientProfile = Omit<Client, 'id' | 'grants' | 'plannedExercises' | 'plannedSales' | 'corporateActions' | 'transactions' | 'priceHistory'>;
+
 export interface VestingEvent {
+  grantId: string;
   grantType: GrantType;
+  // NSO exercises, double-trigger settlements and RSA 83(b) elections are taxed like vests
+  // (supplemental wages); service vests (double-trigger, or after an 83(b)) and ESPP purchases are not
+  eventType: 'vest' | 'exercise' | 'purchase' | 'service_vest' | 'settlement' | 'election_83b';
   date: string;
   shares: number;
   grossValue: number; 
-  withholdingAmount: number; 
-  electedWithholdingRate: number; 
+  purchasePrice?: number; // ESPP only: discounted price paid per share
+  offeringFmv?: number; // ESPP only: FMV on the offering date (measures the qualifying-disposition discount)
+  isoExcess?: boolean; // ISO shares over the $100k first-exercisable limit, treated as NSOs
+  transactionId?: string; // Recorded in the ledger: actual date, price and withholding
+  scheduledDate?: string; // Recorded vest: date of the projected vest it replaced
+  historicalPrice?: number; // Past event valued at the close from the price history, not the current price
+  withholdingAmount: number; // Federal + state + FICA withheld by payroll
+  withholdingBreakdown: {
+    federal: number;
+    state: number;
+    fica: number;
+  };
+  electedWithholdingRate: number; // Effective federal withholding %, blended across the $1M crossover
   netShares: number;
   netValue: number; 
   sharesSoldToCover: number;
@@ -56,11 +236,22 @@ export interface VestingEvent {
     fed: number;
     state: number;
     niit: number;
+    socialSecurity: number;
+    medicare: number;
+    additionalMedicare: number; // 0.9% over the filing-status threshold
+    stateAllocations: StateTaxAllocation[]; // Per-state split of `state`
     totalLiability: number;
   };
   isPast: boolean;
 }
 
+export interface StateTaxAllocation {
+  state: string;
+  fraction: number; // Share of the income sourced to this state by workdays
+  income: number;
+  tax: number; // Resident state tax is net of credits for tax paid to other states
+}
+
 export interface TaxBreakdown {
   fedRate: number;
   fedAmount: number;
@@ -68,9 +259,28 @@ export interface TaxBreakdown {
   niitAmount: number;
   stateRate: number;
   stateAmount: number;
+  ficaAmount: number; // Payroll taxes on option spread taxed as wages (NSO exercise); never due on ESPP income
   totalTax: number;
 }
 
+export interface TaxBracket {
+  limit: number; // Upper limit of the bracket
+  rate: number;
+}
+
+export interface AMTYearSummary {
+  year: number;
+  amti: number;
+  exemption: number;
+  tentativeMinimumTax: number;
+  regularTax: number;
+  isoPreference: number; // ISO bargain element (deferral item)
+  amtOwed: number;
+  creditGenerated: number; // Form 8801: AMT attributable to deferral items
+  creditUsed: number;
+  creditCarryforward: number; // Available entering the following year
+}
+
 export interface ISOScenario {
   name: string;
   description: string;
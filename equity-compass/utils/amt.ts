@@ -0,0 +1,114 @@
+import { AMTYearSummary, TaxBracket } from '../types';
+import { calculateCapitalGainsTax } from './capitalGains';
+
+// Form 6251 / Form 8801 engine.
+// Pure functions only: callers supply the regular-tax picture and the year's parameters.
+
+const AMT_LOW_RATE = 0.26;
+const AMT_HIGH_RATE = 0.28;
+
+export interface AMTParams {
+  exemption: number;
+  phaseoutStart: number;
+  phaseoutRate: number; // Exemption reduction per dollar of AMTI over the threshold
+  rateBreakpoint: number; // AMT base where the 28% tier starts
+  ltcgBrackets: TaxBracket[]; // Preferential rates still apply inside AMT (Part III)
+}
+
+export interface AMTInput {
+  regularTaxableIncome: number;
+  regularTax: number;
+  exclusionAdjustments: number; // Disallowed deductions/exemptions (SALT, standard deduction, personal exemptions)
+  isoPreference: number; // ISO bargain element (Form 6251 line 2i)
+  preferentialIncome: number; // LTCG + qualified dividends included in taxable income
+}
+
+export interface AMTYearInput {
+  year: number;
+  input: AMTInput;
+  params: AMTParams;
+}
+
+/**
+ * Exemption after the phaseout (Form 6251 lines 5-6).
+ */
+export const calculateAMTExemption = (amti: number, params: AMTParams): number => {
+  const reduction = Math.max(0, amti - params.phaseoutStart) * params.phaseoutRate;
+  return Math.max(0, params.exemption - reduction);
+};
+
+const taxAtAMTRates = (base: number, rateBreakpoint: number): number => {
+  if (base <= rateBreakpoint) return Math.max(0, base) * AMT_LOW_RATE;
+  return (rateBreakpoint * AMT_LOW_RATE) + ((base - rateBreakpoint) * AMT_HIGH_RATE);
+};
+
+/**
+ * Computes AMTI, exemption and Tentative Minimum Tax (Form 6251 Parts I-III).
+ */
+export const calculateTentativeMinimumTax = (input: AMTInput, params: AMTParams) => {
+  const amti = Math.max(0, input.regularTaxableIncome + input.exclusionAdjustments + input.isoPreference);
+  const exemption = calculateAMTExemption(amti, params);
+  const amtBase = Math.max(0, amti - exemption);
+
+  let tentativeMinimumTax = taxAtAMTRates(amtBase, params.rateBreakpoint);
+
+  // Part III: capital gains keep their 0/15/20% rates inside AMT
+  const preferential = Math.min(Math.max(0, input.preferentialIncome), amtBase);
+  if (preferential > 0) {
+    const ordinaryBase = amtBase - preferential;
+    const partIII = taxAtAMTRates(ordinaryBase, params.rateBreakpoint) + calculateCapitalGainsTax(ordinaryBase, preferential, params.ltcgBrackets).tax;
+    tentativeMinimumTax = Math.min(tentativeMinimumTax, partIII);
+  }
+
+  return { amti, exemption, amtBase, tentativeMinimumTax };
+};
+
+/**
+ * Single-year AMT with Form 8801 credit mechanics.
+ * Only the AMT caused by deferral items (ISO spread) becomes a credit; AMT from
+ * exclusion items (SALT, exemptions) is lost. The credit is used in years where
+ * regular tax exceeds TMT.
+ */
+export const calculateAMT = (year: number, input: AMTInput, params: AMTParams, creditAvailable: number = 0): AMTYearSummary => {
+  const { amti, exemption, tentativeMinimumTax } = calculateTentativeMinimumTax(input, params);
+  const amtOwed = Math.max(0, tentativeMinimumTax - input.regularTax);
+
+  let creditGenerated = 0;
+  let creditUsed = 0;
+
+  if (amtOwed > 0) {
+    const exclusionOnly = calculateTentativeMinimumTax({ ...input, isoPreference: 0 }, params);
+    const amtOnExclusions = Math.max(0, exclusionOnly.tentativeMinimumTax - input.regularTax);
+    creditGenerated = Math.max(0, amtOwed - amtOnExclusions);
+  } else {
+    creditUsed = Math.min(creditAvailable, Math.max(0, input.regularTax - tentativeMinimumTax));
+  }
+
+  return {
+    year,
+    amti,
+    exemption,
+    tentativeMinimumTax,
+    regularTax: input.regularTax,
+    isoPreference: input.isoPreference,
+    amtOwed,
+    creditGenerated,
+    creditUsed,
+    creditCarryforward: creditAvailable - creditUsed + creditGenerated
+  };
+};
+
+/**
+ * Rolls the minimum tax credit forward across consecutive years.
+ */
+export const projectMinimumTaxCredit = (years: AMTYearInput[], startingCredit: number = 0): AMTYearSummary[] => {
+  const results: AMTYearSummary[] = [];
+  let credit = startingCredit;
+
+  for (const { year, input, params } of years) {
+    const summary = calculateAMT(year, input, params, credit);
+    credit = summary.creditCarryforward;
+    results.push(summary);
+  }
+  return results;
+};
@@ -0,0 +1,597 @@
+import { Client, Grant, GrantType, Transaction, TransactionType, VestingScheduleType, VestingTrancheDefinition } from '../types';
+import { parseDateCell, parseNumberCell } from './csv';
+import { getPriceHistoryKey } from './priceHistory';
+import { VESTING_TEMPLATES } from './vesting';
+
+// Grants and ledger history from plan administrator exports (E*Trade, Schwab, Fidelity,
+// Shareworks) and Carta, instead of re-typing them into the grant form. Each platform is a
+// set of header names for the fields read here; the platform is detected from the headers
+// unless chosen. Rows are classified by their action text into grants, vest schedule
+// tranches, and vests, exercises and sales for the ledger. Nothing is written to the client
+// until the diff has been reviewed: diffImport matches the file against the client's grants
+// and ledger, and applyImport merges only the accepted changes.
+//
+// ESPP purchases are skipped (they are projected from the offering terms on the grant), as
+// are PSU performance terms, which the exports don't carry.
+
+export type ImportPlatform = 'etrade' | 'schwab' | 'fidelity' | 'shareworks' | 'carta';
+
+type ImportField =
+    | 'action' | 'date' | 'grantDate' | 'grantNumber' | 'symbol' | 'company' | 'description' | 'awardType'
+    | 'totalShares' | 'shares' | 'netShares' | 'price' | 'salePrice' | 'exercisePrice' | 'sharesWithheld'
+    | 'taxWithheld' | 'proceeds' | 'vestingSchedule' | 'expirationDate';
+
+interface PlatformProfile {
+    label: string;
+    source: string; // Where to download the export
+    headers: Partial<Record<ImportField, string[]>>; // Headers particular to this platform; also drive detection
+}
+
+// Header names are compared lowercase with everything but letters and digits removed, so
+// "Fair Market Value Price", "FairMarketValuePrice" and "fair_market_value_price" all match
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Headers most exports share, checked after the platform's own
+const COMMON_HEADERS: Record<ImportField, string[]> = {
+    action: ['action', 'transactiontype', 'eventtype', 'activity', 'activitytype'],
+    date: ['date', 'transactiondate', 'eventdate', 'vestdate', 'vestingdate', 'releasedate', 'exercisedate', 'settlementdate', 'tradedate'],
+    grantDate: ['grantdate', 'awarddate', 'issuedate'],
+    grantNumber: ['grantnumber', 'grantid', 'awardid', 'awardnumber'],
+    symbol: ['symbol', 'ticker'],
+    company: ['company', 'companyname', 'issuer'],
+    description: ['description'],
+    awardType: ['granttype', 'awardtype', 'plantype', 'securitytype'],
+    totalShares: ['sharesgranted', 'grantedshares', 'quantitygranted', 'grantedquantity'],
+    shares: ['quantity', 'qty', 'shares'],
+    netShares: ['netshares', 'netquantity', 'sharesissued'],
+    price: ['fmv', 'fairmarketvalue', 'marketprice', 'price'],
+    salePrice: ['saleprice', 'salesprice', 'executionprice'],
+    exercisePrice: ['exerciseprice', 'strikeprice', 'optionprice'],
+    sharesWithheld: ['shareswithheld', 'shareswithheldfortaxes', 'sharessoldtocover'],
+    taxWithheld: ['taxwithheld', 'taxeswithheld', 'totaltaxes', 'taxes'],
+    proceeds: ['netproceeds', 'proceeds', 'netamount'],
+    vestingSchedule: ['vestingschedule', 'vestschedule'],
+    expirationDate: ['expirationdate', 'expirydate', 'expiration']
+};
+
+export const IMPORT_PLATFORMS: Record<ImportPlatform, PlatformProfile> = {
+    etrade: {
+        label: 'E*Trade',
+        source: 'Stock Plan > My Account > Benefit History > Download Expanded (.xlsx)',
+        headers: {
+            action: ['recordtype', 'eventtype'],
+            grantNumber: ['grantnumber'],
+            totalShares: ['grantedqty'],
+            shares: ['qtyoramount', 'releasedqty', 'vestedqty', 'exercisedqty', 'soldqty'],
+            price: ['fmvatvest', 'releasefmv'],
+            sharesWithheld: ['withheldqty', 'sharestradedfortaxes'],
+            taxWithheld: ['taxeswithheld'],
+            awardType: ['benefittype']
+        }
+    },
+    schwab: {
+        label: 'Schwab Equity Award Center',
+        source: 'History > Transactions > Export (.csv)',
+        headers: {
+            grantNumber: ['awardid'],
+            grantDate: ['awarddate'],
+            price: ['fairmarketvalueprice'],
+            sharesWithheld: ['sharessoldwithheldfortaxes'],
+            netShares: ['netsharesdeposited'],
+            proceeds: ['amount'],
+            shares: ['quantity']
+        }
+    },
+    fidelity: {
+        label: 'Fidelity Stock Plan Services',
+        source: 'NetBenefits > Stock Plans > Grant Summary or Transaction History > Download (.csv)',
+        headers: {
+            grantNumber: ['grantid'],
+            totalShares: ['grantamount', 'originalgrantamount'],
+            exercisePrice: ['grantprice'],
+            date: ['vestingdate'],
+            shares: ['sharesvesting', 'sharesvested'],
+            price: ['marketvalueatvest', 'vestingprice']
+        }
+    },
+    shareworks: {
+        label: 'Shareworks (Morgan Stanley)',
+        source: 'Portfolio > Reports > Activity Report (.xlsx)',
+        headers: {
+            grantNumber: ['grantname'],
+            totalShares: ['quantitygranted', 'totalawarded'],
+            action: ['activity'],
+            date: ['releasedate', 'activitydate'],
+            price: ['releaseprice', 'fmvatrelease'],
+            sharesWithheld: ['sharessoldforwithholding']
+        }
+    },
+    carta: {
+        label: 'Carta',
+        source: 'Portfolio > company > Holdings > Download (.xlsx)',
+        headers: {
+            grantNumber: ['securityid', 'optionid', 'certificateid'],
+            company: ['issuer', 'issuername'],
+            awardType: ['optiontype', 'stocktype'],
+            totalShares: ['quantityissued', 'optionsgranted', 'quantity'],
+            grantDate: ['issuedate'],
+            vestingSchedule: ['vestingschedule'],
+            expirationDate: ['expirationdate']
+        }
+    }
+};
+
+const PLATFORMS = Object.keys(IMPORT_PLATFORMS) as ImportPlatform[];
+const FIELDS = Object.keys(COMMON_HEADERS) as ImportField[];
+
+// Exports often open with a title block; the header row is searched for in the first rows
+const HEADER_SEARCH_ROWS = 15;
+
+const getHeaderNames = (platform: ImportPlatform, field: ImportField): string[] =>
+    [...(IMPORT_PLATFORMS[platform].headers[field] || []), ...COMMON_HEADERS[field]];
+
+/**
+ * Platform whose own headers appear most in the file, if any clearly do.
+ */
+export const detectImportPlatform = (sheets: string[][][]): ImportPlatform | undefined => {
+    const headers = new Set(sheets.flatMap(rows => rows.slice(0, HEADER_SEARCH_ROWS).flat()).map(normalizeHeader));
+    let best: ImportPlatform | undefined;
+    let bestScore = 1;
+    PLATFORMS.forEach(platform => {
+        const own = new Set(Object.values(IMPORT_PLATFORMS[platform].headers).flat());
+        const score = Array.from(headers).filter(h => own.has(h)).length;
+        if (score > bestScore) {
+            best = platform;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+export interface ImportedGrant {
+    key: string; // Grant number, or stock, grant date and type
+    grant: Omit<Grant, 'id' | 'lastUpdated' | 'currentPrice'>;
+    vestingFromFile: boolean; // Otherwise the 4-year, 1-year cliff default
+}
+
+// How a ledger row names its grant
+export interface GrantReference {
+    externalId?: string;
+    stockKey: string; // Ticker, or company name for private stock
+    grantDate?: string;
+    types: GrantType[]; // Grant types the row can belong to
+}
+
+export interface ImportedTransaction {
+    grant: GrantReference;
+    transaction: Omit<Transaction, 'id' | 'grantId'>;
+}
+
+export interface ImportResult {
+    platform: ImportPlatform;
+    grants: ImportedGrant[];
+    transactions: ImportedTransaction[];
+    latestPrices: Record<string, { date: string; price: number }>; // By stock key, from the most recent vest, exercise or sale
+    warnings: string[];
+}
+
+interface ImportRow {
+    values: Partial<Record<ImportField, string>>;
+    action: string; // Every action column, joined
+    hasActionColumn: boolean;
+}
+
+type RowKind = 'grant' | 'tranche' | 'vest' | 'exercise' | 'exercise_sale' | 'sale' | 'espp' | 'ignored' | 'unknown';
+
+const readSheet = (rows: string[][], platform: ImportPlatform): ImportRow[] => {
+    const known = new Set(FIELDS.flatMap(f => getHeaderNames(platform, f)));
+    let headerRow = -1;
+    let bestScore = 1;
+    rows.slice(0, HEADER_SEARCH_ROWS).forEach((row, i) => {
+        const score = row.filter(cell => known.has(normalizeHeader(cell))).length;
+        if (score > bestScore) {
+            headerRow = i;
+            bestScore = score;
+        }
+    });
+    if (headerRow < 0) return [];
+
+    const header = rows[headerRow].map(normalizeHeader);
+    const columns = new Map(FIELDS.map(field => [field, getHeaderNames(platform, field).flatMap(name =>
+        header.flatMap((h, i) => h === name ? [i] : []))]));
+    const actionColumns = columns.get('action') || [];
+
+    const records: ImportRow[] = [];
+    rows.slice(headerRow + 1).forEach(row => {
+        const values: ImportRow['values'] = {};
+        columns.forEach((indexes, field) => {
+            const value = indexes.map(i => row[i] || '').find(v => v !== '');
+            if (value !== undefined) values[field] = value;
+        });
+        const action = actionColumns.map(i => row[i] || '').filter(Boolean).join(' ');
+
+        // Detail rows (Schwab lists withholding and award details under each transaction)
+        // have no date or action of their own and belong to the row above
+        const previous = records[records.length - 1];
+        if (actionColumns.length > 0 && !action && !values.date && previous) {
+            previous.values = { ...values, ...previous.values };
+            return;
+        }
+        records.push({ values, action, hasActionColumn: actionColumns.length > 0 });
+    });
+    return records;
+};
+
+const classifyRow = (row: ImportRow): RowKind => {
+    const action = row.action.toLowerCase();
+    if (/^total/i.test(row.values.date || row.action)) return 'ignored';
+    if (!action) {
+        // Grant listings (Carta, grant summaries) have no action column
+        if (row.values.totalShares) return 'grant';
+        return row.values.date && row.values.shares && (row.values.grantNumber || row.values.grantDate) ? 'tranche' : 'unknown';
+    }
+    if (/espp|purchase/.test(action)) return 'espp';
+    if (/schedule|unvested|vest period/.test(action)) return 'tranche';
+    if (/exercise|cashless/.test(action)) return /sell|sale|sold|cashless/.test(action) ? 'exercise_sale' : 'exercise';
+    if (/tax|cover|withh/.test(action)) return 'ignored'; // Carried on the vest itself
+    if (/sale|sell|sold/.test(action)) return 'sale';
+    if (/release|lapse|vest|settle|distribut/.test(action)) return 'vest';
+    if (/grant|award/.test(action)) return 'grant';
+    if (/deposit|transfer|journal|dividend|wire|fee|interest|cancel|forfeit|expire|adjust/.test(action)) return 'ignored';
+    return 'unknown';
+};
+
+const toGrantType = (text: string): GrantType | undefined => {
+    const t = text.toLowerCase();
+    if (/espp|purchase plan/.test(t)) return 'ESPP';
+    if (/\biso\b|incentive/.test(t)) return 'ISO';
+    if (/\bnso\b|nqso|\bnqo\b|non-?qual|nonstatutory/.test(t)) return 'NSO';
+    if (/\bpsu\b|performance/.test(t)) return 'PSU';
+    if (/\brsa\b|restricted stock award|restricted shares/.test(t)) return 'RSA';
+    if (/\brsu\b|restricted|unit/.test(t)) return 'RSU';
+    return undefined;
+};
+
+const YEAR_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// "3 years", "three-year" or "1/12 quarterly" (12 quarters) -> 3
+const parseVestingYears = (text: string, vestsPerYear: number): number | undefined => {
+    const years = text.match(/\b(\d+|one|two|three|four|five|six)[\s-]*(?:y|yrs?|years?)\b/);
+    if (years) return YEAR_WORDS[years[1]] ?? parseInt(years[1], 10);
+    const slice = text.match(/\b1\/(\d+)\b/);
+    return slice ? parseInt(slice[1], 10) / vestsPerYear : undefined;
+};
+
+// Only schedules whose length is stated (or is the 4-year standard) map to a template; anything
+// else is left to the 4-year, 1-year cliff default, which the import warns about
+const toVestingTemplate = (text: string): string | undefined => {
+    const t = text.toLowerCase();
+    if (/cliff/.test(t)) return /month|1\/48/.test(t) ? '4y_1y_cliff_monthly' : 'standard_4y_1y_cliff';
+    if (/quarter/.test(t)) {
+        const years = parseVestingYears(t, 4);
+        return years === 3 ? '3y_quarterly' : years === undefined || years === 4 ? 'standard_4y_quarterly' : undefined;
+    }
+    if (/annual|anniversar|yearly/.test(t)) return parseVestingYears(t, 1) === 3 ? '3y_annual' : undefined;
+    return undefined;
+};
+
+const STANDARD_SCHEDULES: VestingScheduleType[] = ['standard_4y_1y_cliff', 'standard_4y_quarterly'];
+const OPTION_TYPES: GrantType[] = ['ISO', 'NSO'];
+const VESTING_TYPES: GrantType[] = ['RSU', 'PSU', 'RSA'];
+
+const positive = (value: string | undefined): number | undefined => {
+    const n = Math.abs(parseNumberCell(value || ''));
+    return n > 0 ? n : undefined;
+};
+
+const matchesReference = (reference: GrantReference, grant: Pick<Grant, 'type' | 'ticker' | 'companyName' | 'grantDate' | 'externalId'>): boolean =>
+    reference.externalId && grant.externalId
+        ? reference.externalId === grant.externalId
+        : getPriceHistoryKey(grant).toLowerCase() === reference.stockKey.toLowerCase()
+            && (!reference.grantDate || reference.grantDate === grant.grantDate)
+            && reference.types.includes(grant.type);
+
+// The grant a reference names, when exactly one fits
+const resolveGrant = <T extends Pick<Grant, 'type' | 'ticker' | 'companyName' | 'grantDate' | 'externalId'>>(reference: GrantReference, grants: T[]): T | undefined => {
+    const matches = grants.filter(g => matchesReference(reference, g));
+    return matches.length === 1 ? matches[0] : undefined;
+};
+
+/**
+ * Grants, vest schedules and ledger transactions from the sheets of an export (one sheet for
+ * a CSV). Rows that can't be used are counted in the warnings rather than failing the import.
+ */
+export const parseImport = (sheets: string[][][], platform: ImportPlatform): ImportResult => {
+    const label = IMPORT_PLATFORMS[platform].label;
+    const warningCounts = new Map<string, number>();
+    const warn = (message: string) => warningCounts.set(message, (warningCounts.get(message) || 0) + 1);
+
+    const grants = new Map<string, ImportedGrant>();
+    const tranches: { reference: GrantReference; tranche: VestingTrancheDefinition }[] = [];
+    const transactions: ImportedTransaction[] = [];
+    const latestPrices: ImportResult['latestPrices'] = {};
+
+    sheets.forEach(rows => {
+        // Event rows listed under their grant (E*Trade) inherit the grant's identity
+        let context: ImportRow['values'] = {};
+        readSheet(rows, platform).forEach(row => {
+            const kind = classifyRow(row);
+            const v = kind === 'grant' || row.values.grantNumber || row.values.symbol || row.values.company
+                ? row.values
+                : { ...row.values, grantNumber: context.grantNumber, symbol: context.symbol, company: context.company, grantDate: row.values.grantDate || context.grantDate, awardType: row.values.awardType || context.awardType };
+            const symbol = (v.symbol || '').toUpperCase();
+            const stockKey = getPriceHistoryKey({ ticker: symbol, companyName: v.company || '' });
+            const grantDate = parseDateCell(v.grantDate || '');
+            const typeText = [v.awardType, v.description, row.action].filter(Boolean).join(' ');
+
+            if (kind === 'grant') {
+                context = row.values;
+                let type = toGrantType(typeText);
+                const totalShares = positive(v.totalShares || v.shares);
+                const exercisePrice = positive(v.exercisePrice);
+                if (type === 'ESPP') return warn('ESPP enrollments skipped; add the offering terms on an ESPP grant');
+                if (!stockKey) return warn('Grants without a symbol or company skipped');
+                if (!grantDate || !totalShares) return warn('Grants without a grant date or share count skipped');
+                if (!type) {
+                    type = exercisePrice ? 'NSO' : 'RSU';
+                    warn(`Award type not recognized; imported as ${exercisePrice ? 'NSO (has an exercise price)' : 'RSU'}`);
+                }
+                if (type === 'PSU') warn('PSUs imported without performance terms; add them on the grant');
+
+                const template = toVestingTemplate(v.vestingSchedule || '');
+                const expirationDate = parseDateCell(v.expirationDate || '');
+                const isOption = OPTION_TYPES.includes(type);
+                const key = v.grantNumber || `${stockKey}|${grantDate}|${type}`;
+                if (!grants.has(key)) {
+                    grants.set(key, {
+                        key,
+                        grant: {
+                            type,
+                            ticker: symbol,
+                            companyName: v.company || symbol,
+                            grantDate,
+                            totalShares,
+                            vestingSchedule: !template ? 'standard_4y_1y_cliff' : STANDARD_SCHEDULES.includes(template as VestingScheduleType) ? template as VestingScheduleType : 'custom',
+                            ...(template && !STANDARD_SCHEDULES.includes(template as VestingScheduleType)
+                                ? { vestingTranches: VESTING_TEMPLATES.find(t => t.id === template)!.build(grantDate) }
+                                : {}),
+                            ...((isOption || type === 'RSA') && exercisePrice ? { strikePrice: exercisePrice } : {}),
+                            ...(isOption && expirationDate ? { expirationDate } : {}),
+                            ...(v.grantNumber ? { externalId: v.grantNumber } : {})
+                        },
+                        vestingFromFile: !!template
+                    });
+                }
+                // Grant summaries list each vest date on the grant's own row
+                if (row.hasActionColumn || !v.date || !v.shares) return;
+            }
+
+            const reference: GrantReference = {
+                ...(v.grantNumber ? { externalId: v.grantNumber } : {}),
+                stockKey,
+                ...(grantDate ? { grantDate } : {}),
+                types: kind === 'exercise' || kind === 'exercise_sale' ? OPTION_TYPES : kind === 'vest' ? VESTING_TYPES : [...OPTION_TYPES, ...VESTING_TYPES]
+            };
+            const date = parseDateCell(v.date || '');
+            const shares = positive(v.shares) ?? ((positive(v.netShares) || 0) + (positive(v.sharesWithheld) || 0) || undefined);
+
+            switch (kind) {
+                case 'espp':
+                    return warn('ESPP purchases skipped; purchases are projected from the offering terms');
+                case 'ignored':
+                    return;
+                case 'unknown':
+                    return warn(`Rows with an unrecognized action skipped${row.action ? ` (e.g. "${row.action}")` : ''}`);
+            }
+            if (!stockKey && !v.grantNumber) return warn('Rows without a symbol, company or grant number skipped');
+            if (!date || !shares) return warn('Rows without a date or share count skipped');
+
+            if (kind === 'grant' || kind === 'tranche') {
+                tranches.push({ reference: { ...reference, types: [...OPTION_TYPES, ...VESTING_TYPES] }, tranche: { date, shares } });
+                return;
+            }
+
+            const fmv = positive(v.price);
+            const salePrice = positive(v.salePrice);
+            const price = kind === 'sale' ? salePrice ?? fmv : fmv ?? salePrice;
+            if (!price) return warn('Vests, exercises and sales without a price skipped');
+
+            const sharesWithheld = positive(v.sharesWithheld);
+            const taxWithheld = positive(v.taxWithheld);
+            const exercisePrice = positive(v.exercisePrice);
+            const proceeds = positive(v.proceeds);
+            const add = (type: TransactionType, transaction: Omit<Transaction, 'id' | 'grantId' | 'type' | 'date' | 'shares' | 'notes'>) =>
+                transactions.push({ grant: reference, transaction: { type, date, shares, ...transaction, notes: `Imported from ${label}` } });
+
+            if (kind === 'vest') {
+                add('vest', { price, ...(sharesWithheld ? { sharesWithheld } : {}), ...(taxWithheld ? { taxWithheld } : {}) });
+            } else if (kind === 'sale') {
+                add('sale', { price, ...(proceeds ? { proceeds } : {}) });
+            } else {
+                add('exercise', { price, ...(exercisePrice ? { exercisePrice } : {}), ...(kind === 'exercise' && taxWithheld ? { taxWithheld } : {}) });
+                if (kind === 'exercise_sale') add('sale', { price: salePrice ?? price });
+            }
+
+            if (stockKey && (!latestPrices[stockKey] || latestPrices[stockKey].date <= date)) {
+                latestPrices[stockKey] = { date, price: salePrice ?? price };
+            }
+        });
+    });
+
+    // Vest schedule rows become the grant's tranches
+    const scheduled = new Map<ImportedGrant, VestingTrancheDefinition[]>();
+    tranches.forEach(({ reference, tranche }) => {
+        const imported = resolveGrant(reference, Array.from(grants.values()).map(g => ({ ...g.grant, imported: g })))?.imported;
+        if (!imported) return warn('Vest schedule rows for a grant not in the file skipped');
+        scheduled.set(imported, [...(scheduled.get(imported) || []), tranche]);
+    });
+    scheduled.forEach((list, imported) => {
+        imported.grant = { ...imported.grant, vestingSchedule: 'custom', vestingTranches: list.sort((a, b) => a.date.localeCompare(b.date)) };
+        imported.vestingFromFile = true;
+    });
+    grants.forEach(g => {
+        if (!g.vestingFromFile && g.grant.type !== 'PSU') warn('Grants without a recognized vest schedule default to 4 years with a 1-year cliff');
+    });
+
+    return {
+        platform,
+        grants: Array.from(grants.values()),
+        transactions,
+        latestPrices,
+        warnings: Array.from(warningCounts.entries()).map(([message, count]) => count > 1 ? `${message} (${count} rows)` : message)
+    };
+};
+
+export interface GrantFieldChange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+export interface GrantDiff {
+    id: string; // Selection key on the review screen
+    imported: ImportedGrant;
+    existing?: Grant;
+    change: 'add' | 'update' | 'unchanged';
+    fieldChanges: GrantFieldChange[];
+    patch: Partial<Grant>; // Update: fields taken from the file
+    currentPrice: number; // Add: starting price (the stock's other grants, else the latest price in the file)
+}
+
+export interface TransactionDiff {
+    id: string;
+    imported: ImportedTransaction;
+    grantLabel: string;
+    grantId?: string; // Existing grant
+    grantDiffId?: string; // Grant added by this import; merged only if that grant is
+    change: 'add' | 'duplicate' | 'unmatched';
+}
+
+export interface ImportDiff {
+    grants: GrantDiff[];
+    transactions: TransactionDiff[];
+    warnings: string[];
+}
+
+export const describeGrant = (grant: Pick<Grant, 'type' | 'ticker' | 'companyName' | 'grantDate' | 'externalId'>): string =>
+    `${grant.ticker || grant.companyName} ${grant.type} ${grant.grantDate}${grant.externalId ? ` #${grant.externalId}` : ''}`;
+
+const describeVesting = (grant: Pick<Grant, 'vestingSchedule' | 'vestingTranches'>): string =>
+    grant.vestingSchedule === 'custom'
+        ? `${(grant.vestingTranches || []).length} custom tranches`
+        : VESTING_TEMPLATES.find(t => t.id === grant.vestingSchedule)?.label || grant.vestingSchedule;
+
+const sameVesting = (a: Pick<Grant, 'vestingSchedule' | 'vestingTranches'>, b: Pick<Grant, 'vestingSchedule' | 'vestingTranches'>): boolean =>
+    a.vestingSchedule === b.vestingSchedule && JSON.stringify(a.vestingTranches || []) === JSON.stringify(b.vestingTranches || []);
+
+const diffGrant = (existing: Grant, imported: ImportedGrant): Pick<GrantDiff, 'fieldChanges' | 'patch'> => {
+    const g = imported.grant;
+    const fieldChanges: GrantFieldChange[] = [];
+    const patch: Partial<Grant> = {};
+    const compare = <K extends keyof Grant>(label: string, field: K, value: Grant[K] | undefined) => {
+        if (value === undefined || value === '' || value === existing[field]) return;
+        fieldChanges.push({ label, from: existing[field] === undefined ? '—' : String(existing[field]), to: String(value) });
+        patch[field] = value;
+    };
+    compare('Type', 'type', g.type);
+    compare('Ticker', 'ticker', g.ticker);
+    if (!g.ticker) compare('Company', 'companyName', g.companyName);
+    compare('Grant date', 'grantDate', g.grantDate);
+    compare('Shares', 'totalShares', g.totalShares);
+    compare('Strike', 'strikePrice', g.strikePrice);
+    compare('Expiration', 'expirationDate', g.expirationDate);
+    compare('Grant number', 'externalId', g.externalId);
+    if (imported.vestingFromFile && !sameVesting(existing, g)) {
+        fieldChanges.push({ label: 'Vesting', from: describeVesting(existing), to: describeVesting(g) });
+        patch.vestingSchedule = g.vestingSchedule;
+        patch.vestingTranches = g.vestingTranches;
+    }
+    return { fieldChanges, patch };
+};
+
+/**
+ * What merging the import would change: each grant is new, an update to the client's grant
+ * with the same grant number (or stock, grant date and type), or unchanged; each transaction
+ * is new, already in the ledger, or names a grant that can't be found.
+ */
+export const diffImport = (client: Client, result: ImportResult): ImportDiff => {
+    const warnings = [...result.warnings];
+    const grants: GrantDiff[] = result.grants.map((imported, i) => {
+        const g = imported.grant;
+        const stockKey = getPriceHistoryKey(g);
+        const existing = client.grants.find(e => g.externalId && e.externalId === g.externalId)
+            || resolveGrant({ stockKey, grantDate: g.grantDate, types: [g.type] }, client.grants.filter(e => !e.externalId || !g.externalId));
+        const { fieldChanges, patch } = existing ? diffGrant(existing, imported) : { fieldChanges: [], patch: {} };
+        const currentPrice = client.grants.find(e => getPriceHistoryKey(e) === stockKey)?.currentPrice
+            ?? result.latestPrices[stockKey]?.price
+            ?? g.strikePrice
+            ?? 0;
+        if (!existing && !currentPrice) warnings.push(`${describeGrant(g)}: no current price in the file; set it on the grant after merging`);
+        return {
+            id: `grant-${i}`,
+            imported,
+            ...(existing ? { existing } : {}),
+            change: !existing ? 'add' : fieldChanges.length > 0 ? 'update' : 'unchanged',
+            fieldChanges,
+            patch,
+            currentPrice
+        };
+    });
+
+    // Rows earlier in the file count as already recorded, keyed by grant id or new grant's diff id
+    const seen: Pick<Transaction, 'grantId' | 'type' | 'date' | 'shares'>[] = [];
+    const transactions: TransactionDiff[] = result.transactions.map((imported, i) => {
+        const fromFile = resolveGrant(imported.grant, grants.map(d => ({ ...d.imported.grant, diff: d })))?.diff;
+        const grant = fromFile?.existing || (fromFile ? undefined : resolveGrant(imported.grant, client.grants));
+        const grantId = grant?.id;
+        const target = grantId || fromFile?.id;
+        const t = imported.transaction;
+        const isSame = (other: Pick<Transaction, 'grantId' | 'type' | 'date' | 'shares'>) =>
+            other.grantId === target && other.type === t.type && other.date === t.date && Math.abs(other.shares - t.shares) < 0.0001;
+        const duplicate = !!target && ((client.transactions || []).some(isSame) || seen.some(isSame));
+        if (target && !duplicate) seen.push({ grantId: target, type: t.type, date: t.date, shares: t.shares });
+
+        const reference = imported.grant;
+        return {
+            id: `transaction-${i}`,
+            imported,
+            grantLabel: grant ? describeGrant(grant) : fromFile ? describeGrant(fromFile.imported.grant)
+                : `${reference.stockKey || 'Unknown'}${reference.grantDate ? ` ${reference.grantDate}` : ''}${reference.externalId ? ` #${reference.externalId}` : ''}`,
+            ...(grantId ? { grantId } : {}),
+            ...(fromFile && !fromFile.existing ? { grantDiffId: fromFile.id } : {}),
+            change: duplicate ? 'duplicate' : target ? 'add' : 'unmatched'
+        };
+    });
+
+    return { grants, transactions, warnings };
+};
+
+/**
+ * The client with the accepted grant additions and updates and ledger transactions merged in.
+ * Transactions for a new grant that wasn't accepted are dropped.
+ */
+export const applyImport = (client: Client, diff: ImportDiff, accepted: Set<string>, createId: () => string): Client => {
+    const now = new Date().toISOString();
+    const grants = client.grants.map(g => {
+        const update = diff.grants.find(d => d.change === 'update' && d.existing?.id === g.id && accepted.has(d.id));
+        return update ? { ...g, ...update.patch, lastUpdated: now } : g;
+    });
+
+    const addedGrantIds = new Map<string, string>();
+    diff.grants
+        .filter(d => d.change === 'add' && accepted.has(d.id))
+        .forEach(d => {
+            const id = createId();
+            addedGrantIds.set(d.id, id);
+            grants.push({ ...d.imported.grant, id, currentPrice: d.currentPrice, lastUpdated: now });
+        });
+
+    const transactions = diff.transactions
+        .filter(d => d.change === 'add' && accepted.has(d.id))
+        .flatMap(d => {
+            const grantId = d.grantId || (d.grantDiffId ? addedGrantIds.get(d.grantDiffId) : undefined);
+            return grantId ? [{ ...d.imported.transaction, id: createId(), grantId }] : [];
+        });
+
+    return { ...client, grants, transactions: [...(client.transactions || []), ...transactions] };
+};
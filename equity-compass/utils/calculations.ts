@@ -1,65 +1,23 @@
-import { Grant, VestingEvent, ISOScenario, Client, PlannedExercise } from '../types';
-
-const NIIT_RATE = 0.038; // Net Investment Income Tax
-const TAX_YEAR_DISPLAY = 2026;
-
-// Simplified State Tax Map
-export const STATE_TAX_RATES: Record<string, number> = {
-  'CA': 0.144, 
-  'NY': 0.109,
-  'TX': 0.0,   
-  'FL': 0.0,   
-  'WA': 0.07,  
-  'MA': 0.05,  
-  'NJ': 0.1075,
-  'Other': 0.05 
-};
-
-// --- 2026 PROJECTIONS (TCJA SUNSET SCENARIO) ---
-
-// Estimated 2026 Personal Exemption (Reinstated post-TCJA)
-const PERSONAL_EXEMPTION_2026 = 5300; 
-
-// Estimated 2026 Standard Deductions (Approx half of 2025)
-const STANDARD_DEDUCTION_2026 = {
-    single: 8300, 
-    married_joint: 16600 
-};
-
-// 2026 Projected Federal Tax Brackets (Reverting to pre-2018 structure)
-// [Upper Limit, Rate]
-const TAX_BRACKETS_2026 = {
-    single: [
-        { limit: 11600, rate: 0.10 },
-        { limit: 47150, rate: 0.15 }, 
-        { limit: 114650, rate: 0.25 }, 
-        { limit: 239200, rate: 0.28 }, 
-        { limit: 519900, rate: 0.33 }, 
-        { limit: 522000, rate: 0.35 }, 
-        { limit: Infinity, rate: 0.396 } 
-    ],
-    married_joint: [
-        { limit: 23200, rate: 0.10 },
-        { limit: 94300, rate: 0.15 }, 
-        { limit: 190200, rate: 0.25 }, 
-        { limit: 289900, rate: 0.28 }, 
-        { limit: 519900, rate: 0.33 }, 
-        { limit: 589150, rate: 0.35 }, 
-        { limit: Infinity, rate: 0.396 } 
-    ]
-};
-
-// 2026 AMT Parameters (The Cliff)
-const AMT_PARAMS_2026 = {
-    single: { 
-        exemption: 64400, 
-        phaseout: 140300 
-    },
-    married_joint: { 
-        exemption: 100500, 
-        phaseout: 280600 
-    },
-};
+import { Grant, GrantType, VestingEvent, ISOScenario, Client, PlannedExercise, Transaction, AMTYearSummary, FilingStatus, TaxBracket, TaxRegime, TaxScenario, StateTaxAllocation, PSUTerms, PSUPayoutLevel, TaxBreakdown } from '../types';
+import { AMTInput, AMTParams, calculateAMT, projectMinimumTaxCredit } from './amt';
+import { DEFAULT_TAX_REGIME, TaxYearParameters, getTaxParameters, resolveTaxRegime } from './taxParameters';
+import { calculateFICA, calculateNIIT } from './federalSurtaxes';
+import { PayrollWithholding, calculatePayrollWithholding } from './withholding';
+import { allocateByWorkdays, getResidentState } from './residency';
+import { FEDERAL_SAFE_HARBOR, SafeHarborResult, calculateSafeHarbor, estimateUnderpaymentPenalty, getStateSafeHarborRules, adjustSafeHarborForFilingStatus } from './estimatedTax';
+import { CapitalGainsTaxResult, calculateCapitalGainsTax, getMarginalCapitalGainsRate } from './capitalGains';
+import { StateTaxableIncome, calculateIncrementalStateTax, calculateStateTax, getStateMarginalRate } from './stateTax';
+import { ESPPPurchase, buildESPPPurchases, calculateESPPDisposition } from './espp';
+import { getVestingDefinition, resolveVestingTranches } from './vesting';
+import { Election83bDeadline, get83bDeadline, getRestrictedTranches, isElection83bInEffect } from './election83b';
+import { getExerciseDeadline, getExerciseTaxType, getISODeadline, getTerminationDate, isForfeited } from './termination';
+import { ISOLimitTranche, applyISOLimit } from './isoLimit';
+import { DEFAULT_EXPIRATION_HORIZON_DAYS, getExpirationDate, isAfterExpiration } from './expiration';
+import { getAllExercises, getTaxWithheld, getTransactions, matchRecordedVests } from './ledger';
+import { getHistoricalPrice, getPriceOnDate } from './priceHistory';
+import { buildTaxLots } from './taxLots';
+
+const AMT_CREDIT_HORIZON_YEARS = 10; // Years of Form 8801 credit recovery to project
 
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-US', {
@@ -80,57 +38,174 @@ export const formatPercent = (decimal: number) => {
   return `${(decimal * 100).toFixed(1)}%`;
 };
 
-export const addMonths = (date: Date, months: number): Date => {
-  const d = new Date(date);
-  d.setMonth(d.getMonth() + months);
-  return d;
-};
+const DEFAULT_BASE_INCOME = 250000;
+
+export const getBaseIncome = (client: Client): number => client.estimatedIncome || DEFAULT_BASE_INCOME;
 
+/**
+ * Headline rates for display. Both are marginal rates at the client's current-year income;
+ * actual tax is computed from the bracketed schedules (see calculateClientStateTax and
+ * calculateClientCapitalGainsTax).
+ */
 export const getEffectiveRates = (client: Client) => {
+    const status: FilingStatus = client.filingStatus || 'single';
     const stateRate = client.customStateTaxRate !== undefined 
         ? client.customStateTaxRate / 100 
-        : (STATE_TAX_RATES[client.state] || STATE_TAX_RATES['Other']);
+        : getStateMarginalRate(client.state, status, getBaseIncome(client));
     
-    // LTCG rates likely to remain similar (0/15/20) but we align breakpoints 
-    const fedLtcgRate = client.customLtcgTaxRate !== undefined
-        ? client.customLtcgTaxRate / 100
-        : (client.taxBracket > 33 ? 0.20 : 0.15); 
+    let fedLtcgRate: number;
+    if (client.customLtcgTaxRate !== undefined) {
+        fedLtcgRate = client.customLtcgTaxRate / 100;
+    } else {
+        const { year, regime } = resolveTaxScenario(client);
+        const profile = getTaxYearProfile(client, year, regime);
+        fedLtcgRate = getMarginalCapitalGainsRate(profile.regularTaxableIncome, getTaxParameters(year, regime).ltcgBrackets[status]);
+    }
 
     return { stateRate, fedLtcgRate };
 };
 
 /**
- * Calculates accurate stats for a grant: Total, Vested, Unvested, Exercised, Available.
+ * State tax on `additional` income stacked on the client's base income plus `priorIncome`
+ * (e.g. earlier vests that year). A custom state rate override is applied flat.
+ */
+export const calculateClientStateTax = (client: Client, additional: Partial<StateTaxableIncome>, priorIncome: number = 0): number => {
+    if (client.customStateTaxRate !== undefined) {
+        const amount = (additional.ordinaryIncome || 0) + (additional.capitalGains || 0);
+        return amount * client.customStateTaxRate / 100;
+    }
+    const base = { ordinaryIncome: getBaseIncome(client) + priorIncome, capitalGains: 0, amtPreference: 0 };
+    return calculateIncrementalStateTax(client.state, client.filingStatus || 'single', base, additional).totalTax;
+};
+
+/**
+ * State tax on income earned over a service period (`serviceStart` -> `eventDate`), split
+ * across the client's residency timeline by workdays. Ordinary income and ISO preference are
+ * sourced; capital gains go entirely to the state of residence on the event date.
+ * The resident state taxes everything and credits tax paid to other states on their share.
+ */
+export const allocateClientStateTax = (
+    client: Client,
+    additional: Partial<StateTaxableIncome>,
+    serviceStart: Date,
+    eventDate: Date,
+    priorIncome: number = 0
+): StateTaxAllocation[] => {
+    const resident = getResidentState(client, eventDate);
+    const income = (additional.ordinaryIncome || 0) + (additional.amtPreference || 0);
+
+    if (client.customStateTaxRate !== undefined) {
+        return [{ state: resident, fraction: 1, income, tax: calculateClientStateTax(client, additional, priorIncome) }];
+    }
+
+    const status: FilingStatus = client.filingStatus || 'single';
+    const base = { ordinaryIncome: getBaseIncome(client) + priorIncome, capitalGains: 0, amtPreference: 0 };
+    const shares = allocateByWorkdays(client, serviceStart, eventDate);
+
+    const nonresident = shares
+        .filter(s => s.state !== resident)
+        .map(s => ({
+            state: s.state,
+            fraction: s.fraction,
+            income: income * s.fraction,
+            tax: calculateIncrementalStateTax(s.state, status, base, {
+                ordinaryIncome: (additional.ordinaryIncome || 0) * s.fraction,
+                amtPreference: (additional.amtPreference || 0) * s.fraction
+            }).totalTax
+        }));
+
+    const residentGross = calculateIncrementalStateTax(resident, status, base, additional).totalTax;
+    const otherStateCredit = nonresident.reduce((sum, a) => sum + Math.min(a.tax, residentGross * a.fraction), 0);
+    const residentFraction = shares.find(s => s.state === resident)?.fraction || 0;
+
+    return [
+        { state: resident, fraction: residentFraction, income: income * residentFraction, tax: residentGross - otherStateCredit },
+        ...nonresident
+    ];
+};
+
+/**
+ * Per-state split of a planned exercise. The spread is sourced from grant to exercise; for ISOs
+ * it only produces state tax where the state has its own AMT, for NSOs (and ISO shares over the
+ * $100k limit) it is ordinary income.
+ */
+export const allocatePlannedExercise = (client: Client, plan: PlannedExercise): StateTaxAllocation[] => {
+    const grant = client.grants.find(g => g.id === plan.grantId);
+    const spreadPerShare = Math.max(0, plan.fmvAtExercise - plan.exercisePrice);
+    const exerciseDate = new Date(plan.exerciseDate);
+    const { isoShares, nsoShares } = getExerciseSplit(client, plan);
+    const income = { ordinaryIncome: spreadPerShare * nsoShares, amtPreference: spreadPerShare * isoShares };
+    return allocateClientStateTax(client, income, grant ? new Date(grant.grantDate) : exerciseDate, exerciseDate);
+};
+
+export const formatStateAllocations = (allocations: StateTaxAllocation[]): string =>
+    allocations.map(a => `${a.state} ${(a.fraction * 100).toFixed(0)}%: ${a.tax.toFixed(2)}`).join(' | ');
+
+/**
+ * Calculates accurate stats for a grant: Total, Vested, Unvested, Exercised, Held, Available.
+ * Recorded vests replace projected ones; shares held are the remaining shares of the grant's
+ * tax lots (net of shares sold to cover and of recorded sales, as in the Holdings table), and
+ * for stock grants those are the shares available. The schedule is the client's own, so ESPP
+ * purchases use their income and price history.
  */
-export const getGrantStatus = (grant: Grant, plannedExercises: PlannedExercise[]) => {
+export const getGrantStatus = (grant: Grant, client: Client, plannedExercises: PlannedExercise[], terminationDate?: string, transactions: Transaction[] = []) => {
     const now = new Date();
-    // Dummy client for schedule generation
-    const schedule = generateVestingSchedule(grant, { taxBracket: 37, state: 'CA', grants: [], plannedExercises: [], name: '', id: '', filingStatus: 'single' } as Client); 
-    
-    const vestedEvents = schedule.filter(e => new Date(e.date) <= now);
-    const unvestedEvents = schedule.filter(e => new Date(e.date) > now);
+    const recorded = transactions.filter(t => new Date(t.date) <= now);
+    const ledger = recorded.filter(t => t.grantId === grant.id);
+    // The client's own schedule (shared with every other grant's status) unless the caller
+    // asked about a different termination date or a subset of the ledger
+    const clientLedger = client.transactions || [];
+    const isClientSchedule = terminationDate === getTerminationDate(client, grant) &&
+        recorded.length === clientLedger.length && recorded.every((t, i) => t === clientLedger[i]);
+    const scheduleClient = isClientSchedule ? client : { ...client, terminationDate, transactions: recorded };
+    const schedule = generateVestingSchedule(grant, scheduleClient);
+
+    // Double-trigger settlements re-deliver shares already counted at their service vest, an
+    // 83(b) election taxes shares that still vest on schedule, and recorded exercises are not vests
+    const isServiceVest = (e: VestingEvent) => e.eventType !== 'settlement' && e.eventType !== 'election_83b' && e.eventType !== 'exercise';
+    const serviceVests = schedule.filter(isServiceVest);
+    const vestedEvents = serviceVests.filter(e => new Date(e.date) <= now);
+    const unvestedEvents = serviceVests.filter(e => new Date(e.date) > now);
 
     const totalVestedShares = vestedEvents.reduce((sum, e) => sum + e.shares, 0);
     const totalUnvestedShares = unvestedEvents.reduce((sum, e) => sum + e.shares, 0);
+
+    // Shares that would vest after the termination date
+    const forfeitedShares = terminationDate
+        ? generateVestingSchedule(grant, { ...client, terminationDate: undefined, transactions: [] }).filter(e => isServiceVest(e) && isForfeited(new Date(e.date), terminationDate)).reduce((sum, e) => sum + e.shares, 0)
+        : 0;
     
-    const exercisedShares = plannedExercises
+    const recordedExercised = ledger.filter(t => t.type === 'exercise').reduce((sum, t) => sum + t.shares, 0);
+    const plannedExercised = plannedExercises
         .filter(p => p.grantId === grant.id)
         .reduce((sum, p) => sum + p.shares, 0);
+    const exercisedShares = plannedExercised + recordedExercised;
+
+    // Options are held once exercised (planned exercises are still only plans)
+    const isOption = grant.type === 'ISO' || grant.type === 'NSO';
+    const heldShares = buildTaxLots(scheduleClient, now)
+        .filter(lot => lot.grantId === grant.id)
+        .reduce((sum, lot) => sum + lot.remainingShares, 0);
+
+    // Early-exercisable options can be exercised before they vest (but not once forfeited or expired)
+    const exercisable = isAfterExpiration(now, grant) ? 0
+        : grant.allowEarlyExercise ? totalVestedShares + totalUnvestedShares : totalVestedShares;
 
     return {
         total: grant.totalShares,
         vestedTotal: totalVestedShares,
         unvested: totalUnvestedShares,
+        forfeited: forfeitedShares,
         exercised: exercisedShares,
-        available: Math.max(0, totalVestedShares - exercisedShares)
+        held: heldShares,
+        available: isOption ? Math.max(0, exercisable - exercisedShares) : heldShares
     };
 };
 
 /**
- * Calculates Federal Regular Tax using 2026 Progressive Brackets
+ * Calculates Federal Regular Tax using progressive brackets
  */
-const calculateProgressiveTax = (taxableIncome: number, status: 'single' | 'married_joint'): number => {
-    const brackets = TAX_BRACKETS_2026[status];
+const calculateProgressiveTax = (taxableIncome: number, brackets: TaxBracket[]): number => {
     let tax = 0;
     let previousLimit = 0;
 
@@ -146,150 +221,630 @@ const calculateProgressiveTax = (taxableIncome: number, status: 'single' | 'marr
     return tax;
 };
 
+export const getClientTaxRegime = (client: Client): TaxRegime => resolveTaxRegime(client.taxRegime || DEFAULT_TAX_REGIME);
+
 /**
- * Calculates the "AMT Room" for 2026 considering:
- * 1. Base Salary + RSU Income
- * 2. SALT Deduction (No Cap) vs Standard Deduction logic
- * 3. Personal Exemptions
- * 4. Lower AMT Exemptions (Sunset)
- */
-export const calculateAMTRoom = (client: Client) => {
-    const currentYear = new Date().getFullYear();
-    const status = client.filingStatus || 'single';
-    const params = AMT_PARAMS_2026[status];
-    const stdDeduction = STANDARD_DEDUCTION_2026[status];
-    const personalExemptions = (status === 'married_joint' ? 2 : 1) * PERSONAL_EXEMPTION_2026;
-
-    // 1. Calculate Income
-    let projectedRSUIncome = 0;
-    client.grants.filter(g => g.type === 'RSU').forEach(g => {
-        const schedule = generateVestingSchedule(g, client);
-        schedule.forEach(e => {
-            const vestYear = new Date(e.date).getFullYear();
-            if (vestYear === currentYear || vestYear === TAX_YEAR_DISPLAY) {
-                 // Simplistic check for planning year
-                 if (vestYear === new Date().getFullYear()) {
-                    projectedRSUIncome += e.grossValue;
-                 }
-            }
-        });
-    });
+ * Resolves a (possibly partial) scenario against the client's defaults.
+ */
+export const resolveTaxScenario = (client: Client, scenario: Partial<TaxScenario> = {}): TaxScenario => ({
+    year: scenario.year ?? new Date().getFullYear(),
+    regime: scenario.regime ?? getClientTaxRegime(client)
+});
 
-    const baseIncome = client.estimatedIncome || 250000;
-    const totalGrossIncome = baseIncome + projectedRSUIncome;
-    
-    // 2. SALT Deduction Logic (The 2026 Game Changer)
-    // Estimate State Taxes paid
-    const { stateRate } = getEffectiveRates(client);
-    const estimatedStateTax = totalGrossIncome * stateRate;
-    
-    // In 2026, SALT Cap expires. You deduct the GREATER of State Tax OR Std Deduction
-    const itemizedDeduction = estimatedStateTax; 
-    const isItemizing = itemizedDeduction > stdDeduction;
-    
-    const effectiveDeduction = isItemizing ? itemizedDeduction : stdDeduction;
+/**
+ * SALT cap after the high-income phase-down (30% of MAGI over the threshold, never below the floor).
+ */
+const getSaltCap = (params: TaxYearParameters, magi: number, status: FilingStatus): number => {
+    if (params.saltCap === Infinity) return Infinity;
+    // Separate filers get half the cap, floor and phaseout threshold
+    const share = status === 'married_separate' ? 0.5 : 1;
+    const reduction = Math.max(0, magi - params.saltCapPhaseoutStart * share) * 0.30;
+    return Math.max(params.saltCapFloor * share, params.saltCap * share - reduction);
+};
+
+/**
+ * Deductions and regular tax at a given level of gross (ordinary) income:
+ * 1. SALT Deduction (subject to the regime's cap) vs Standard Deduction logic
+ * 2. Personal Exemptions (zero while TCJA rules apply)
+ */
+const getRegularTaxPicture = (client: Client, year: number, regime: TaxRegime, totalGrossIncome: number) => {
+    const status: FilingStatus = client.filingStatus || 'single';
+    const params = getTaxParameters(year, regime);
+    const stdDeduction = params.standardDeduction[status];
+    const personalExemptions = (status === 'married_joint' ? 2 : 1) * params.personalExemption;
+
+    // Deduct the GREATER of (capped) State Tax OR Std Deduction
+    const estimatedStateTax = client.customStateTaxRate !== undefined
+        ? totalGrossIncome * client.customStateTaxRate / 100
+        : calculateStateTax(getResidentState(client, new Date(year, 11, 31)), status, { ordinaryIncome: totalGrossIncome, capitalGains: 0, amtPreference: 0 }).totalTax;
+    const deductibleStateTax = Math.min(estimatedStateTax, getSaltCap(params, totalGrossIncome, status));
+    const isItemizing = deductibleStateTax > stdDeduction;
+    const effectiveDeduction = isItemizing ? deductibleStateTax : stdDeduction;
 
-    // 3. Regular Tax Calculation
     // Regular Taxable Income = AGI - Deduction - Exemptions
     const regularTaxableIncome = Math.max(0, totalGrossIncome - effectiveDeduction - personalExemptions);
-    const regularTax = calculateProgressiveTax(regularTaxableIncome, status);
-
-    // 4. Iterate to find AMT crossover point
-    let spread = 0;
-    const step = 1000;
-    let tmt = 0;
-    let breakEvenSpread = 0;
-
-    // Safety break
-    while (spread < 10000000) {
-        // AMTI = AGI + Spread.
-        // Critical: State Taxes (Itemized) and Personal Exemptions are ADDED BACK (not deductible) for AMT.
-        // Standard Deduction is also not deductible.
-        // So AMTI is roughly just Gross Income + Spread (minus potentially very limited medical/charity, which we ignore here for safety).
-        const amti = totalGrossIncome + spread;
-
-        // Calculate Exemption Phaseout (2026 Rules)
-        let exemption = params.exemption;
-        if (amti > params.phaseout) {
-            const reduction = (amti - params.phaseout) * 0.25;
-            exemption = Math.max(0, params.exemption - reduction);
-        }
+    const regularTax = calculateProgressiveTax(regularTaxableIncome, params.brackets[status]);
 
-        const amtBase = Math.max(0, amti - exemption);
-        
-        let tentativeTax = 0;
-        const threshold = 220700; // 2026 estimated inflation adj
-        
-        if (amtBase <= threshold) {
-            tentativeTax = amtBase * 0.26;
-        } else {
-            tentativeTax = (threshold * 0.26) + ((amtBase - threshold) * 0.28);
-        }
+    return {
+        stdDeduction,
+        personalExemptions,
+        effectiveDeduction,
+        isItemizing,
+        estimatedStateTax,
+        regularTaxableIncome,
+        regularTax
+    };
+};
 
-        tmt = tentativeTax;
+/**
+ * Regular-tax picture for one calendar year under a policy regime:
+ * Base Salary + RSU vests + planned NSO exercise spread that year, run through getRegularTaxPicture.
+ */
+const getTaxYearProfile = (client: Client, year: number, regime: TaxRegime) => {
+    const wageEvents = generateClientVestingSchedule(client)
+        .filter(e => isSupplementalWageEvent(e) && new Date(e.date).getFullYear() === year);
+    const projectedRSUIncome = wageEvents.filter(e => isStockUnitGrant(e.grantType)).reduce((sum, e) => sum + e.grossValue, 0);
+    const projectedNSOIncome = wageEvents.filter(e => e.eventType === 'exercise').reduce((sum, e) => sum + e.grossValue, 0);
 
-        if (tmt > regularTax) {
-            breakEvenSpread = spread;
-            break; 
-        }
-        spread += step;
-    }
+    const baseIncome = getBaseIncome(client);
+    const totalGrossIncome = baseIncome + projectedRSUIncome + projectedNSOIncome;
 
     return {
-        room: Math.max(0, breakEvenSpread - step),
-        regularTax,
+        year,
+        regime,
         projectedRSUIncome,
+        projectedNSOIncome,
         baseIncome,
-        stdDeduction,
-        personalExemptions,
-        effectiveDeduction,
-        isItemizing,
-        estimatedStateTax
+        totalGrossIncome,
+        ...getRegularTaxPicture(client, year, regime, totalGrossIncome)
     };
 };
 
+type TaxYearProfile = ReturnType<typeof getTaxYearProfile>;
 
-export const generateVestingSchedule = (grant: Grant, client: Client, simulateSellAll: boolean = false): VestingEvent[] => {
-  const events: VestingEvent[] = [];
-  const grantDate = new Date(grant.grantDate);
-  const totalShares = grant.totalShares;
-  const clientTaxRate = client.taxBracket / 100;
-  
-  const { stateRate } = getEffectiveRates(client);
-  
-  const electedRate = (grant.withholdingRate !== undefined ? grant.withholdingRate : 22) / 100;
+/**
+ * The client's manual federal bracket (%), when they have opted into one.
+ */
+export const getManualTaxBracket = (client: Client): number | undefined =>
+    client.useManualTaxBracket ? client.taxBracket : undefined;
+
+/**
+ * Federal income tax on `additional` ordinary income stacked on salary plus `priorIncome`
+ * already earned that year (e.g. earlier vests). Deductions are recomputed at both levels, so
+ * bracket crossings and the SALT cap phase-down are captured. A manual bracket is applied flat.
+ */
+export const calculateClientFederalTax = (client: Client, additional: number, priorIncome: number = 0, scenario: Partial<TaxScenario> = {}): number => {
+    const manualBracket = getManualTaxBracket(client);
+    if (manualBracket !== undefined) return additional * manualBracket / 100;
+
+    const { year, regime } = resolveTaxScenario(client, scenario);
+    const before = getBaseIncome(client) + priorIncome;
+    return getRegularTaxPicture(client, year, regime, before + additional).regularTax
+        - getRegularTaxPicture(client, year, regime, before).regularTax;
+};
 
-  if (grant.vestingSchedule === 'standard_4y_1y_cliff') {
-    const cliffDate = addMonths(grantDate, 12);
-    const cliffShares = totalShares * 0.25;
-    events.push(calculateEvent(cliffDate, cliffShares, grant, clientTaxRate, stateRate, electedRate, simulateSellAll));
+/**
+ * Marginal and effective federal rates for a year, derived from salary plus projected vest
+ * income. The marginal rate is the client's manual bracket when one is set.
+ */
+export const getFederalRates = (client: Client, scenario: Partial<TaxScenario> = {}) => {
+    const { year, regime } = resolveTaxScenario(client, scenario);
+    const profile = getTaxYearProfile(client, year, regime);
+    const brackets = getTaxParameters(year, regime).brackets[client.filingStatus || 'single'];
+    const bracket = brackets.find(b => profile.regularTaxableIncome < b.limit) || brackets[brackets.length - 1];
+    const manualBracket = getManualTaxBracket(client);
 
-    for (let i = 1; i <= 12; i++) {
-      const vestDate = addMonths(cliffDate, i * 3);
-      const shares = (totalShares * 0.75) / 12;
-      events.push(calculateEvent(vestDate, shares, grant, clientTaxRate, stateRate, electedRate, simulateSellAll));
+    return {
+        marginalRate: manualBracket !== undefined ? manualBracket / 100 : bracket.rate,
+        effectiveRate: profile.totalGrossIncome > 0 ? profile.regularTax / profile.totalGrossIncome : 0,
+        isOverride: manualBracket !== undefined
+    };
+};
+
+/**
+ * Federal long-term capital gains tax on `gain`, stacked on the client's ordinary taxable income
+ * for the year plus any ordinary income recognized in the same sale. customLtcgTaxRate, when set,
+ * is applied as an explicit flat override.
+ */
+export const calculateClientCapitalGainsTax = (
+    client: Client,
+    gain: number,
+    additionalOrdinaryIncome: number = 0,
+    scenario: Partial<TaxScenario> = {}
+): CapitalGainsTaxResult => {
+    if (client.customLtcgTaxRate !== undefined) {
+        const rate = client.customLtcgTaxRate / 100;
+        const amount = Math.max(0, gain);
+        return { tax: amount * rate, blendedRate: rate, slices: [{ rate, amount }] };
     }
-  } else {
-    const sharesPerTranche = totalShares / 16;
-    for (let i = 1; i <= 16; i++) {
-      const vestDate = addMonths(grantDate, i * 3);
-      events.push(calculateEvent(vestDate, sharesPerTranche, grant, clientTaxRate, stateRate, electedRate, simulateSellAll));
+    const { year, regime } = resolveTaxScenario(client, scenario);
+    const status: FilingStatus = client.filingStatus || 'single';
+    const profile = getTaxYearProfile(client, year, regime);
+    const brackets = getTaxParameters(year, regime).ltcgBrackets[status];
+    return calculateCapitalGainsTax(profile.regularTaxableIncome + additionalOrdinaryIncome, gain, brackets);
+};
+
+const getAMTParams = (client: Client, year: number, regime: TaxRegime): AMTParams => {
+    const status: FilingStatus = client.filingStatus || 'single';
+    const params = getTaxParameters(year, regime);
+    const amt = params.amt[status];
+    return {
+        exemption: amt.exemption,
+        phaseoutStart: amt.phaseout,
+        phaseoutRate: amt.phaseoutRate,
+        rateBreakpoint: amt.rateBreakpoint,
+        ltcgBrackets: params.ltcgBrackets[status]
+    };
+};
+
+// State taxes (itemized) or the Standard Deduction, plus Personal Exemptions, are ADDED BACK for AMT.
+const toAMTInput = (profile: TaxYearProfile, isoPreference: number): AMTInput => ({
+    regularTaxableIncome: profile.regularTaxableIncome,
+    regularTax: profile.regularTax,
+    exclusionAdjustments: Math.min(profile.totalGrossIncome, profile.effectiveDeduction + profile.personalExemptions),
+    isoPreference,
+    preferentialIncome: 0
+});
+
+/**
+ * Sum of ISO bargain element from planned (held) exercises in a calendar year, on the ISO
+ * shares of each exercise. An early exercise without an 83(b) election adds preference as
+ * each exercised share vests.
+ */
+const getPlannedISOPreference = (client: Client, year: number): number => {
+    return getAllExercises(client)
+        .reduce((sum, p) => {
+            const isoFraction = p.shares > 0 ? getExerciseSplit(client, p).isoShares / p.shares : 0;
+            if (isoFraction === 0) return sum;
+            const grant = client.grants.find(g => g.id === p.grantId);
+            const recognition = grant ? getExerciseRecognition(client, grant, p) : [];
+            if (recognition.length <= 1) {
+                return new Date(p.exerciseDate).getFullYear() === year ? sum + p.amtExposure * isoFraction : sum;
+            }
+            return sum + isoFraction * recognition
+                .filter(r => r.date.getFullYear() === year)
+                .reduce((s, r) => s + Math.max(0, r.fmv - p.exercisePrice) * r.shares, 0);
+        }, 0);
+};
+
+/**
+ * Projects AMT owed and Form 8801 credit recovery from the current year forward.
+ * `additionalPreference` models a not-yet-saved exercise in the current year.
+ */
+export const calculateAMTProjection = (client: Client, additionalPreference: number = 0, scenario: Partial<TaxScenario> = {}): AMTYearSummary[] => {
+    const { year: startYear, regime } = resolveTaxScenario(client, scenario);
+
+    const years = Array.from({ length: AMT_CREDIT_HORIZON_YEARS + 1 }, (_, i) => {
+        const year = startYear + i;
+        const preference = getPlannedISOPreference(client, year) + (i === 0 ? additionalPreference : 0);
+        return {
+            year,
+            input: toAMTInput(getTaxYearProfile(client, year, regime), preference),
+            params: getAMTParams(client, year, regime)
+        };
+    });
+
+    return projectMinimumTaxCredit(years, client.priorAmtCreditCarryforward || 0);
+};
+
+/**
+ * Calculates the remaining "AMT Room" for a tax year (default: current year, client's regime):
+ * the additional ISO spread that can be exercised before Tentative Minimum Tax exceeds
+ * Regular Tax, after accounting for exercises already planned that year.
+ */
+export const calculateAMTRoom = (client: Client, scenario: Partial<TaxScenario> = {}) => {
+    const { year, regime } = resolveTaxScenario(client, scenario);
+    const profile = getTaxYearProfile(client, year, regime);
+    const params = getAMTParams(client, year, regime);
+    const existingPreference = getPlannedISOPreference(client, year);
+
+    const amtOwedWith = (spread: number) =>
+        calculateAMT(year, toAMTInput(profile, existingPreference + spread), params).amtOwed;
+
+    const amtOwed = amtOwedWith(0);
+
+    // Binary search the crossover point (AMT is monotonic in spread)
+    let room = 0;
+    if (amtOwed === 0) {
+        let low = 0;
+        let high = 10000000;
+        while (high - low > 1) {
+            const mid = (low + high) / 2;
+            if (amtOwedWith(mid) > 0) high = mid; else low = mid;
+        }
+        room = Math.floor(low);
+    }
+
+    return {
+        year,
+        regime,
+        room,
+        amtOwed,
+        existingPreference,
+        regularTax: profile.regularTax,
+        projectedRSUIncome: profile.projectedRSUIncome,
+        baseIncome: profile.baseIncome,
+        stdDeduction: profile.stdDeduction,
+        personalExemptions: profile.personalExemptions,
+        effectiveDeduction: profile.effectiveDeduction,
+        isItemizing: profile.isItemizing,
+        estimatedStateTax: profile.estimatedStateTax
+    };
+};
+
+/**
+ * Side-by-side regular tax, AMT owed and AMT room for several tax years under one regime.
+ */
+export const compareTaxYears = (client: Client, years: number[], regime: TaxRegime = getClientTaxRegime(client)) => {
+    return years.map(year => {
+        const room = calculateAMTRoom(client, { year, regime });
+        return {
+            year,
+            regime,
+            regularTax: room.regularTax,
+            amtOwed: room.amtOwed,
+            amtRoom: room.room,
+            effectiveDeduction: room.effectiveDeduction,
+            isItemizing: room.isItemizing
+        };
+    });
+};
+
+
+interface VestTranche {
+  date: Date;
+  shares: number;
+}
+
+// How a tranche is taxed beyond a plain vest
+interface TrancheSettlement {
+  exercise?: PlannedExercise; // NSO exercise: spread taxed as wages
+  deferred?: boolean; // Double-trigger service vest awaiting liquidity: not taxable yet
+  serviceEnd?: Date; // Double-trigger settlement of accumulated vests: sourced through the last service vest
+  election83b?: boolean; // RSA 83(b) election: whole award taxed at its award-date FMV
+  isoExcess?: boolean; // ISO shares over the $100k limit: vest as NSOs
+  transaction?: Transaction; // Recorded in the ledger: actual price and withholding
+  scheduledDate?: Date; // Recorded vest: date of the projected vest it replaced
+}
+
+// A tranche tied to its grant, plus the planned exercise, ESPP purchase or settlement behind it
+type ScheduledTranche = VestTranche & TrancheSettlement & { grant: Grant; purchase?: ESPPPurchase };
+
+/**
+ * RSUs, PSUs and RSAs are taxed as supplemental wages on vest (an RSA only on the spread over
+ * the price paid, and only without an 83(b) election).
+ */
+export const isStockUnitGrant = (type: GrantType): boolean => type === 'RSU' || type === 'PSU' || type === 'RSA';
+
+/**
+ * Payout % of target for a named performance level.
+ */
+export const getPSUPayoutPercent = (terms: PSUTerms, level: PSUPayoutLevel): number =>
+  level === 'threshold' ? terms.thresholdPayout : level === 'max' ? terms.maxPayout : terms.targetPayout;
+
+/**
+ * Client with every PSU projected at `level` instead of its assumed payout.
+ */
+export const applyPSUPayout = (client: Client, level: PSUPayoutLevel): Client => ({
+  ...client,
+  grants: client.grants.map(g => g.psu ? { ...g, psu: { ...g.psu, assumedPayout: getPSUPayoutPercent(g.psu, level) } } : g)
+});
+
+/**
+ * Raw vest dates and share counts for a grant's schedule.
+ */
+const buildVestTranches = (grant: Grant): VestTranche[] => {
+  const totalShares = grant.totalShares;
+
+  // PSUs vest at the end of each performance period at the assumed payout
+  if (grant.psu) {
+    const payout = grant.psu.assumedPayout / 100;
+    return grant.psu.performancePeriods.map(period => ({
+      date: new Date(period.endDate),
+      shares: totalShares * (period.weight / 100) * payout
+    }));
+  }
+
+  const definition = getVestingDefinition(grant.vestingSchedule, grant.grantDate, grant.vestingTranches);
+  return resolveVestingTranches(definition, totalShares);
+};
+
+/**
+ * Double-trigger RSUs are taxed only once both the service vest and the liquidity event have
+ * happened. Tranches that service-vest before the liquidity date accumulate untaxed and settle
+ * together on that date; later tranches are taxed as ordinary vests. With no liquidity date
+ * nothing is taxed yet.
+ */
+const applyDoubleTrigger = (grant: Grant, tranches: VestTranche[]): ScheduledTranche[] => {
+  if (!grant.doubleTrigger) return tranches.map(t => ({ ...t, grant }));
+
+  const liquidityDate = grant.doubleTrigger.liquidityDate ? new Date(grant.doubleTrigger.liquidityDate) : undefined;
+  const pending = tranches.filter(t => !liquidityDate || t.date < liquidityDate);
+  const afterLiquidity = tranches.filter(t => liquidityDate && t.date >= liquidityDate);
+
+  const settlement: ScheduledTranche[] = liquidityDate && pending.length > 0
+    ? [{
+        date: liquidityDate,
+        shares: pending.reduce((sum, t) => sum + t.shares, 0),
+        grant,
+        serviceEnd: pending[pending.length - 1].date
+      }]
+    : [];
+
+  return [
+    ...pending.map(t => ({ ...t, grant, deferred: true })),
+    ...settlement,
+    ...afterLiquidity.map(t => ({ ...t, grant }))
+  ];
+};
+
+/**
+ * An RSA's 83(b) election, unless it was filed (or can now only be filed) after the deadline.
+ */
+export const hasElection83b = (grant: Grant): boolean =>
+  !!grant.election83b && isElection83bInEffect(grant.grantDate, grant.election83bFiledDate);
+
+/**
+ * An early exercise's 83(b) election, unless it was filed (or can now only be filed) after the deadline.
+ */
+export const hasExerciseElection83b = (plan: PlannedExercise): boolean =>
+  !!plan.election83b && isElection83bInEffect(plan.exerciseDate, plan.election83bFiledDate);
+
+/**
+ * An RSA with an 83(b) election is taxed once, on the award date, at the award-date spread;
+ * its vests are then service vests with nothing left to tax.
+ */
+const applyElection83b = (grant: Grant, tranches: VestTranche[]): ScheduledTranche[] => {
+  if (!hasElection83b(grant)) return tranches.map(t => ({ ...t, grant }));
+
+  return [
+    { date: new Date(grant.grantDate), shares: grant.totalShares, grant, election83b: true },
+    ...tranches.map(t => ({ ...t, grant, deferred: true }))
+  ];
+};
+
+export interface ExerciseRecognition {
+  date: Date;
+  shares: number;
+  fmv: number; // FMV per share when the spread is recognized
+}
+
+/**
+ * Exercised shares that were unvested on the exercise date, given the grant's vesting and the
+ * exercises planned before it. Returns the vest dates those shares are released on.
+ */
+const getEarlyExercisedTranches = (client: Client, grant: Grant, plan: PlannedExercise) => {
+  const exerciseDate = new Date(plan.exerciseDate);
+  const tranches = buildVestTranches(grant);
+  const vested = tranches.filter(t => t.date <= exerciseDate).reduce((sum, t) => sum + t.shares, 0);
+  const priorExercised = getAllExercises(client)
+    .filter(p => p.grantId === grant.id && p.id !== plan.id && new Date(p.exerciseDate) <= exerciseDate)
+    .reduce((sum, p) => sum + p.shares, 0);
+
+  // Earlier exercises use up vested shares first, then the earliest unvested tranches
+  const priorUnvested = Math.max(0, priorExercised - vested);
+  const unvested = Math.max(0, plan.shares - Math.max(0, vested - priorExercised));
+  return getRestrictedTranches(tranches, exerciseDate, unvested, priorUnvested);
+};
+
+/**
+ * When an option exercise's spread is recognized (wages for NSOs, AMT preference for ISOs).
+ * Normally all at exercise; for an early exercise without an 83(b) election, the unvested
+ * shares are recognized as they vest, at the vest-date price.
+ */
+export const getExerciseRecognition = (client: Client, grant: Grant, plan: PlannedExercise): ExerciseRecognition[] => {
+  const atExercise: ExerciseRecognition = { date: new Date(plan.exerciseDate), shares: plan.shares, fmv: plan.fmvAtExercise };
+  if (!plan.earlyExercise || hasExerciseElection83b(plan)) return [atExercise];
+
+  const restricted = getEarlyExercisedTranches(client, grant, plan);
+  const vestedShares = plan.shares - restricted.reduce((sum, t) => sum + t.shares, 0);
+
+  return [
+    ...(vestedShares > 0 ? [{ ...atExercise, shares: vestedShares }] : []),
+    ...restricted.map(t => ({ date: t.date, shares: t.shares, fmv: getPriceOnDate(client, grant, t.date) }))
+  ];
+};
+
+/**
+ * Every ISO grant's tranches split at the $100k first-exercisable limit (IRC 422(d)), valued at
+ * grant-date FMV and ignoring tranches forfeited on termination or vesting after expiration.
+ */
+export const getISOLimitSplit = (client: Client): Record<string, ISOLimitTranche[]> =>
+  applyISOLimit(client.grants
+    .filter(g => g.type === 'ISO')
+    .map(grant => ({
+      grantId: grant.id,
+      grantDate: grant.grantDate,
+      fmvAtGrant: grant.fmvAtGrant ?? grant.strikePrice ?? 0,
+      tranches: buildVestTranches(grant).filter(t => !isForfeited(t.date, getTerminationDate(client, grant)) && !isAfterExpiration(t.date, grant)),
+      exercisableDate: grant.allowEarlyExercise ? new Date(grant.grantDate) : undefined
+    })));
+
+export interface ExerciseSplit {
+  isoShares: number;
+  nsoShares: number;
+}
+
+/**
+ * ISO and NSO shares in a planned exercise. ISO shares are exercised first, out of the
+ * exercisable ISO shares not already used by the grant's earlier exercises; the rest are over
+ * the $100k limit. Exercises of NSOs, or of ISOs too long after termination, are all NSO.
+ */
+export const getExerciseSplit = (client: Client, plan: PlannedExercise): ExerciseSplit => {
+  if (getExerciseTaxType(client, plan) === 'NSO') return { isoShares: 0, nsoShares: plan.shares };
+  const grant = client.grants.find(g => g.id === plan.grantId);
+  if (!grant) return { isoShares: plan.shares, nsoShares: 0 };
+
+  const tranches = getISOLimitSplit(client)[grant.id] || [];
+  const plans = [...getAllExercises(client).filter(p => p.grantId === grant.id && p.id !== plan.id), plan]
+    .filter(p => getExerciseTaxType(client, p) === 'ISO')
+    .sort((a, b) => a.exerciseDate.localeCompare(b.exerciseDate));
+
+  let isoUsed = 0;
+  for (const p of plans) {
+    const exerciseDate = new Date(p.exerciseDate);
+    const isoExercisable = tranches
+      .filter(t => grant.allowEarlyExercise || t.date <= exerciseDate)
+      .reduce((sum, t) => sum + t.isoShares, 0);
+    const isoShares = Math.min(p.shares, Math.max(0, isoExercisable - isoUsed));
+    if (p.id === plan.id) return { isoShares, nsoShares: p.shares - isoShares };
+    isoUsed += isoShares;
+  }
+  return { isoShares: plan.shares, nsoShares: 0 };
+};
+
+/**
+ * Swaps projected stock-grant vests for the vests recorded in the ledger, at their actual
+ * dates, share counts and prices. A recorded vest keeps the treatment of the projected vest it
+ * replaces (a service vest stays untaxed); recorded vests with no counterpart are kept too.
+ */
+const applyLedgerVests = (client: Client, tranches: ScheduledTranche[]): ScheduledTranche[] => {
+  const recorded = getTransactions(client, 'vest')
+    .filter(t => client.grants.some(g => g.id === t.grantId && isStockUnitGrant(g.type)));
+  if (recorded.length === 0) return tranches;
+
+  const candidates = tranches.filter(t => isStockUnitGrant(t.grant.type) && !t.exercise && !t.serviceEnd && !t.election83b);
+  const matches = matchRecordedVests(candidates.map(t => ({ grantId: t.grant.id, date: t.date })), recorded);
+  const replacedBy = new Map<string, ScheduledTranche>();
+  candidates.forEach((t, i) => {
+    const match = matches[i];
+    if (match) replacedBy.set(match.id, t);
+  });
+  const replaced = new Set(replacedBy.values());
+
+  return [
+    ...tranches.filter(t => !replaced.has(t)),
+    ...recorded.map(transaction => {
+      const grant = client.grants.find(g => g.id === transaction.grantId)!;
+      const projected = replacedBy.get(transaction.id);
+      const deferred = projected?.deferred ?? (grant.type === 'RSA' && hasElection83b(grant));
+      return {
+        date: new Date(transaction.date),
+        shares: transaction.shares,
+        grant,
+        transaction,
+        ...(deferred ? { deferred } : {}),
+        ...(projected ? { scheduledDate: projected.date } : {})
+      };
+    })
+  ];
+};
+
+/**
+ * ESPP purchases over a grant's offering, priced at the purchase-date close for past purchases
+ * and at the grant's current FMV otherwise.
+ */
+export const getESPPPurchases = (grant: Grant, client: Client): ESPPPurchase[] =>
+  grant.espp ? buildESPPPurchases(grant.espp, getBaseIncome(client), date => getPriceOnDate(client, grant, new Date(date))) : [];
+
+/**
+ * Vesting events for all of a client's grants. Tranches are processed in date order so
+ * each RSU vest is taxed as it stacks onto year-to-date income.
+ */
+const buildClientVestingSchedule = (client: Client, simulateSellAll: boolean): VestingEvent[] => {
+  const isoLimit = getISOLimitSplit(client);
+  const projectedVests: ScheduledTranche[] = client.grants
+    .flatMap((grant): ScheduledTranche[] => {
+      // Nothing vests (or is purchased) after the client leaves the employer, and options
+      // stop vesting once they expire
+      const terminationDate = getTerminationDate(client, grant);
+      if (grant.type === 'ESPP') {
+        return getESPPPurchases(grant, client)
+          .filter(p => p.shares > 0 && !isForfeited(new Date(p.date), terminationDate))
+          .map(purchase => ({ date: new Date(purchase.date), shares: purchase.shares, grant, purchase }));
+      }
+      if (grant.type === 'ISO') {
+        return (isoLimit[grant.id] || []).flatMap(t => [
+          ...(t.isoShares > 0 ? [{ date: t.date, shares: t.isoShares, grant }] : []),
+          ...(t.nsoShares > 0 ? [{ date: t.date, shares: t.nsoShares, grant, isoExcess: true }] : [])
+        ]);
+      }
+      const tranches = buildVestTranches(grant).filter(t => !isForfeited(t.date, terminationDate) && !isAfterExpiration(t.date, grant));
+      return grant.type === 'RSA' ? applyElection83b(grant, tranches) : applyDoubleTrigger(grant, tranches);
+    });
+  const vests = applyLedgerVests(client, projectedVests);
+
+  // Planned NSO exercises (and ISO shares over the $100k limit or exercised too long after
+  // termination) are wage events and stack into the same YTD totals as vests
+  const nsoExercises: ScheduledTranche[] = getAllExercises(client)
+    .flatMap(exercise => {
+      const grant = client.grants.find(g => g.id === exercise.grantId);
+      const { nsoShares } = getExerciseSplit(client, exercise);
+      if (!grant || nsoShares <= 0) return [];
+      const nsoFraction = nsoShares / exercise.shares;
+      const transaction = (client.transactions || []).find(t => t.id === exercise.id);
+      return getExerciseRecognition(client, grant, exercise).map(r => ({
+        date: r.date,
+        shares: r.shares * nsoFraction,
+        grant,
+        exercise: { ...exercise, fmvAtExercise: r.fmv },
+        isoExcess: grant.type === 'ISO' || undefined,
+        transaction
+      }));
+    });
+
+  const tranches = [...vests, ...nsoExercises].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const ytdIncome: Record<number, number> = {};
+
+  return tranches.map(({ date, shares, grant, purchase, ...settlement }) => {
+    if (purchase) return calculatePurchaseEvent(grant, purchase);
+
+    const year = date.getFullYear();
+    const priorIncome = ytdIncome[year] || 0;
+    const event = calculateEvent(date, shares, grant, client, priorIncome, simulateSellAll, settlement);
+    if (isSupplementalWageEvent(event)) {
+      ytdIncome[year] = priorIncome + event.grossValue;
     }
+    return event;
+  });
+};
+
+// Tax year profiles, AMT projections and grant statuses all read the same schedule, so it is
+// built once per client object. Clients are replaced rather than mutated on every edit, which
+// keeps the cache in step with the data; callers must not mutate the returned events.
+const scheduleCache = new WeakMap<Client, { held?: VestingEvent[]; sellAll?: VestingEvent[] }>();
+
+export const generateClientVestingSchedule = (client: Client, simulateSellAll: boolean = false): VestingEvent[] => {
+  const cached = scheduleCache.get(client) || {};
+  const key = simulateSellAll ? 'sellAll' : 'held';
+  if (!cached[key]) {
+    cached[key] = buildClientVestingSchedule(client, simulateSellAll);
+    scheduleCache.set(client, cached);
   }
+  return cached[key];
+};
+
+/**
+ * RSU/PSU/RSA vests, double-trigger settlements, RSA 83(b) elections and NSO exercises are
+ * supplemental wages; option vests and service vests are not taxable.
+ */
+export const isSupplementalWageEvent = (event: VestingEvent): boolean =>
+  event.eventType === 'exercise' || event.eventType === 'settlement' || event.eventType === 'election_83b' ||
+  (isStockUnitGrant(event.grantType) && event.eventType === 'vest');
 
-  return events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+export const generateVestingSchedule = (grant: Grant, client: Client, simulateSellAll: boolean = false): VestingEvent[] => {
+  const scheduleClient = client.grants.some(g => g.id === grant.id) ? client : { ...client, grants: [...client.grants, grant] };
+  return generateClientVestingSchedule(scheduleClient, simulateSellAll).filter(e => e.grantId === grant.id);
 };
 
 const calculateEvent = (
   date: Date, 
   shares: number, 
   grant: Grant, 
-  fedRate: number, 
-  stateRate: number,
-  electedRate: number,
-  simulateSellAll: boolean
+  client: Client,
+  priorYtdIncome: number,
+  simulateSellAll: boolean,
+  { exercise, deferred, serviceEnd, election83b, isoExcess, transaction, scheduledDate }: TrancheSettlement = {}
 ): VestingEvent => {
-  const price = grant.currentPrice;
+  // Past vests are valued at the vest-date close when the price history has it
+  const historicalPrice = exercise || transaction || election83b ? undefined : getHistoricalPrice(client, grant, date);
+  const price = exercise ? exercise.fmvAtExercise
+    : transaction ? transaction.price
+    : election83b ? (grant.fmvAtGrant ?? grant.currentPrice) : historicalPrice ?? grant.currentPrice;
+  const eventType: VestingEvent['eventType'] = exercise ? 'exercise' : election83b ? 'election_83b' : deferred ? 'service_vest' : serviceEnd ? 'settlement' : 'vest';
+  const electedRate = grant.withholdingRate !== undefined ? grant.withholdingRate / 100 : undefined;
+
   let grossValue = 0;
   let withholdingAmount = 0;
   let netShares = 0;
@@ -300,15 +855,24 @@ const calculateEvent = (
   
   let fedLiability = 0;
   let stateLiability = 0;
-  let niitLiability = 0; 
+  let niitLiability = 0; // RSU income is wages, never investment income
+  let fica = { socialSecurity: 0, medicare: 0, additionalMedicare: 0, total: 0 };
+  let withheld: PayrollWithholding = { federal: 0, state: 0, fica: 0, total: 0, federalRate: 0 };
+  let stateAllocations: StateTaxAllocation[] = [];
+
+  if (deferred) {
+    // Service-vested but not yet settled, or already taxed under 83(b): no income
+    grossValue = 0;
+    netShares = 0;
+    netValue = 0;
 
-  if (grant.type === 'ISO') {
+  } else if (!exercise && !isStockUnitGrant(grant.type)) {
     const strike = grant.strikePrice || 0;
     const spread = Math.max(0, price - strike);
     
     grossValue = spread * shares; 
     
-    // Vesting is NOT a taxable event for ISOs.
+    // Vesting is NOT a taxable event for options (ISO or NSO).
     amtExposure = 0; 
     
     withholdingAmount = 0;
@@ -317,14 +881,39 @@ const calculateEvent = (
     taxGap = 0; 
 
   } else {
-    // RSU
-    grossValue = shares * price;
-    withholdingAmount = grossValue * electedRate;
+    // RSU/PSU/RSA vest, double-trigger settlement, 83(b) election, or NSO exercise where the
+    // spread over any price paid is taxed as wages
+    grossValue = Math.max(0, price - (exercise ? exercise.exercisePrice : grant.strikePrice || 0)) * shares;
+
+    // FICA stacks on salary plus earlier vests this year (Social Security wage base, Additional Medicare threshold)
+    const params = getTaxParameters(date.getFullYear(), getClientTaxRegime(client));
+    const priorWages = getBaseIncome(client) + priorYtdIncome;
+    fica = calculateFICA(grossValue, priorWages, params, client.filingStatus || 'single');
+
+    // Income is sourced by workdays between grant and vest (or exercise); a settlement
+    // is sourced through the last service vest it covers, not the liquidity date
+    const grantDate = new Date(grant.grantDate);
+    const sourcingEnd = serviceEnd || date;
+    stateAllocations = allocateClientStateTax(client, { ordinaryIncome: grossValue }, grantDate, sourcingEnd, priorYtdIncome);
+
+    // Payroll withholds per vest: flat/mandatory federal supplemental, state supplemental, FICA
+    const stateShares = allocateByWorkdays(client, grantDate, sourcingEnd);
+    withheld = calculatePayrollWithholding(grossValue, priorYtdIncome, priorWages, params, stateShares, electedRate);
+    // A recorded event carries what payroll actually withheld, split like the projection
+    if (transaction && (transaction.sharesWithheld !== undefined || transaction.taxWithheld !== undefined)) {
+      const actual = getTaxWithheld(transaction);
+      const scale = withheld.total > 0 ? actual / withheld.total : 0;
+      withheld = withheld.total > 0
+        ? { ...withheld, federal: withheld.federal * scale, state: withheld.state * scale, fica: withheld.fica * scale, total: actual }
+        : { ...withheld, federal: actual, total: actual };
+    }
+    withholdingAmount = withheld.total;
     
-    fedLiability = grossValue * fedRate;
-    stateLiability = grossValue * stateRate;
+    // Each vest stacks onto salary plus earlier vests, so a large year crosses brackets
+    fedLiability = calculateClientFederalTax(client, grossValue, priorYtdIncome, { year: date.getFullYear() });
+    stateLiability = stateAllocations.reduce((sum, a) => sum + a.tax, 0);
     
-    const totalLiability = fedLiability + stateLiability;
+    const totalLiability = fedLiability + stateLiability + fica.total;
     
     taxGap = Math.max(0, totalLiability - withholdingAmount);
 
@@ -333,7 +922,7 @@ const calculateEvent = (
       sharesSoldToCover = shares; 
       netValue = grossValue - withholdingAmount; 
     } else {
-      const sharesSoldForTax = withholdingAmount / price;
+      const sharesSoldForTax = transaction?.sharesWithheld ?? withholdingAmount / price;
       sharesSoldToCover = sharesSoldForTax;
       netShares = Math.max(0, shares - sharesSoldForTax);
       netValue = netShares * price;
@@ -341,12 +930,23 @@ const calculateEvent = (
   }
 
   return {
+    grantId: grant.id,
     grantType: grant.type,
+    eventType,
+    ...(isoExcess ? { isoExcess } : {}),
+    ...(transaction ? { transactionId: transaction.id } : {}),
+    ...(scheduledDate ? { scheduledDate: scheduledDate.toISOString().split('T')[0] } : {}),
+    ...(historicalPrice !== undefined ? { historicalPrice } : {}),
     date: date.toISOString().split('T')[0],
     shares,
     grossValue,
     withholdingAmount,
-    electedWithholdingRate: electedRate * 100,
+    withholdingBreakdown: {
+      federal: withheld.federal,
+      state: withheld.state,
+      fica: withheld.fica
+    },
+    electedWithholdingRate: withheld.federalRate * 100,
     netShares,
     netValue,
     sharesSoldToCover,
@@ -356,12 +956,152 @@ const calculateEvent = (
       fed: fedLiability,
       state: stateLiability,
       niit: niitLiability,
-      totalLiability: fedLiability + stateLiability + niitLiability
+      socialSecurity: fica.socialSecurity,
+      medicare: fica.medicare,
+      additionalMedicare: fica.additionalMedicare,
+      stateAllocations,
+      totalLiability: fedLiability + stateLiability + niitLiability + fica.total
+    },
+    isPast: date < new Date()
+  };
+};
+
+/**
+ * ESPP purchases are not taxable: the shares are bought with after-tax payroll deductions and
+ * the discount is recognized when they are sold. Gross value is the bargain element.
+ */
+const calculatePurchaseEvent = (grant: Grant, purchase: ESPPPurchase): VestingEvent => {
+  const date = new Date(purchase.date);
+  const marketValue = purchase.shares * purchase.fmvAtPurchase;
+
+  return {
+    grantId: grant.id,
+    grantType: grant.type,
+    eventType: 'purchase',
+    date: purchase.date,
+    shares: purchase.shares,
+    grossValue: marketValue - purchase.shares * purchase.purchasePrice,
+    purchasePrice: purchase.purchasePrice,
+    offeringFmv: purchase.fmvAtOffering,
+    withholdingAmount: 0,
+    withholdingBreakdown: { federal: 0, state: 0, fica: 0 },
+    electedWithholdingRate: 0,
+    netShares: purchase.shares,
+    netValue: marketValue,
+    sharesSoldToCover: 0,
+    taxGap: 0,
+    amtExposure: 0,
+    taxBreakdown: {
+      fed: 0,
+      state: 0,
+      niit: 0,
+      socialSecurity: 0,
+      medicare: 0,
+      additionalMedicare: 0,
+      stateAllocations: [],
+      totalLiability: 0
     },
     isPast: date < new Date()
   };
 };
 
+// Income periods covered by each estimated payment (Form 2210 annualization periods)
+const ESTIMATED_TAX_PERIOD_END_MONTHS = [3, 5, 8, 12];
+
+export interface EstimatedTaxPeriod {
+    dueDate: string;
+    vestTaxGap: number; // Vest liability not covered by payroll withholding in the period
+    isoExposure: number; // Planned ISO exercise AMT (federal) and state AMT in the period
+}
+
+export interface EstimatedTaxPlan extends SafeHarborResult {
+    jurisdiction: string; // 'Federal' or state code
+    currentYearTax: number;
+    withholding: number;
+    penaltyIfPaidInApril: number;
+}
+
+/**
+ * Estimated payment schedule for a tax year: federal 1040-ES and resident-state vouchers.
+ * Salary withholding is assumed to cover the tax on salary alone; the balance comes from
+ * vest-level tax gaps (withholding vs liability) and AMT on planned ISO exercises.
+ */
+export const calculateEstimatedPayments = (client: Client, year: number) => {
+    const { regime } = resolveTaxScenario(client, { year });
+    const salaryOnly = getTaxYearProfile({ ...client, grants: [], plannedExercises: [] }, year, regime);
+    const currentYearAGI = getTaxYearProfile(client, year, regime).totalGrossIncome;
+    const residentState = getResidentState(client, new Date(year, 11, 31));
+
+    const events = generateClientVestingSchedule(client)
+        .filter(e => isSupplementalWageEvent(e) && new Date(e.date).getFullYear() === year);
+    // NSO exercises (and ISO shares over the $100k limit) are already in `events` as wages;
+    // only the ISO portion of each planned exercise is left
+    const plans = getAllExercises(client)
+        .filter(p => new Date(p.exerciseDate).getFullYear() === year)
+        .map(p => {
+            const { isoShares } = getExerciseSplit(client, p);
+            const isoFraction = p.shares > 0 ? isoShares / p.shares : 0;
+            return { ...p, shares: isoShares, amtExposure: p.amtExposure * isoFraction, estimatedCost: p.estimatedCost * isoFraction };
+        })
+        .filter(p => p.shares > 0);
+
+    // Income tax only: Social Security and base Medicare are always fully withheld
+    const fedLiability = (e: VestingEvent) => e.taxBreakdown.fed + e.taxBreakdown.additionalMedicare;
+    const fedWithheld = (e: VestingEvent) => e.withholdingBreakdown.federal
+        + e.withholdingBreakdown.fica - e.taxBreakdown.socialSecurity - e.taxBreakdown.medicare;
+    const planStateTax = (p: PlannedExercise) => allocatePlannedExercise(client, p).reduce((sum, a) => sum + a.tax, 0);
+
+    const amtOwed = calculateAMTProjection(client, 0, { year, regime })[0].amtOwed;
+    const stateIsoTax = plans.reduce((sum, p) => sum + planStateTax(p), 0);
+
+    const federalInput = {
+        currentYearTax: salaryOnly.regularTax + events.reduce((sum, e) => sum + fedLiability(e), 0) + amtOwed,
+        withholding: salaryOnly.regularTax + events.reduce((sum, e) => sum + fedWithheld(e), 0),
+        priorYearTax: client.priorYearFederalTax,
+        priorYearAGI: client.priorYearAGI,
+        currentYearAGI
+    };
+    const stateInput = {
+        currentYearTax: salaryOnly.estimatedStateTax + events.reduce((sum, e) => sum + e.taxBreakdown.state, 0) + stateIsoTax,
+        withholding: salaryOnly.estimatedStateTax + events.reduce((sum, e) => sum + e.withholdingBreakdown.state, 0),
+        priorYearTax: client.priorYearStateTax,
+        priorYearAGI: client.priorYearAGI,
+        currentYearAGI
+    };
+
+    const buildPlan = (jurisdiction: string, input: typeof federalInput, rules = FEDERAL_SAFE_HARBOR): EstimatedTaxPlan => {
+        const result = calculateSafeHarbor(input, adjustSafeHarborForFilingStatus(rules, client.filingStatus || 'single'), year);
+        return {
+            ...result,
+            jurisdiction,
+            currentYearTax: input.currentYearTax,
+            withholding: input.withholding,
+            penaltyIfPaidInApril: estimateUnderpaymentPenalty(result, year)
+        };
+    };
+
+    const federal = buildPlan('Federal', federalInput);
+    const hasStateIncomeTax = stateInput.currentYearTax > 0 || (client.priorYearStateTax || 0) > 0;
+    const state = hasStateIncomeTax ? buildPlan(residentState, stateInput, getStateSafeHarborRules(residentState)) : null;
+
+    const periods: EstimatedTaxPeriod[] = federal.installments.map((installment, i) => {
+        const startMonth = i === 0 ? 0 : ESTIMATED_TAX_PERIOD_END_MONTHS[i - 1];
+        const endMonth = ESTIMATED_TAX_PERIOD_END_MONTHS[i];
+        const inPeriod = (date: string) => {
+            const d = new Date(date);
+            return d.getFullYear() === year && d.getMonth() >= startMonth && d.getMonth() < endMonth;
+        };
+        const periodPlans = plans.filter(p => inPeriod(p.exerciseDate));
+        return {
+            dueDate: installment.dueDate,
+            vestTaxGap: events.filter(e => inPeriod(e.date)).reduce((sum, e) => sum + e.taxGap, 0),
+            isoExposure: periodPlans.reduce((sum, p) => sum + p.amtExposure + planStateTax(p), 0)
+        };
+    });
+
+    return { year, federal, state, periods };
+};
+
 export const getQuarterlyProjections = (events: VestingEvent[]) => {
   const now = new Date();
   const oneYearFromNow = new Date(now);
@@ -385,7 +1125,11 @@ export const calculateISOScenarios = (
   const saleProceeds = shares * salePrice;
   const bargainElement = Math.max(0, (fmvAtExercise - strikePrice) * shares);
   
-  const { stateRate, fedLtcgRate } = getEffectiveRates(client);
+  const { stateRate } = getEffectiveRates(client);
+  const { year, regime } = resolveTaxScenario(client);
+  const params = getTaxParameters(year, regime);
+  const status: FilingStatus = client.filingStatus || 'single';
+  const baseMagi = getTaxYearProfile(client, year, regime).totalGrossIncome;
   
   let ordinaryIncome = 0;
   let capitalGain = 0;
@@ -394,15 +1138,17 @@ export const calculateISOScenarios = (
   let fedAmount = 0;
   let niitAmount = 0;
   let stateAmount = 0;
+  let ltcg: CapitalGainsTaxResult;
 
   if (isQualified) {
     amtPreference = bargainElement; 
     const totalGain = Math.max(0, saleProceeds - exerciseCost);
     capitalGain = totalGain;
     
-    fedAmount = capitalGain * fedLtcgRate;
-    niitAmount = capitalGain * NIIT_RATE;
-    stateAmount = capitalGain * stateRate; 
+    ltcg = calculateClientCapitalGainsTax(client, capitalGain);
+    fedAmount = ltcg.tax;
+    niitAmount = calculateNIIT(capitalGain, baseMagi + capitalGain, params, status);
+    stateAmount = calculateClientStateTax(client, { capitalGains: capitalGain });
 
   } else {
     const actualGain = saleProceeds - exerciseCost;
@@ -411,16 +1157,16 @@ export const calculateISOScenarios = (
     
     amtPreference = 0; 
     
-    const ordinaryFed = ordinaryIncome * (client.taxBracket / 100); 
-    const ordinaryState = ordinaryIncome * stateRate;
+    const ordinaryFed = calculateClientFederalTax(client, ordinaryIncome);
     
-    const capFed = capitalGain * fedLtcgRate;
-    const capNiit = capitalGain * NIIT_RATE;
-    const capState = capitalGain * stateRate;
+    // Gain stacks above the bargain element recognized as ordinary income in the same year
+    ltcg = calculateClientCapitalGainsTax(client, capitalGain, ordinaryIncome);
+    const capFed = ltcg.tax;
+    const capNiit = calculateNIIT(capitalGain, baseMagi + ordinaryIncome + capitalGain, params, status);
 
     fedAmount = ordinaryFed + capFed;
     niitAmount = capNiit; 
-    stateAmount = ordinaryState + capState;
+    stateAmount = calculateClientStateTax(client, { ordinaryIncome, capitalGains: capitalGain });
   }
 
   const totalTax = fedAmount + niitAmount + stateAmount;
@@ -428,7 +1174,7 @@ export const calculateISOScenarios = (
   return {
     name: isQualified ? "Qualified Disposition (Hold 1yr+)" : "Disqualified Disposition (Sell Early)",
     description: isQualified 
-      ? `Held >2 years from grant & >1 year from exercise. Taxed at favorable Capital Gains rates (${formatPercent(fedLtcgRate)}).` 
+      ? `Held >2 years from grant & >1 year from exercise. Taxed at favorable Capital Gains rates (${formatPercent(ltcg.blendedRate)} blended).` 
       : "Sold early. The bargain element is taxed as Ordinary Income at your marginal rate.",
     exerciseDate: "TBD",
     saleDate: "TBD",
@@ -439,14 +1185,463 @@ export const calculateISOScenarios = (
     capitalGain,
     amtPreference,
     taxes: {
-      fedRate: isQualified ? fedLtcgRate : (client.taxBracket/100),
+      fedRate: isQualified ? ltcg.blendedRate : (ordinaryIncome > 0 ? (fedAmount - ltcg.tax) / ordinaryIncome : getFederalRates(client).marginalRate),
+      fedAmount,
+      niitRate: capitalGain > 0 ? niitAmount / capitalGain : 0,
+      niitAmount,
+      // Effective state rate on the income recognized (brackets make it income-dependent)
+      stateRate: (ordinaryIncome + capitalGain) > 0 ? stateAmount / (ordinaryIncome + capitalGain) : stateRate,
+      stateAmount,
+      ficaAmount: 0, // ISO spread is never wages, even on a disqualifying disposition
+      totalTax
+    },
+    netProfit: saleProceeds - exerciseCost - totalTax
+  };
+};
+/**
+ * Exercise-date taxes on an NSO exercise: the spread is supplemental wages stacked on salary
+ * and the year's earlier vests/exercises, with payroll withholding taken at exercise.
+ */
+export const calculateNSOExerciseTax = (client: Client, grant: Grant, shares: number, fmvAtExercise: number, exerciseDate: Date = new Date()): VestingEvent => {
+  const year = exerciseDate.getFullYear();
+  const priorYtdIncome = generateClientVestingSchedule(client)
+    .filter(e => isSupplementalWageEvent(e) && new Date(e.date).getFullYear() === year && new Date(e.date) < exerciseDate)
+    .reduce((sum, e) => sum + e.grossValue, 0);
+
+  const exercise: PlannedExercise = {
+    id: 'draft',
+    grantId: grant.id,
+    grantTicker: grant.ticker,
+    shares,
+    exerciseDate: exerciseDate.toISOString().split('T')[0],
+    exercisePrice: grant.strikePrice || 0,
+    fmvAtExercise,
+    type: 'NSO',
+    amtExposure: 0,
+    estimatedCost: shares * (grant.strikePrice || 0)
+  };
+  return calculateEvent(exerciseDate, shares, grant, client, priorYtdIncome, false, { exercise });
+};
+
+/**
+ * NSO counterpart to calculateISOScenarios. The spread is ordinary income + FICA at exercise
+ * regardless of holding period; only the appreciation after exercise (basis = FMV at exercise)
+ * is a capital gain, long-term if held more than a year.
+ */
+export const calculateNSOScenarios = (
+  grant: Grant,
+  shares: number,
+  salePrice: number,
+  client: Client,
+  isLongTerm: boolean
+): ISOScenario => {
+  const strikePrice = grant.strikePrice || 0;
+  const fmvAtExercise = grant.currentPrice;
+  const exerciseCost = shares * strikePrice;
+  const saleProceeds = shares * salePrice;
+
+  const { year, regime } = resolveTaxScenario(client);
+  const params = getTaxParameters(year, regime);
+  const status: FilingStatus = client.filingStatus || 'single';
+  const baseMagi = getTaxYearProfile(client, year, regime).totalGrossIncome;
+
+  const exerciseTax = calculateNSOExerciseTax(client, grant, shares, fmvAtExercise);
+  const ordinaryIncome = exerciseTax.grossValue;
+  const ficaAmount = exerciseTax.taxBreakdown.socialSecurity + exerciseTax.taxBreakdown.medicare + exerciseTax.taxBreakdown.additionalMedicare;
+
+  // Gain (or loss) measured from the exercise-date basis
+  const capitalGain = (salePrice - fmvAtExercise) * shares;
+  const taxableGain = Math.max(0, capitalGain);
+
+  let gainFed: number;
+  let gainRate: number;
+  if (isLongTerm) {
+    const ltcg = calculateClientCapitalGainsTax(client, taxableGain, ordinaryIncome);
+    gainFed = ltcg.tax;
+    gainRate = ltcg.blendedRate;
+  } else {
+    // Short-term gains are ordinary income stacked on top of the spread
+    gainFed = calculateClientFederalTax(client, taxableGain, ordinaryIncome);
+    gainRate = taxableGain > 0 ? gainFed / taxableGain : 0;
+  }
+  const niitAmount = calculateNIIT(taxableGain, baseMagi + ordinaryIncome + taxableGain, params, status);
+  const gainState = calculateClientStateTax(client, isLongTerm ? { capitalGains: taxableGain } : { ordinaryIncome: taxableGain }, ordinaryIncome);
+
+  const fedAmount = exerciseTax.taxBreakdown.fed + gainFed;
+  const stateAmount = exerciseTax.taxBreakdown.state + gainState;
+  const totalTax = fedAmount + stateAmount + niitAmount + ficaAmount;
+
+  return {
+    name: isLongTerm ? "Hold 1 Year (Long-Term Gain)" : "Sell at Exercise",
+    description: isLongTerm
+      ? `Spread taxed as wages at exercise; appreciation after exercise taxed at long-term rates (${formatPercent(gainRate)} blended).`
+      : "Spread taxed as wages at exercise. Selling immediately leaves no further gain.",
+    exerciseDate: "TBD",
+    saleDate: "TBD",
+    shares,
+    fmvAtExercise,
+    salePrice,
+    ordinaryIncome,
+    capitalGain,
+    amtPreference: 0,
+    taxes: {
+      fedRate: (ordinaryIncome + taxableGain) > 0 ? fedAmount / (ordinaryIncome + taxableGain) : 0,
       fedAmount,
-      niitRate: NIIT_RATE,
+      niitRate: taxableGain > 0 ? niitAmount / taxableGain : 0,
       niitAmount,
-      stateRate,
+      stateRate: (ordinaryIncome + taxableGain) > 0 ? stateAmount / (ordinaryIncome + taxableGain) : 0,
       stateAmount,
+      ficaAmount,
       totalTax
     },
     netProfit: saleProceeds - exerciseCost - totalTax
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Taxes on selling shares from one ESPP purchase on `saleDate`. The ordinary portion is W-2
+ * income stacked on the sale year's wages (no FICA); the remaining gain is long- or short-term
+ * depending on the holding period. Losses are not deducted here.
+ */
+export const calculateESPPSaleScenario = (
+  client: Client,
+  grant: Grant,
+  purchase: ESPPPurchase,
+  shares: number,
+  salePrice: number,
+  saleDate: string
+): ISOScenario => {
+  const disposition = calculateESPPDisposition(grant.espp!, purchase, shares, salePrice, saleDate);
+  const { ordinaryIncome, isLongTerm } = disposition;
+  const taxableGain = Math.max(0, disposition.capitalGain);
+
+  const { year, regime } = resolveTaxScenario(client, { year: new Date(saleDate).getFullYear() });
+  const params = getTaxParameters(year, regime);
+  const status: FilingStatus = client.filingStatus || 'single';
+  const profile = getTaxYearProfile(client, year, regime);
+  const priorIncome = profile.totalGrossIncome - profile.baseIncome;
+
+  const ordinaryFed = calculateClientFederalTax(client, ordinaryIncome, priorIncome, { year, regime });
+  let gainFed: number;
+  if (isLongTerm) {
+    gainFed = calculateClientCapitalGainsTax(client, taxableGain, ordinaryIncome, { year, regime }).tax;
+  } else {
+    gainFed = calculateClientFederalTax(client, taxableGain, priorIncome + ordinaryIncome, { year, regime });
+  }
+  const niitAmount = calculateNIIT(taxableGain, profile.totalGrossIncome + ordinaryIncome + taxableGain, params, status);
+  const stateAmount = calculateClientStateTax(
+    client,
+    isLongTerm ? { ordinaryIncome, capitalGains: taxableGain } : { ordinaryIncome: ordinaryIncome + taxableGain },
+    priorIncome
+  );
+
+  const fedAmount = ordinaryFed + gainFed;
+  const totalTax = fedAmount + stateAmount + niitAmount;
+  const taxedIncome = ordinaryIncome + taxableGain;
+
+  return {
+    name: disposition.type === 'qualifying' ? "Qualifying Disposition" : "Disqualifying Disposition",
+    description: disposition.type === 'qualifying'
+      ? "Held 2 years from offering and 1 year from purchase. Ordinary income is capped at the offering-date discount; the rest is long-term gain."
+      : `Bargain element at purchase is ordinary income; gain from purchase-date FMV is ${isLongTerm ? 'long' : 'short'}-term.`,
+    exerciseDate: purchase.date,
+    saleDate,
+    shares,
+    fmvAtExercise: purchase.fmvAtPurchase,
+    salePrice,
+    ordinaryIncome,
+    capitalGain: disposition.capitalGain,
+    amtPreference: 0,
+    taxes: {
+      fedRate: taxedIncome > 0 ? fedAmount / taxedIncome : 0,
+      fedAmount,
+      niitRate: taxableGain > 0 ? niitAmount / taxableGain : 0,
+      niitAmount,
+      stateRate: taxedIncome > 0 ? stateAmount / taxedIncome : 0,
+      stateAmount,
+      ficaAmount: 0,
+      totalTax
+    },
+    netProfit: shares * salePrice - shares * purchase.purchasePrice - totalTax
+  };
+};
+
+export interface SaleIncome {
+  ordinaryIncome: number; // Compensation income recognized on the sale (disqualifying ISO / ESPP)
+  shortTermGain: number; // Negative for a loss
+  longTermGain: number;
+}
+
+/**
+ * Tax on a sale of shares in the year of `saleDate`, stacked on that year's salary and vest
+ * income. Short- and long-term results are netted against each other first (a net loss is not
+ * deducted here); short-term gain is taxed as ordinary income. No FICA is due on a sale.
+ */
+export const calculateSaleTax = (client: Client, saleDate: string, income: SaleIncome): TaxBreakdown => {
+  let shortTermGain = income.shortTermGain;
+  let longTermGain = income.longTermGain;
+  if (shortTermGain < 0) { longTermGain += shortTermGain; shortTermGain = 0; }
+  if (longTermGain < 0) { shortTermGain = Math.max(0, shortTermGain + longTermGain); longTermGain = 0; }
+
+  const { year, regime } = resolveTaxScenario(client, { year: new Date(saleDate).getFullYear() });
+  const params = getTaxParameters(year, regime);
+  const status: FilingStatus = client.filingStatus || 'single';
+  const profile = getTaxYearProfile(client, year, regime);
+  const priorIncome = profile.totalGrossIncome - profile.baseIncome;
+
+  const ordinary = income.ordinaryIncome + shortTermGain;
+  const investmentIncome = shortTermGain + longTermGain;
+  const fedAmount = calculateClientFederalTax(client, ordinary, priorIncome, { year, regime })
+    + calculateClientCapitalGainsTax(client, longTermGain, ordinary, { year, regime }).tax;
+  const niitAmount = calculateNIIT(investmentIncome, profile.totalGrossIncome + income.ordinaryIncome + investmentIncome, params, status);
+  const stateAmount = calculateClientStateTax(client, { ordinaryIncome: ordinary, capitalGains: longTermGain }, priorIncome);
+  const taxedIncome = ordinary + longTermGain;
+
+  return {
+    fedRate: taxedIncome > 0 ? fedAmount / taxedIncome : 0,
+    fedAmount,
+    niitRate: investmentIncome > 0 ? niitAmount / investmentIncome : 0,
+    niitAmount,
+    stateRate: taxedIncome > 0 ? stateAmount / taxedIncome : 0,
+    stateAmount,
+    ficaAmount: 0,
+    totalTax: fedAmount + niitAmount + stateAmount
+  };
+};
+
+export interface PSUOutcome {
+  level: PSUPayoutLevel;
+  payoutPercent: number;
+  shares: number;
+  grossValue: number;
+  totalTax: number;
+  taxGap: number;
+}
+
+/**
+ * A PSU grant's full payout at threshold, target and max performance: shares delivered,
+ * value at the current price, and the wage taxes/withholding gap each outcome produces.
+ */
+export const calculatePSUOutcomes = (client: Client, grant: Grant): PSUOutcome[] => {
+  if (!grant.psu) return [];
+  const levels: PSUPayoutLevel[] = ['threshold', 'target', 'max'];
+
+  return levels.map(level => {
+    const scenarioClient = applyPSUPayout(client, level);
+    const events = generateClientVestingSchedule(scenarioClient).filter(e => e.grantId === grant.id);
+    return {
+      level,
+      payoutPercent: getPSUPayoutPercent(grant.psu!, level),
+      shares: events.reduce((sum, e) => sum + e.shares, 0),
+      grossValue: events.reduce((sum, e) => sum + e.grossValue, 0),
+      totalTax: events.reduce((sum, e) => sum + e.taxBreakdown.totalLiability, 0),
+      taxGap: events.reduce((sum, e) => sum + e.taxGap, 0)
+    };
+  });
+};
+
+export interface Election83bOutcome {
+  recognizedIncome: number; // Wages, or AMT preference for ISOs
+  totalTax: number;
+  holdingPeriodStart: string;
+}
+
+export interface Election83bComparison {
+  transferDate: string;
+  restrictedShares: number;
+  incomeType: 'wages' | 'amt';
+  withElection: Election83bOutcome;
+  withoutElection: Election83bOutcome;
+  taxSavings: number; // Positive when the election costs less tax at the projected prices
+  deadline: Election83bDeadline;
+}
+
+/**
+ * Tax on the unvested shares of an RSA (no `plan`) or an early exercise, with and without an
+ * 83(b) election. With it, the transfer-date spread is recognized at once; without it, each
+ * tranche is recognized as it vests at the vest-date price. NSO/RSA income is taxed as
+ * wages stacked on the rest of the client's year; ISO preference is measured as the net AMT
+ * (after credit recovery) it adds over the projection horizon.
+ */
+export const compare83bElection = (client: Client, grant: Grant, plan?: PlannedExercise): Election83bComparison => {
+  const baseClient: Client = plan
+    ? { ...client, plannedExercises: (client.plannedExercises || []).filter(p => p.id !== plan.id) }
+    : { ...client, grants: client.grants.filter(g => g.id !== grant.id) };
+
+  const transferDate = plan ? plan.exerciseDate : grant.grantDate;
+  const transferFmv = plan ? plan.fmvAtExercise : grant.fmvAtGrant ?? grant.currentPrice;
+  const pricePaid = plan ? plan.exercisePrice : grant.strikePrice || 0;
+
+  const restricted = plan
+    ? getEarlyExercisedTranches(baseClient, grant, plan)
+    : buildVestTranches(grant).filter(t => t.date > new Date(transferDate));
+  const restrictedShares = restricted.reduce((sum, t) => sum + t.shares, 0);
+
+  const withRecognition: ExerciseRecognition[] = restrictedShares > 0
+    ? [{ date: new Date(transferDate), shares: restrictedShares, fmv: transferFmv }]
+    : [];
+  const withoutRecognition: ExerciseRecognition[] = restricted.map(t => ({ date: t.date, shares: t.shares, fmv: getPriceOnDate(client, grant, t.date) }));
+
+  const incomeOf = (recognition: ExerciseRecognition[]) =>
+    recognition.reduce((sum, r) => sum + Math.max(0, r.fmv - pricePaid) * r.shares, 0);
+
+  const netAMT = (c: Client) => calculateAMTProjection(c, 0, { year: new Date(transferDate).getFullYear() })
+    .reduce((sum, y) => sum + y.amtOwed - y.creditUsed, 0);
+
+  const baseSchedule = generateClientVestingSchedule(baseClient).filter(isSupplementalWageEvent);
+
+  const taxOf = (recognition: ExerciseRecognition[], elected: boolean): number => {
+    if (grant.type === 'ISO' && plan) {
+      const recognized: PlannedExercise[] = recognition.map((r, i) => ({
+        ...plan,
+        id: `${plan.id}-83b-${i}`,
+        exerciseDate: r.date.toISOString().split('T')[0],
+        shares: r.shares,
+        fmvAtExercise: r.fmv,
+        amtExposure: Math.max(0, r.fmv - pricePaid) * r.shares,
+        earlyExercise: false
+      }));
+      return netAMT({ ...baseClient, plannedExercises: [...(baseClient.plannedExercises || []), ...recognized] }) - netAMT(baseClient);
+    }
+
+    // Each recognition stacks on the client's other wage events that year and on earlier recognitions
+    const stacked: Record<number, number> = {};
+    return recognition.reduce((sum, r) => {
+      const year = r.date.getFullYear();
+      const prior = baseSchedule
+        .filter(e => new Date(e.date).getFullYear() === year && new Date(e.date) < r.date)
+        .reduce((s, e) => s + e.grossValue, 0) + (stacked[year] || 0);
+      const event = calculateEvent(r.date, r.shares, grant, baseClient, prior, false,
+        plan ? { exercise: { ...plan, fmvAtExercise: r.fmv } } : { election83b: elected });
+      stacked[year] = (stacked[year] || 0) + event.grossValue;
+      return sum + event.taxBreakdown.totalLiability;
+    }, 0);
+  };
+
+  const withTax = taxOf(withRecognition, true);
+  const withoutTax = taxOf(withoutRecognition, false);
+  const lastVest = restricted.length > 0 ? restricted[restricted.length - 1].date.toISOString().split('T')[0] : transferDate;
+
+  return {
+    transferDate,
+    restrictedShares,
+    incomeType: grant.type === 'ISO' ? 'amt' : 'wages',
+    withElection: { recognizedIncome: incomeOf(withRecognition), totalTax: withTax, holdingPeriodStart: transferDate },
+    withoutElection: {
+      recognizedIncome: incomeOf(withoutRecognition),
+      totalTax: withoutTax,
+      // The ISO holding period runs from exercise either way; otherwise it starts at each vest
+      holdingPeriodStart: grant.type === 'ISO' ? transferDate : lastVest
+    },
+    taxSavings: withoutTax - withTax,
+    deadline: get83bDeadline(transferDate, plan ? plan.election83bFiledDate : grant.election83bFiledDate)
+  };
+};
+
+export interface TerminationImpact {
+  grant: Grant;
+  terminationDate: string;
+  forfeitedShares: number;
+  forfeitedValue: number; // At the current price (spread for options)
+  // Options only: vested shares not yet planned for exercise and what keeping them costs
+  unexercisedShares: number;
+  exerciseDeadline?: string;
+  isoDeadline?: string;
+  exerciseCost: number;
+  exerciseTax: number; // AMT on ISO shares exercised inside the ISO window, wage taxes on NSO shares
+  cashNeeded: number;
+}
+
+/**
+ * What leaving the employer does to each grant with a termination date: unvested shares
+ * forfeited, and for options the vested shares that lapse unless exercised by the deadline,
+ * with the cash to exercise them at the current price (exercise price plus tax) on the
+ * termination date, or today if that has passed.
+ */
+export const calculateTerminationImpact = (client: Client): TerminationImpact[] =>
+  client.grants.flatMap(grant => {
+    const terminationDate = getTerminationDate(client, grant);
+    if (!terminationDate) return [];
+
+    const status = getGrantStatus(grant, client, client.plannedExercises || [], terminationDate, client.transactions);
+    const isOption = grant.type === 'ISO' || grant.type === 'NSO';
+    const spreadPerShare = isOption ? Math.max(0, grant.currentPrice - (grant.strikePrice || 0)) : grant.currentPrice;
+
+    const today = new Date().toISOString().split('T')[0];
+    const exerciseDate = terminationDate > today ? terminationDate : today;
+    const unexercisedShares = isOption ? Math.max(0, status.vestedTotal + status.unvested - status.exercised) : 0;
+    const exerciseCost = unexercisedShares * (grant.strikePrice || 0);
+
+    // ISO shares over the $100k limit are taxed like NSOs
+    const draft: PlannedExercise = {
+      id: 'termination', grantId: grant.id, grantTicker: grant.ticker, shares: unexercisedShares, exerciseDate,
+      exercisePrice: grant.strikePrice || 0, fmvAtExercise: grant.currentPrice, type: grant.type === 'ISO' ? 'ISO' : 'NSO',
+      amtExposure: 0, estimatedCost: exerciseCost
+    };
+    const { isoShares, nsoShares } = isOption
+      ? getExerciseSplit({ ...client, plannedExercises: [...(client.plannedExercises || []), draft] }, draft)
+      : { isoShares: 0, nsoShares: 0 };
+
+    let exerciseTax = 0;
+    if (nsoShares > 0) {
+      exerciseTax += calculateNSOExerciseTax(client, grant, nsoShares, grant.currentPrice, new Date(exerciseDate)).taxBreakdown.totalLiability;
+    }
+    if (isoShares > 0) {
+      const scenario = { year: new Date(exerciseDate).getFullYear() };
+      exerciseTax += calculateAMTProjection(client, spreadPerShare * isoShares, scenario)[0].amtOwed
+        - calculateAMTProjection(client, 0, scenario)[0].amtOwed;
+    }
+
+    return [{
+      grant,
+      terminationDate,
+      forfeitedShares: status.forfeited,
+      forfeitedValue: status.forfeited * spreadPerShare,
+      unexercisedShares,
+      exerciseDeadline: isOption ? getExerciseDeadline(grant, terminationDate) : undefined,
+      isoDeadline: grant.type === 'ISO' ? getISODeadline(terminationDate) : undefined,
+      exerciseCost,
+      exerciseTax,
+      cashNeeded: exerciseCost + exerciseTax
+    }];
+  });
+
+export interface ExpiringGrant {
+  grant: Grant;
+  deadline: string; // Expiration, or the post-termination exercise deadline if earlier
+  reason: 'expiration' | 'termination';
+  daysRemaining: number;
+  unexercisedShares: number; // Vesting by the deadline and not planned for exercise before it
+  valueAtRisk: number; // Spread at the current price lost if they lapse
+}
+
+/**
+ * Option grants whose exercise deadline falls within `horizonDays` of `today` and that still
+ * have shares left to exercise, soonest first.
+ */
+export const getExpiringGrants = (client: Client, horizonDays: number = DEFAULT_EXPIRATION_HORIZON_DAYS, today: Date = new Date()): ExpiringGrant[] =>
+  client.grants
+    .flatMap(grant => {
+      const expirationDate = getExpirationDate(grant);
+      if (!expirationDate) return [];
+
+      const terminationDate = getTerminationDate(client, grant);
+      const deadline = terminationDate ? getExerciseDeadline(grant, terminationDate) : expirationDate;
+      const daysRemaining = Math.ceil((new Date(deadline).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+      if (daysRemaining < 0 || daysRemaining > horizonDays) return [];
+
+      const plans = (client.plannedExercises || []).filter(p => p.exerciseDate <= deadline);
+      const status = getGrantStatus(grant, client, plans, terminationDate, (client.transactions || []).filter(t => t.date <= deadline));
+      const unexercisedShares = Math.max(0, status.vestedTotal + status.unvested - status.exercised);
+      if (unexercisedShares <= 0) return [];
+
+      return [{
+        grant,
+        deadline,
+        reason: deadline < expirationDate ? 'termination' as const : 'expiration' as const,
+        daysRemaining,
+        unexercisedShares,
+        valueAtRisk: unexercisedShares * Math.max(0, grant.currentPrice - (grant.strikePrice || 0))
+      }];
+    })
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
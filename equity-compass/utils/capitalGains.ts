@@ -0,0 +1,42 @@
+import { TaxBracket } from '../types';
+
+// Long-term capital gains stack on top of ordinary taxable income: the gain fills whatever
+// is left of the 0% bracket first, then 15%, then 20%.
+
+export interface CapitalGainsTaxResult {
+    tax: number;
+    blendedRate: number;
+    slices: { rate: number; amount: number }[]; // Portion of the gain taxed at each rate
+}
+
+/**
+ * Federal tax on `gain` stacked on `ordinaryTaxableIncome` using the 0/15/20% brackets.
+ */
+export const calculateCapitalGainsTax = (ordinaryTaxableIncome: number, gain: number, brackets: TaxBracket[]): CapitalGainsTaxResult => {
+    const floor = Math.max(0, ordinaryTaxableIncome);
+    const amount = Math.max(0, gain);
+    const top = floor + amount;
+    const slices: { rate: number; amount: number }[] = [];
+
+    let tax = 0;
+    let lower = 0;
+    for (const bracket of brackets) {
+        const overlap = Math.min(top, bracket.limit) - Math.max(floor, lower);
+        if (overlap > 0) {
+            tax += overlap * bracket.rate;
+            slices.push({ rate: bracket.rate, amount: overlap });
+        }
+        if (top <= bracket.limit) break;
+        lower = bracket.limit;
+    }
+
+    return { tax, blendedRate: amount > 0 ? tax / amount : 0, slices };
+};
+
+/**
+ * Rate applied to the next dollar of gain at a given level of taxable income.
+ */
+export const getMarginalCapitalGainsRate = (taxableIncome: number, brackets: TaxBracket[]): number => {
+    const bracket = brackets.find(b => Math.max(0, taxableIncome) < b.limit);
+    return bracket ? bracket.rate : 0;
+};
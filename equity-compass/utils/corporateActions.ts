@@ -0,0 +1,238 @@
+import { Client, CorporateAction, CorporateActionType, Grant, PlannedExercise, PlannedSale, PricePoint, Transaction, VestingTrancheDefinition } from '../types';
+import { getVestingDefinition, resolveVestingTranches } from './vesting';
+import { getPriceHistoryKey, mergePriceHistory } from './priceHistory';
+
+// Corporate actions rewrite every grant in the affected company's stock, and the planned
+// exercises, planned sales, recorded transactions and price history of those grants. Splits
+// and stock acquisitions multiply share counts and divide per-share prices by the same ratio,
+// so spreads and values carry over (fractional shares are cashed out). Earlier exercises,
+// ledger entries and closing prices are restated in post-action shares, as brokers do.
+// Everything as it was before is kept on the action, for history and to revert it.
+
+export type CorporateActionInput = Omit<CorporateAction, 'before'>;
+
+export const CORPORATE_ACTION_LABELS: Record<CorporateActionType, string> = {
+    split: 'Stock Split',
+    reverse_split: 'Reverse Split',
+    ticker_change: 'Ticker / Name Change',
+    cash_acquisition: 'Cash Acquisition',
+    stock_acquisition: 'Stock Acquisition'
+};
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+export const isAcquisition = (action: Pick<CorporateAction, 'type'>): boolean =>
+    action.type === 'cash_acquisition' || action.type === 'stock_acquisition';
+
+/**
+ * Grants in the action's stock: by ticker, or by company name for private grants.
+ */
+export const isAffectedGrant = (grant: Grant, action: Pick<CorporateAction, 'ticker' | 'companyName'>): boolean =>
+    action.ticker
+        ? grant.ticker.toUpperCase() === action.ticker.toUpperCase()
+        : !grant.ticker && grant.companyName.trim().toLowerCase() === action.companyName.trim().toLowerCase();
+
+/**
+ * New shares per old share (1 when share counts do not change).
+ */
+export const getShareRatio = (action: Pick<CorporateAction, 'type' | 'ratio'>): number =>
+    action.type === 'split' || action.type === 'reverse_split' || action.type === 'stock_acquisition' ? (action.ratio || 1) : 1;
+
+/**
+ * Vests `percent` of the shares still unvested on `date` on that date; later tranches keep
+ * the rest. Returns share-based custom tranches.
+ */
+export const accelerateVesting = (grant: Grant, date: string, percent: number): VestingTrancheDefinition[] => {
+    const accelerationDate = new Date(date);
+    const tranches = resolveVestingTranches(getVestingDefinition(grant.vestingSchedule, grant.grantDate, grant.vestingTranches), grant.totalShares);
+    const vested = tranches.filter(t => t.date <= accelerationDate);
+    const unvested = tranches.filter(t => t.date > accelerationDate);
+    const accelerated = unvested.reduce((sum, t) => sum + t.shares, 0) * percent / 100;
+    const remaining = 1 - percent / 100;
+
+    return [
+        ...vested.map(t => ({ date: toDateString(t.date), shares: t.shares })),
+        ...(accelerated > 0 ? [{ date, shares: accelerated }] : []),
+        ...(remaining > 0 ? unvested.map(t => ({ date: toDateString(t.date), shares: t.shares * remaining })) : [])
+    ];
+};
+
+const adjustGrant = (grant: Grant, action: CorporateActionInput): Grant => {
+    const ratio = getShareRatio(action);
+    const perShare = (price?: number) => price === undefined ? undefined : price / ratio;
+    const currentPrice = action.type === 'cash_acquisition' && action.cashPerShare !== undefined
+        ? action.cashPerShare
+        : action.type === 'stock_acquisition' && action.acquirerPrice !== undefined
+            ? action.acquirerPrice
+            : grant.currentPrice / ratio;
+
+    let adjusted: Grant = {
+        ...grant,
+        ticker: action.newTicker !== undefined ? action.newTicker.toUpperCase() : grant.ticker,
+        companyName: action.newCompanyName || grant.companyName,
+        currentPrice,
+        strikePrice: perShare(grant.strikePrice),
+        fmvAtGrant: perShare(grant.fmvAtGrant),
+        totalShares: Math.floor(grant.totalShares * ratio),
+        vestingTranches: grant.vestingTranches?.map(t => t.shares !== undefined ? { ...t, shares: t.shares * ratio } : t),
+        espp: grant.espp && { ...grant.espp, lookbackPrice: perShare(grant.espp.lookbackPrice) },
+        lastUpdated: new Date().toISOString()
+    };
+
+    if (!isAcquisition(action)) return adjusted;
+
+    // Closing is the liquidity event for private-company double-trigger RSUs
+    if (grant.doubleTrigger && !grant.doubleTrigger.liquidityDate) {
+        adjusted.doubleTrigger = {
+            liquidityDate: action.effectiveDate,
+            liquidityStatus: action.effectiveDate <= toDateString(new Date()) ? 'actual' : 'assumed'
+        };
+    }
+
+    // Single trigger accelerates at closing; double trigger on a qualifying termination after it.
+    // PSUs keep their performance periods and ESPP offerings have nothing to accelerate.
+    const accelerationDate = action.acceleration === 'single_trigger'
+        ? action.effectiveDate
+        : action.acceleration === 'double_trigger' ? action.qualifyingTerminationDate : undefined;
+    if (accelerationDate && !grant.psu && grant.type !== 'ESPP') {
+        adjusted = {
+            ...adjusted,
+            vestingSchedule: 'custom',
+            vestingTranches: accelerateVesting(adjusted, accelerationDate, action.accelerationPercent ?? 100)
+        };
+        if (action.acceleration === 'double_trigger') adjusted.terminationDate = accelerationDate;
+    }
+
+    return adjusted;
+};
+
+const adjustPlannedExercise = (plan: PlannedExercise, action: CorporateActionInput): PlannedExercise => {
+    const ratio = getShareRatio(action);
+    return {
+        ...plan,
+        grantTicker: action.newTicker !== undefined ? action.newTicker.toUpperCase() : plan.grantTicker,
+        shares: Math.floor(plan.shares * ratio),
+        exercisePrice: plan.exercisePrice / ratio,
+        fmvAtExercise: plan.fmvAtExercise / ratio
+    };
+};
+
+// Dollar amounts (tax withheld, proceeds) are unchanged
+const adjustTransaction = (transaction: Transaction, action: CorporateActionInput): Transaction => {
+    const ratio = getShareRatio(action);
+    return {
+        ...transaction,
+        shares: transaction.shares * ratio,
+        price: transaction.price / ratio,
+        exercisePrice: transaction.exercisePrice !== undefined ? transaction.exercisePrice / ratio : undefined,
+        sharesWithheld: transaction.sharesWithheld !== undefined ? transaction.sharesWithheld * ratio : undefined
+    };
+};
+
+// Estimated proceeds and tax are unchanged; lots keep their ids
+const adjustPlannedSale = (sale: PlannedSale, grantIds: Set<string>, action: CorporateActionInput): PlannedSale => {
+    const ratio = getShareRatio(action);
+    return {
+        ...sale,
+        grantTicker: action.newTicker !== undefined ? action.newTicker.toUpperCase() : sale.grantTicker,
+        salePrice: sale.salePrice / ratio,
+        lots: sale.lots.map(l => grantIds.has(l.grantId) ? { ...l, shares: l.shares * ratio } : l),
+        shares: sale.shares * ratio
+    };
+};
+
+// Price history keys of the affected stock before and after the action
+const getPriceHistoryKeys = (action: CorporateActionInput) => ({
+    from: getPriceHistoryKey(action),
+    to: getPriceHistoryKey({
+        ticker: action.newTicker !== undefined ? action.newTicker : action.ticker,
+        companyName: action.newCompanyName || action.companyName
+    })
+});
+
+// Closes before the effective date are restated in post-action shares and follow the grants
+// to their new ticker; the acquirer's own closes take precedence
+const adjustPriceHistory = (history: Record<string, PricePoint[]>, action: CorporateActionInput): Record<string, PricePoint[]> => {
+    const { from, to } = getPriceHistoryKeys(action);
+    const points = history[from];
+    if (!points) return history;
+    const ratio = getShareRatio(action);
+    const restated = points.map(p => p.date < action.effectiveDate ? { ...p, close: p.close / ratio } : p);
+    const { [from]: _, ...rest } = history;
+    return { ...rest, [to]: from === to ? restated : mergePriceHistory(restated, history[to] || []) };
+};
+
+/**
+ * Records `action` on the client and adjusts every affected grant, planned exercise, planned
+ * sale, ledger transaction and price history.
+ */
+export const applyCorporateAction = (client: Client, input: CorporateActionInput): Client => {
+    const grants = client.grants.filter(g => isAffectedGrant(g, input));
+    const grantIds = new Set(grants.map(g => g.id));
+    const plannedExercises = (client.plannedExercises || []).filter(p => grantIds.has(p.grantId));
+    const transactions = (client.transactions || []).filter(t => grantIds.has(t.grantId));
+    const isAffectedSale = (s: PlannedSale) => s.lots.some(l => grantIds.has(l.grantId));
+    const plannedSales = (client.plannedSales || []).filter(isAffectedSale);
+    const { from, to } = getPriceHistoryKeys(input);
+    const history = client.priceHistory;
+    const priceHistory = history && Object.fromEntries([from, to].filter(key => history[key]).map(key => [key, history[key]]));
+    const action: CorporateAction = {
+        ...input,
+        before: { grants, plannedExercises, transactions, plannedSales, ...(priceHistory ? { priceHistory } : {}) }
+    };
+
+    return {
+        ...client,
+        grants: client.grants.map(g => grantIds.has(g.id) ? adjustGrant(g, input) : g),
+        plannedExercises: (client.plannedExercises || []).map(p => grantIds.has(p.grantId) ? adjustPlannedExercise(p, input) : p),
+        plannedSales: client.plannedSales && client.plannedSales.map(s => isAffectedSale(s) ? adjustPlannedSale(s, grantIds, input) : s),
+        transactions: client.transactions && client.transactions.map(t => grantIds.has(t.grantId) ? adjustTransaction(t, input) : t),
+        ...(history ? { priceHistory: adjustPriceHistory(history, input) } : {}),
+        corporateActions: [...(client.corporateActions || []), action]
+    };
+};
+
+/**
+ * Restores the grants and exercises the most recent action changed. Earlier actions can't be
+ * reverted on their own because later ones were applied on top of them.
+ */
+export const revertCorporateAction = (client: Client, actionId: string): Client => {
+    const actions = client.corporateActions || [];
+    const action = actions[actions.length - 1];
+    if (!action || action.id !== actionId) return client;
+
+    const grants = new Map(action.before.grants.map(g => [g.id, g]));
+    const plans = new Map(action.before.plannedExercises.map(p => [p.id, p]));
+    const transactions = new Map((action.before.transactions || []).map(t => [t.id, t]));
+    const sales = new Map((action.before.plannedSales || []).map(s => [s.id, s]));
+    const { from, to } = getPriceHistoryKeys(action);
+    const { [from]: _from, [to]: _to, ...otherPrices } = client.priceHistory || {};
+    return {
+        ...client,
+        grants: client.grants.map(g => grants.get(g.id) || g),
+        plannedExercises: (client.plannedExercises || []).map(p => plans.get(p.id) || p),
+        plannedSales: client.plannedSales && client.plannedSales.map(s => sales.get(s.id) || s),
+        transactions: client.transactions && client.transactions.map(t => transactions.get(t.id) || t),
+        ...(action.before.priceHistory ? { priceHistory: { ...otherPrices, ...action.before.priceHistory } } : {}),
+        corporateActions: actions.slice(0, -1)
+    };
+};
+
+/**
+ * One-line summary, e.g. "2-for-1 split" or "Acquired by ACME for $40.00/share".
+ */
+export const describeCorporateAction = (action: CorporateActionInput): string => {
+    const ratio = action.ratio || 1;
+    switch (action.type) {
+        case 'split':
+            return `${ratio}-for-1 split`;
+        case 'reverse_split':
+            return `1-for-${Number((1 / ratio).toFixed(4))} reverse split`;
+        case 'ticker_change':
+            return `Renamed to ${action.newTicker || action.newCompanyName || action.ticker}`;
+        case 'cash_acquisition':
+            return `Acquired for $${(action.cashPerShare || 0).toFixed(2)}/share in cash`;
+        case 'stock_acquisition':
+            return `Acquired by ${action.newCompanyName || action.newTicker} at ${ratio} shares per share`;
+    }
+};
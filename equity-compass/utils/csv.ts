@@ -0,0 +1,101 @@
+// Minimal RFC 4180 reader and writer for spreadsheet and brokerage exports: quoted cells may
+// contain commas, doubled quotes and line breaks. Cells are trimmed; blank lines are dropped.
+// Plus the date and number formats those exports use.
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Spreadsheet dates are days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toISODate = (year: number, month: number, day: number): string | undefined =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31
+        ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+        : undefined;
+
+/**
+ * YYYY-MM-DD from YYYY-MM-DD, M/D/YYYY (or M/D/YY), DD-Mon-YYYY, "Mon D, YYYY" or a
+ * spreadsheet date serial. Undefined when the cell isn't a date.
+ */
+export const parseDateCell = (value: string): string | undefined => {
+    const v = value.trim();
+    let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (m) return toISODate(+m[1], +m[2], +m[3]);
+    m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (m) return toISODate(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[1], +m[2]);
+    m = v.match(/^(\d{1,2})[- ]([A-Za-z]{3})[a-z]*[- ,]+(\d{4})$/);
+    if (m) return toISODate(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+    m = v.match(/^([A-Za-z]{3})[a-z]*\.? (\d{1,2}),? (\d{4})$/);
+    if (m) return toISODate(+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]);
+    if (/^\d{5}(\.\d+)?$/.test(v)) return new Date(EXCEL_EPOCH_MS + Math.floor(+v) * DAY_MS).toISOString().split('T')[0];
+    return undefined;
+};
+
+/**
+ * Number from a cell such as "$1,234.50", "(12.00)" or "1,000 shares". NaN when there is none.
+ */
+export const parseNumberCell = (value: string): number => {
+    const negative = /^\(.*\)$/.test(value.trim()) || /^-/.test(value.trim());
+    const m = value.replace(/[$,]/g, '').match(/\d+(\.\d+)?|\.\d+/);
+    return m ? (negative ? -1 : 1) * parseFloat(m[0]) : NaN;
+};
+
+/**
+ * CSV text with every cell quoted, so free text (notes, names) can't shift the columns.
+ */
+export const toCSV = (rows: (string | number)[][]): string =>
+    rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\r\n');
+
+/**
+ * Saves rows as a CSV download. The object URL is released a moment after the click, not
+ * straight away, since some browsers start the download asynchronously.
+ */
+export const downloadCSVFile = (rows: (string | number)[][], fileName: string): void => {
+    const url = URL.createObjectURL(new Blob([toCSV(rows)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Rows of cells. A leading byte-order mark is ignored.
+ */
+export const parseCSV = (text: string): string[][] => {
+    text = text.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(cell.trim());
+        if (row.some(c => c !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell.trim());
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) endRow();
+    return rows;
+};
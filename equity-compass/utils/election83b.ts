@@ -0,0 +1,67 @@
+// Section 83(b) elections on restricted stock awards and early-exercised options.
+// With the election, income (or ISO preference) is recognized on the transfer date at that
+// day's spread and later vests are not taxable; without it, each vest is taxed at the spread
+// on its vest date. The election must reach the IRS within 30 days of the transfer.
+
+export const ELECTION_83B_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Election83bStatus = 'filed' | 'open' | 'missed';
+
+export interface Election83bDeadline {
+    deadline: string;
+    daysRemaining: number; // Negative once the window has closed
+    status: Election83bStatus; // A filing after the deadline is 'missed': the election doesn't apply
+    filedDate?: string;
+}
+
+export interface RestrictedTranche {
+    date: Date;
+    shares: number;
+}
+
+/**
+ * Last day to file, counted from the transfer (award or early exercise) date, and whether the
+ * election was filed by then.
+ */
+export const get83bDeadline = (transferDate: string, filedDate?: string, today: Date = new Date()): Election83bDeadline => {
+    const deadlineDate = new Date(new Date(transferDate).getTime() + ELECTION_83B_WINDOW_DAYS * DAY_MS);
+    const deadline = deadlineDate.toISOString().split('T')[0];
+    const todayString = today.toISOString().split('T')[0];
+    const daysRemaining = Math.round((new Date(deadline).getTime() - new Date(todayString).getTime()) / DAY_MS);
+
+    return {
+        deadline,
+        daysRemaining,
+        status: filedDate ? (filedDate <= deadline ? 'filed' : 'missed') : daysRemaining >= 0 ? 'open' : 'missed',
+        ...(filedDate ? { filedDate } : {})
+    };
+};
+
+/**
+ * An election counts once filed on time, and is assumed while the window is still open.
+ */
+export const isElection83bInEffect = (transferDate: string, filedDate?: string, today: Date = new Date()): boolean =>
+    get83bDeadline(transferDate, filedDate, today).status !== 'missed';
+
+/**
+ * Vest dates of `shares` that were still unvested on `transferDate`. Exercised shares are
+ * taken from the earliest remaining tranches first, after the `priorShares` already taken by
+ * earlier early exercises.
+ */
+export const getRestrictedTranches = (tranches: RestrictedTranche[], transferDate: Date, shares: number, priorShares: number = 0): RestrictedTranche[] => {
+    const result: RestrictedTranche[] = [];
+    let skip = priorShares;
+    let remaining = shares;
+    for (const tranche of tranches.filter(t => t.date > transferDate)) {
+        if (remaining <= 0) break;
+        const skipped = Math.min(tranche.shares, skip);
+        skip -= skipped;
+        const taken = Math.min(tranche.shares - skipped, remaining);
+        if (taken <= 0) continue;
+        result.push({ date: tranche.date, shares: taken });
+        remaining -= taken;
+    }
+    return result;
+};
@@ -0,0 +1,140 @@
+import { ESPPTerms } from '../types';
+
+// Section 423 employee stock purchase plans: purchase pricing, the $25k annual limit,
+// and the ordinary/capital split when purchased shares are sold.
+// Nothing is taxed at purchase; the discount becomes income in the year of disposition.
+
+// Shares valued at offering-date FMV that may be bought per calendar year
+export const ESPP_ANNUAL_LIMIT = 25000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ESPPDispositionType = 'qualifying' | 'disqualifying';
+
+export interface ESPPPurchase {
+    date: string;
+    contributions: number; // Payroll deductions applied to this purchase
+    fmvAtPurchase: number;
+    fmvAtOffering: number; // Offering-date FMV (the lookback price when there is one)
+    purchasePrice: number;
+    shares: number;
+}
+
+export interface ESPPDisposition {
+    type: ESPPDispositionType;
+    ordinaryIncome: number; // W-2 income; not subject to FICA or withholding
+    capitalGain: number; // Negative for a loss
+    isLongTerm: boolean;
+    costBasis: number; // Purchase price plus the ordinary income recognized
+}
+
+const addMonthsToDate = (date: string, months: number): string => {
+    const d = new Date(date);
+    d.setMonth(d.getMonth() + months);
+    return d.toISOString().split('T')[0];
+};
+
+/**
+ * Purchase dates every `intervalMonths` from the offering start through the offering end.
+ */
+export const buildPurchaseDates = (offeringStartDate: string, offeringEndDate: string, intervalMonths: number): string[] => {
+    const dates: string[] = [];
+    if (!offeringStartDate || !offeringEndDate || intervalMonths <= 0) return dates;
+
+    for (let i = 1; ; i++) {
+        const date = addMonthsToDate(offeringStartDate, i * intervalMonths);
+        if (date > offeringEndDate) break;
+        dates.push(date);
+    }
+    return dates;
+};
+
+/**
+ * Discounted price paid per share. With a lookback the discount applies to the lower of the
+ * offering-date and purchase-date FMV.
+ */
+export const getESPPPurchasePrice = (terms: ESPPTerms, fmvAtPurchase: number): number => {
+    const base = terms.lookbackPrice !== undefined ? Math.min(terms.lookbackPrice, fmvAtPurchase) : fmvAtPurchase;
+    return base * (1 - terms.discount / 100);
+};
+
+/**
+ * Purchases over the offering. Each purchase buys with the payroll deductions since the
+ * previous one, capped so that shares bought in a calendar year are worth no more than
+ * $25k at offering-date FMV. Excess contributions are refunded and ignored here.
+ * `fmvOn` gives the FMV on a date (the purchase dates, and the offering date without a lookback).
+ */
+export const buildESPPPurchases = (terms: ESPPTerms, annualSalary: number, fmvOn: (date: string) => number): ESPPPurchase[] => {
+    const offeringFmv = terms.lookbackPrice !== undefined ? terms.lookbackPrice : fmvOn(terms.offeringStartDate);
+    const sharesBoughtByYear: Record<number, number> = {};
+    let periodStart = new Date(terms.offeringStartDate);
+
+    return [...terms.purchaseDates].sort().map(date => {
+        const purchaseDate = new Date(date);
+        const months = Math.max(0, (purchaseDate.getFullYear() - periodStart.getFullYear()) * 12 + purchaseDate.getMonth() - periodStart.getMonth());
+        periodStart = purchaseDate;
+
+        const contributions = annualSalary * (terms.contributionRate / 100) * (months / 12);
+        const fmvAtPurchase = fmvOn(date);
+        const purchasePrice = getESPPPurchasePrice(terms, fmvAtPurchase);
+
+        const year = purchaseDate.getFullYear();
+        const limitShares = offeringFmv > 0 ? ESPP_ANNUAL_LIMIT / offeringFmv : Infinity;
+        const remaining = Math.max(0, limitShares - (sharesBoughtByYear[year] || 0));
+        const shares = purchasePrice > 0 ? Math.min(contributions / purchasePrice, remaining) : 0;
+        sharesBoughtByYear[year] = (sharesBoughtByYear[year] || 0) + shares;
+
+        return { date, contributions, fmvAtPurchase, fmvAtOffering: offeringFmv, purchasePrice, shares };
+    });
+};
+
+/**
+ * First date a sale is a qualifying disposition: more than 2 years after the offering start
+ * and more than 1 year after the purchase.
+ */
+export const getQualifyingDispositionDate = (terms: ESPPTerms, purchaseDate: string): string => {
+    const twoYears = addMonthsToDate(terms.offeringStartDate, 24);
+    const oneYear = addMonthsToDate(purchaseDate, 12);
+    const later = twoYears > oneYear ? twoYears : oneYear;
+    return new Date(new Date(later).getTime() + DAY_MS).toISOString().split('T')[0];
+};
+
+/**
+ * Splits a sale of purchased shares into ordinary income and capital gain.
+ * Qualifying: ordinary income is the lesser of the actual gain and the discount measured at
+ *   offering-date FMV; the rest is long-term gain.
+ * Disqualifying: the full bargain element at purchase is ordinary income regardless of the
+ *   sale price; gain or loss is measured from purchase-date FMV.
+ */
+export const calculateESPPDisposition = (
+    terms: ESPPTerms,
+    purchase: Pick<ESPPPurchase, 'date' | 'fmvAtPurchase' | 'fmvAtOffering' | 'purchasePrice'>,
+    shares: number,
+    salePrice: number,
+    saleDate: string
+): ESPPDisposition => {
+    const qualifying = saleDate >= getQualifyingDispositionDate(terms, purchase.date);
+    const cost = purchase.purchasePrice * shares;
+    const proceeds = salePrice * shares;
+
+    if (qualifying) {
+        const discountAtOffering = purchase.fmvAtOffering * (terms.discount / 100) * shares;
+        const ordinaryIncome = Math.max(0, Math.min(proceeds - cost, discountAtOffering));
+        return {
+            type: 'qualifying',
+            ordinaryIncome,
+            capitalGain: proceeds - cost - ordinaryIncome,
+            isLongTerm: true,
+            costBasis: cost + ordinaryIncome
+        };
+    }
+
+    const ordinaryIncome = Math.max(0, purchase.fmvAtPurchase - purchase.purchasePrice) * shares;
+    return {
+        type: 'disqualifying',
+        ordinaryIncome,
+        capitalGain: proceeds - cost - ordinaryIncome,
+        isLongTerm: saleDate > addMonthsToDate(purchase.date, 12),
+        costBasis: cost + ordinaryIncome
+    };
+};
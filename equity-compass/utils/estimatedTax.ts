@@ -0,0 +1,152 @@
+import { FilingStatus } from '../types';
+
+// Estimated tax payments (Form 1040-ES / state vouchers) and Form 2210 underpayment penalty.
+// Pure functions only: callers supply the year's projected tax and withholding.
+
+// IRS underpayment rate (federal short-term rate + 3%), set quarterly. Held flat for projections.
+const UNDERPAYMENT_INTEREST_RATE = 0.07;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SafeHarborMethod = 'current_year' | 'prior_year';
+
+export interface SafeHarborRules {
+    currentYearRate: number; // Share of this year's tax
+    priorYearRate: number; // Share of last year's tax
+    highIncomePriorYearRate: number; // Applies when prior-year AGI exceeds the threshold
+    highIncomeAGI: number;
+    priorYearDisallowedAGI: number; // Prior-year safe harbor unavailable when this year's AGI is at or above this (Infinity when always allowed)
+    installmentPercents: number[]; // Cumulative shares due at each of the four deadlines
+    minimumBalance: number; // No penalty when the balance after withholding is under this
+}
+
+export interface EstimatedTaxInput {
+    currentYearTax: number;
+    withholding: number;
+    priorYearTax?: number; // Prior-year safe harbor needs a full-year return on file
+    priorYearAGI?: number; // Unknown when unset: the higher prior-year rate is assumed
+    currentYearAGI: number; // Projected
+}
+
+export interface EstimatedInstallment {
+    dueDate: string;
+    requiredPayment: number; // Installment of the required annual payment
+    withholdingCredit: number; // Withholding is treated as paid evenly on the due dates
+    recommendedPayment: number;
+}
+
+export interface SafeHarborResult {
+    currentYearRequired: number;
+    priorYearRequired?: number;
+    priorYearRate?: number; // 100% or 110% depending on prior-year AGI
+    priorYearAGIUnknown?: boolean; // The higher rate was assumed because prior-year AGI isn't on file
+    method: SafeHarborMethod;
+    requiredAnnualPayment: number;
+    balanceDue: number; // Tax not covered by withholding
+    estimatedPaymentsNeeded: number;
+    installments: EstimatedInstallment[];
+}
+
+export const FEDERAL_SAFE_HARBOR: SafeHarborRules = {
+    currentYearRate: 0.90,
+    priorYearRate: 1.00,
+    highIncomePriorYearRate: 1.10,
+    highIncomeAGI: 150000,
+    priorYearDisallowedAGI: Infinity,
+    installmentPercents: [0.25, 0.25, 0.25, 0.25],
+    minimumBalance: 1000
+};
+
+// Most states follow the federal rules; listed states differ in timing or thresholds
+const STATE_SAFE_HARBOR_OVERRIDES: Record<string, Partial<SafeHarborRules>> = {
+    CA: { installmentPercents: [0.30, 0.40, 0, 0.30], priorYearDisallowedAGI: 1000000, minimumBalance: 500 },
+    NY: { minimumBalance: 300 },
+    NJ: { minimumBalance: 400 },
+    MA: { minimumBalance: 400 },
+    OR: { minimumBalance: 1000 }
+};
+
+export const getStateSafeHarborRules = (code: string): SafeHarborRules => ({ ...FEDERAL_SAFE_HARBOR, ...STATE_SAFE_HARBOR_OVERRIDES[code] });
+
+/**
+ * Separate filers reach the AGI thresholds at half the amount ($75k for the 110% rule).
+ */
+export const adjustSafeHarborForFilingStatus = (rules: SafeHarborRules, status: FilingStatus): SafeHarborRules =>
+    status === 'married_separate'
+        ? { ...rules, highIncomeAGI: rules.highIncomeAGI / 2, priorYearDisallowedAGI: rules.priorYearDisallowedAGI / 2 }
+        : rules;
+
+/**
+ * April, June and September of the tax year, then January of the following year.
+ */
+export const getInstallmentDueDates = (year: number): string[] =>
+    [`${year}-04-15`, `${year}-06-15`, `${year}-09-15`, `${year + 1}-01-15`];
+
+/**
+ * Smallest annual payment (withholding + estimates) that avoids the penalty, and the
+ * voucher amounts that get there using the regular installment method.
+ */
+export const calculateSafeHarbor = (input: EstimatedTaxInput, rules: SafeHarborRules, year: number): SafeHarborResult => {
+    const currentYearRequired = Math.max(0, input.currentYearTax) * rules.currentYearRate;
+
+    let priorYearRequired: number | undefined;
+    let priorYearRate: number | undefined;
+    const priorYearAGIUnknown = input.priorYearAGI === undefined;
+    if (input.priorYearTax !== undefined && input.currentYearAGI < rules.priorYearDisallowedAGI) {
+        priorYearRate = priorYearAGIUnknown || input.priorYearAGI! > rules.highIncomeAGI ? rules.highIncomePriorYearRate : rules.priorYearRate;
+        priorYearRequired = Math.max(0, input.priorYearTax) * priorYearRate;
+    }
+
+    const usePriorYear = priorYearRequired !== undefined && priorYearRequired < currentYearRequired;
+    const requiredAnnualPayment = usePriorYear ? priorYearRequired! : currentYearRequired;
+    const balanceDue = Math.max(0, input.currentYearTax - input.withholding);
+    const estimatedPaymentsNeeded = balanceDue < rules.minimumBalance ? 0 : Math.max(0, requiredAnnualPayment - input.withholding);
+
+    const installments = getInstallmentDueDates(year).map((dueDate, i) => {
+        const withholdingCredit = input.withholding / 4;
+        const requiredPayment = requiredAnnualPayment * rules.installmentPercents[i];
+        return {
+            dueDate,
+            requiredPayment,
+            withholdingCredit,
+            recommendedPayment: estimatedPaymentsNeeded * rules.installmentPercents[i]
+        };
+    });
+
+    return {
+        currentYearRequired,
+        priorYearRequired,
+        priorYearRate,
+        ...(priorYearRequired !== undefined && priorYearAGIUnknown ? { priorYearAGIUnknown } : {}),
+        method: usePriorYear ? 'prior_year' : 'current_year',
+        requiredAnnualPayment,
+        balanceDue,
+        estimatedPaymentsNeeded,
+        installments
+    };
+};
+
+/**
+ * Form 2210 penalty if nothing beyond withholding is paid until the April filing deadline.
+ * Each installment's running underpayment accrues interest until the next due date.
+ */
+export const estimateUnderpaymentPenalty = (result: SafeHarborResult, year: number, rate: number = UNDERPAYMENT_INTEREST_RATE): number => {
+    if (result.estimatedPaymentsNeeded === 0) return 0;
+
+    const paymentDate = new Date(`${year + 1}-04-15`);
+    let cumulativeRequired = 0;
+    let cumulativeWithholding = 0;
+    let penalty = 0;
+
+    result.installments.forEach((installment, i) => {
+        cumulativeRequired += installment.requiredPayment;
+        cumulativeWithholding += installment.withholdingCredit;
+        const underpayment = Math.max(0, cumulativeRequired - cumulativeWithholding);
+
+        const from = new Date(installment.dueDate);
+        const to = i + 1 < result.installments.length ? new Date(result.installments[i + 1].dueDate) : paymentDate;
+        penalty += underpayment * rate * ((to.getTime() - from.getTime()) / DAY_MS) / 365;
+    });
+
+    return penalty;
+};
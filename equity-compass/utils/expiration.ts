@@ -0,0 +1,35 @@
+import { Grant } from '../types';
+
+// Options lapse at the end of their term: ISOs can run at most ten years (IRC 422(b)(3)) and
+// most NSO plans use the same term. Anything still unexercised is worthless afterwards, so
+// vests stop at expiration and every exercise deadline is capped by it.
+
+export const DEFAULT_OPTION_TERM_YEARS = 10;
+export const DEFAULT_EXPIRATION_HORIZON_DAYS = 365;
+
+/**
+ * Last day an option grant can be exercised; undefined for grants that don't expire.
+ */
+export const getExpirationDate = (grant: Pick<Grant, 'type' | 'grantDate' | 'expirationDate'>): string | undefined => {
+    if (grant.type !== 'ISO' && grant.type !== 'NSO') return undefined;
+    if (grant.expirationDate) return grant.expirationDate;
+    if (!grant.grantDate) return undefined;
+    const expiration = new Date(grant.grantDate);
+    expiration.setFullYear(expiration.getFullYear() + DEFAULT_OPTION_TERM_YEARS);
+    return expiration.toISOString().split('T')[0];
+};
+
+export const isAfterExpiration = (date: Date, grant: Grant): boolean => {
+    const expirationDate = getExpirationDate(grant);
+    return !!expirationDate && date > new Date(expirationDate);
+};
+
+export const EXPIRATION_HORIZON_OPTIONS: { days: number; label: string }[] = [
+    { days: 90, label: '90 days' },
+    { days: 180, label: '6 months' },
+    { days: 365, label: '1 year' },
+    { days: 730, label: '2 years' }
+];
+
+export const getExpirationHorizonLabel = (days: number): string =>
+    EXPIRATION_HORIZON_OPTIONS.find(o => o.days === days)?.label || `${days} days`;
@@ -0,0 +1,58 @@
+import { FilingStatus } from '../types';
+import { TaxYearParameters } from './taxParameters';
+
+// Threshold-based federal taxes that sit outside the income tax brackets:
+// FICA (Social Security, Medicare, Additional Medicare) on wages and NIIT on investment income.
+
+const SOCIAL_SECURITY_RATE = 0.062;
+const MEDICARE_RATE = 0.0145;
+const ADDITIONAL_MEDICARE_RATE = 0.009;
+const NIIT_RATE = 0.038;
+
+// Employers withhold Additional Medicare on wages over $200k regardless of filing status
+const ADDITIONAL_MEDICARE_WITHHOLDING_THRESHOLD = 200000;
+
+export interface FICABreakdown {
+    socialSecurity: number;
+    medicare: number;
+    additionalMedicare: number;
+    total: number;
+}
+
+const slice = (amount: number, prior: number, threshold: number): number =>
+    Math.max(0, Math.min(amount, prior + amount - threshold));
+
+/**
+ * Employee FICA liability on `wages` stacked on `priorWages` already earned that year
+ * (salary plus earlier vests). Social Security stops at the wage base.
+ */
+export const calculateFICA = (wages: number, priorWages: number, params: TaxYearParameters, status: FilingStatus): FICABreakdown => {
+    const ssWages = Math.max(0, Math.min(wages, params.socialSecurityWageBase - priorWages));
+    const socialSecurity = ssWages * SOCIAL_SECURITY_RATE;
+    const medicare = wages * MEDICARE_RATE;
+    const additionalMedicare = slice(wages, priorWages, params.additionalMedicareThreshold[status]) * ADDITIONAL_MEDICARE_RATE;
+
+    return { socialSecurity, medicare, additionalMedicare, total: socialSecurity + medicare + additionalMedicare };
+};
+
+/**
+ * FICA the employer actually withholds. Differs from liability only in Additional Medicare,
+ * which payroll withholds over a flat $200k threshold.
+ */
+export const calculateFICAWithholding = (wages: number, priorWages: number, params: TaxYearParameters): FICABreakdown => {
+    const ssWages = Math.max(0, Math.min(wages, params.socialSecurityWageBase - priorWages));
+    const socialSecurity = ssWages * SOCIAL_SECURITY_RATE;
+    const medicare = wages * MEDICARE_RATE;
+    const additionalMedicare = slice(wages, priorWages, ADDITIONAL_MEDICARE_WITHHOLDING_THRESHOLD) * ADDITIONAL_MEDICARE_RATE;
+
+    return { socialSecurity, medicare, additionalMedicare, total: socialSecurity + medicare + additionalMedicare };
+};
+
+/**
+ * Net Investment Income Tax: 3.8% of the lesser of investment income or MAGI over the threshold.
+ * `magi` must already include the investment income.
+ */
+export const calculateNIIT = (netInvestmentIncome: number, magi: number, params: TaxYearParameters, status: FilingStatus): number => {
+    const excessMagi = Math.max(0, magi - params.niitThreshold[status]);
+    return Math.min(Math.max(0, netInvestmentIncome), excessMagi) * NIIT_RATE;
+};
@@ -0,0 +1,44 @@
+// IRC 422(d): options are ISOs only up to $100,000 of stock (valued at grant-date FMV) first
+// exercisable in any calendar year, across all of the employee's ISO grants. Earlier grants use
+// up the limit first; shares over it are treated as NSOs.
+
+export const ISO_ANNUAL_LIMIT = 100000;
+
+export interface ISOLimitGrant {
+    grantId: string;
+    grantDate: string;
+    fmvAtGrant: number; // Per share; usually the strike
+    tranches: { date: Date; shares: number }[];
+    exercisableDate?: Date; // Early-exercisable grants are exercisable in full from the grant date
+}
+
+export interface ISOLimitTranche {
+    date: Date;
+    shares: number;
+    isoShares: number;
+    nsoShares: number; // Over the limit: taxed as NSOs
+}
+
+/**
+ * Splits each grant's tranches into ISO and NSO shares, keyed by grant id.
+ */
+export const applyISOLimit = (grants: ISOLimitGrant[]): Record<string, ISOLimitTranche[]> => {
+    const usedByYear: Record<number, number> = {};
+    const result: Record<string, ISOLimitTranche[]> = {};
+
+    [...grants]
+        .sort((a, b) => a.grantDate.localeCompare(b.grantDate))
+        .forEach(grant => {
+            result[grant.grantId] = grant.tranches.map(tranche => {
+                const year = (grant.exercisableDate || tranche.date).getFullYear();
+                const remaining = Math.max(0, ISO_ANNUAL_LIMIT - (usedByYear[year] || 0));
+                const isoShares = grant.fmvAtGrant > 0
+                    ? Math.min(tranche.shares, Math.floor(remaining / grant.fmvAtGrant))
+                    : tranche.shares;
+                usedByYear[year] = (usedByYear[year] || 0) + isoShares * grant.fmvAtGrant;
+                return { date: tranche.date, shares: tranche.shares, isoShares, nsoShares: tranche.shares - isoShares };
+            });
+        });
+
+    return result;
+};
@@ -0,0 +1,83 @@
+import { Client, Grant, PlannedExercise, Transaction, TransactionType } from '../types';
+
+// The ledger records what actually happened. Projections reconcile against it: a recorded vest
+// replaces the projected vest it corresponds to (the nearest one for the same grant within a
+// few days, since vests landing on weekends settle on the next trading day), and recorded
+// exercises are taxed like planned ones but at their actual prices.
+
+export const LEDGER_MATCH_WINDOW_DAYS = 7;
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+    vest: 'Vest',
+    exercise: 'Exercise',
+    sale: 'Sale'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTransactions = (client: Client, type?: TransactionType): Transaction[] =>
+    (client.transactions || []).filter(t => !type || t.type === type);
+
+/**
+ * Tax withheld on a recorded vest or exercise.
+ */
+export const getTaxWithheld = (transaction: Transaction): number =>
+    transaction.taxWithheld ?? (transaction.sharesWithheld || 0) * transaction.price;
+
+export const getSaleProceeds = (transaction: Transaction): number =>
+    transaction.proceeds ?? transaction.shares * transaction.price;
+
+/**
+ * For each projected vest (in order), the recorded vest that replaces it, if any. Each
+ * recorded vest replaces at most one projected vest: the closest unmatched one of the same
+ * grant within LEDGER_MATCH_WINDOW_DAYS.
+ */
+export const matchRecordedVests = (projected: { grantId: string; date: Date }[], recorded: Transaction[]): (Transaction | undefined)[] => {
+    const matches: (Transaction | undefined)[] = projected.map(() => undefined);
+    recorded
+        .filter(t => t.type === 'vest')
+        .forEach(transaction => {
+            const date = new Date(transaction.date).getTime();
+            let best = -1;
+            projected.forEach((p, i) => {
+                if (matches[i] || p.grantId !== transaction.grantId) return;
+                const distance = Math.abs(p.date.getTime() - date);
+                if (distance <= LEDGER_MATCH_WINDOW_DAYS * DAY_MS && (best < 0 || distance < Math.abs(projected[best].date.getTime() - date))) {
+                    best = i;
+                }
+            });
+            if (best >= 0) matches[best] = transaction;
+        });
+    return matches;
+};
+
+/**
+ * A recorded exercise in the shape of a planned one, so it is taxed the same way.
+ */
+export const toExercise = (grant: Grant, transaction: Transaction): PlannedExercise => {
+    const exercisePrice = transaction.exercisePrice ?? grant.strikePrice ?? 0;
+    const isISO = grant.type === 'ISO';
+    return {
+        id: transaction.id,
+        grantId: grant.id,
+        grantTicker: grant.ticker,
+        shares: transaction.shares,
+        exerciseDate: transaction.date,
+        exercisePrice,
+        fmvAtExercise: transaction.price,
+        type: isISO ? 'ISO' : 'NSO',
+        amtExposure: isISO ? Math.max(0, transaction.price - exercisePrice) * transaction.shares : 0,
+        estimatedCost: exercisePrice * transaction.shares
+    };
+};
+
+/**
+ * Planned exercises plus those recorded in the ledger.
+ */
+export const getAllExercises = (client: Client): PlannedExercise[] => [
+    ...(client.plannedExercises || []),
+    ...getTransactions(client, 'exercise').flatMap(t => {
+        const grant = client.grants.find(g => g.id === t.grantId);
+        return grant ? [toExercise(grant, t)] : [];
+    })
+];
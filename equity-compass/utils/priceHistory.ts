@@ -0,0 +1,77 @@
+import { Client, Grant, PricePoint } from '../types';
+import { parseCSV, parseDateCell, parseNumberCell } from './csv';
+
+// Closing prices by ticker, so past vests, settlements and purchases are valued at what the
+// stock actually traded at on the day. Future events keep using the grant's current price as
+// the projection price. Prices are kept as traded; a later split restates them with the
+// grant (see corporateActions). data/price-history-sample.csv is a sample export for trying
+// the import without a network connection.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A vest on a weekend or market holiday is valued at the last close before it
+export const PRICE_LOOKBACK_DAYS = 7;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Key a grant's prices are stored under: the ticker, or the company name for private stock
+ * (409A valuations entered by hand).
+ */
+export const getPriceHistoryKey = (grant: Pick<Grant, 'ticker' | 'companyName'>): string =>
+    grant.ticker ? grant.ticker.toUpperCase() : grant.companyName.trim();
+
+/**
+ * Close on `date`, or the last close within PRICE_LOOKBACK_DAYS before it.
+ */
+export const getClosingPrice = (history: PricePoint[] | undefined, date: string): number | undefined => {
+    const earliest = toDateString(new Date(new Date(date).getTime() - PRICE_LOOKBACK_DAYS * DAY_MS));
+    const point = (history || [])
+        .filter(p => p.date <= date && p.date >= earliest)
+        .reduce<PricePoint | undefined>((latest, p) => !latest || p.date > latest.date ? p : latest, undefined);
+    return point?.close;
+};
+
+/**
+ * Historical close for an event on `date`, when the date is past and the history covers it.
+ */
+export const getHistoricalPrice = (client: Client, grant: Grant, date: Date): number | undefined =>
+    date < new Date() ? getClosingPrice(client.priceHistory?.[getPriceHistoryKey(grant)], toDateString(date)) : undefined;
+
+/**
+ * FMV for an event on `date`: the historical close for past dates, else the current price.
+ */
+export const getPriceOnDate = (client: Client, grant: Grant, date: Date): number =>
+    getHistoricalPrice(client, grant, date) ?? grant.currentPrice;
+
+/**
+ * Adds `points` to a history, replacing any close already recorded on the same date.
+ */
+export const mergePriceHistory = (existing: PricePoint[] = [], points: PricePoint[]): PricePoint[] => {
+    const byDate = new Map(existing.map(p => [p.date, p]));
+    points.forEach(p => byDate.set(p.date, p));
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Daily prices from a CSV export with a date column and a close (or price) column, such as a
+ * Yahoo Finance or broker download. Without a header the first two columns are date and close.
+ * Rows that don't parse are skipped.
+ */
+export const parsePriceHistoryCSV = (text: string): PricePoint[] => {
+    const rows = parseCSV(text);
+    if (rows.length === 0) return [];
+
+    const hasHeader = !parseDateCell(rows[0][0] || '');
+    const header = hasHeader ? rows[0].map(h => h.toLowerCase()) : [];
+    const dateColumn = Math.max(0, header.findIndex(h => h.includes('date')));
+    const exactClose = header.indexOf('close');
+    const closeColumn = exactClose >= 0 ? exactClose : header.findIndex(h => !h.includes('adj') && /close|price|fmv/.test(h));
+
+    const points = (hasHeader ? rows.slice(1) : rows).flatMap(row => {
+        const date = parseDateCell(row[dateColumn] || '');
+        const close = parseNumberCell(row[closeColumn >= 0 ? closeColumn : dateColumn === 0 ? 1 : 0] || '');
+        return date && close > 0 ? [{ date, close }] : [];
+    });
+    return mergePriceHistory([], points);
+};
@@ -0,0 +1,77 @@
+import { Client, ResidencyPeriod } from '../types';
+
+// Residency timeline and workday sourcing.
+// Equity compensation earned over a service period is sourced to the states where the
+// employee lived/worked during that period, in proportion to workdays in each.
+
+export interface StateShare {
+    state: string;
+    fraction: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Weekdays (Mon-Fri) in [start, end). Holidays are ignored; they cancel out in the ratios.
+ */
+export const countWorkdays = (start: Date, end: Date): number => {
+    const from = toDay(start);
+    const days = Math.round((toDay(end).getTime() - from.getTime()) / DAY_MS);
+    if (days <= 0) return 0;
+
+    const fullWeeks = Math.floor(days / 7);
+    let workdays = fullWeeks * 5;
+    const startDow = from.getDay();
+    for (let i = 0; i < days % 7; i++) {
+        const dow = (startDow + i) % 7;
+        if (dow !== 0 && dow !== 6) workdays++;
+    }
+    return workdays;
+};
+
+/**
+ * Residency periods sorted by start date. Clients without a history have a single
+ * open-ended period in `client.state`.
+ */
+export const getResidencyTimeline = (client: Client): ResidencyPeriod[] => {
+    const history = (client.residencyHistory || []).filter(p => p.state && p.startDate);
+    if (history.length === 0) return [{ state: client.state, startDate: '1900-01-01' }];
+    return [...history].sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+/**
+ * State of residence on a date. Dates before the first recorded move use the earliest state.
+ */
+export const getResidentState = (client: Client, date: Date): string => {
+    const timeline = getResidencyTimeline(client);
+    let resident = timeline[0].state;
+    for (const period of timeline) {
+        if (new Date(period.startDate) <= date) resident = period.state;
+    }
+    return resident;
+};
+
+/**
+ * Splits a service period (grant -> vest, grant -> exercise) across states by workdays.
+ * Fractions sum to 1; a zero-length period is sourced entirely to the state on `end`.
+ */
+export const allocateByWorkdays = (client: Client, start: Date, end: Date): StateShare[] => {
+    const timeline = getResidencyTimeline(client);
+    const workdays: Record<string, number> = {};
+
+    timeline.forEach((period, i) => {
+        const periodStart = i === 0 ? start : new Date(period.startDate);
+        const periodEnd = i + 1 < timeline.length ? new Date(timeline[i + 1].startDate) : end;
+        const from = periodStart > start ? periodStart : start;
+        const to = periodEnd < end ? periodEnd : end;
+        const days = countWorkdays(from, to);
+        if (days > 0) workdays[period.state] = (workdays[period.state] || 0) + days;
+    });
+
+    const total = Object.values(workdays).reduce((sum, d) => sum + d, 0);
+    if (total === 0) return [{ state: getResidentState(client, end), fraction: 1 }];
+
+    return Object.entries(workdays).map(([state, days]) => ({ state, fraction: days / total }));
+};
@@ -0,0 +1,223 @@
+import { Client, ISOScenario, LotSelectionMethod, PlannedSale, TaxBreakdown } from '../types';
+import { SaleIncome, calculateSaleTax } from './calculations';
+import { calculateESPPDisposition } from './espp';
+import { TaxLot, buildTaxLots } from './taxLots';
+
+// Choosing which shares to sell. Lots held on the sale date are ranked by the selection method
+// and sold in that order until the share count or after-tax cash target is met:
+//   Specific ID - the lots that keep the most after tax per share, e.g. long-term or qualifying
+//                 lots over short-term or disqualifying ones
+//   FIFO        - oldest first (what brokers default to)
+//   HIFO        - highest cost basis first, which minimizes the gain recognized
+// Each lot's sale is taxed on its own for ranking; the plan's tax nets the lots together.
+
+export const LOT_SELECTION_LABELS: Record<LotSelectionMethod, string> = {
+    specific_id: 'Specific ID (Best After-Tax)',
+    fifo: 'FIFO (Oldest First)',
+    hifo: 'HIFO (Highest Basis First)'
+};
+
+export type SaleTarget = 'cash' | 'shares';
+
+export interface LotSale {
+    lot: TaxLot;
+    shares: number;
+    scenario: ISOScenario; // Tax breakdown of selling these shares on their own
+    afterTaxProceeds: number;
+}
+
+export interface SalePlan {
+    saleDate: string;
+    salePrice: number;
+    method: LotSelectionMethod;
+    sales: LotSale[];
+    shares: number;
+    grossProceeds: number;
+    income: SaleIncome;
+    amtAdjustment: number; // Negative: ISO shares sold in a qualifying disposition have a higher AMT basis
+    taxes: TaxBreakdown; // Lots netted together
+    netProceeds: number;
+    shortfall: number; // Target not reached with the lots available
+}
+
+const getDisposition = (client: Client, lot: TaxLot, shares: number, salePrice: number, saleDate: string) => {
+    const proceeds = shares * salePrice;
+    const cost = shares * lot.costBasis;
+    const isLongTerm = saleDate >= lot.longTermDate;
+
+    const grant = client.grants.find(g => g.id === lot.grantId);
+    if (lot.source === 'purchase' && grant?.espp) {
+        const disposition = calculateESPPDisposition(grant.espp, {
+            date: lot.acquisitionDate,
+            fmvAtPurchase: lot.fmvAtAcquisition,
+            fmvAtOffering: lot.offeringFmv ?? lot.fmvAtAcquisition,
+            purchasePrice: lot.costBasis
+        }, shares, salePrice, saleDate);
+        return { ...disposition, qualifying: disposition.type === 'qualifying', amtAdjustment: 0 };
+    }
+
+    if (lot.isoShares) {
+        const qualifying = saleDate >= (lot.qualifyingDate || lot.longTermDate);
+        if (qualifying) {
+            // AMT gain is measured from FMV at exercise, so the preference reverses on sale
+            return { ordinaryIncome: 0, capitalGain: proceeds - cost, isLongTerm: true, qualifying, amtAdjustment: (lot.costBasis - lot.amtBasis) * shares };
+        }
+        // Disqualifying: the spread at exercise (capped at the actual gain) is ordinary income
+        const ordinaryIncome = Math.max(0, Math.min((lot.fmvAtAcquisition - lot.costBasis) * shares, proceeds - cost));
+        return { ordinaryIncome, capitalGain: proceeds - cost - ordinaryIncome, isLongTerm, qualifying, amtAdjustment: 0 };
+    }
+
+    return { ordinaryIncome: 0, capitalGain: proceeds - cost, isLongTerm, qualifying: undefined, amtAdjustment: 0 };
+};
+
+const toSaleIncome = ({ ordinaryIncome, capitalGain, isLongTerm }: { ordinaryIncome: number; capitalGain: number; isLongTerm: boolean }): SaleIncome => ({
+    ordinaryIncome,
+    shortTermGain: isLongTerm ? 0 : capitalGain,
+    longTermGain: isLongTerm ? capitalGain : 0
+});
+
+/**
+ * Tax on selling `shares` of `lot`, in the same form as calculateISOScenarios. ISO shares
+ * before their qualifying date and ESPP shares before theirs are disqualifying dispositions;
+ * everything else is a capital gain, long-term after more than a year.
+ */
+export const calculateLotSale = (client: Client, lot: TaxLot, shares: number, salePrice: number, saleDate: string): ISOScenario => {
+    const disposition = getDisposition(client, lot, shares, salePrice, saleDate);
+    const taxes = calculateSaleTax(client, saleDate, toSaleIncome(disposition));
+    const term = disposition.isLongTerm ? 'Long-Term' : 'Short-Term';
+
+    return {
+        name: disposition.qualifying === undefined
+            ? `${term} Sale`
+            : disposition.qualifying ? "Qualifying Disposition" : "Disqualifying Disposition",
+        description: disposition.qualifying === false
+            ? `Sold before ${lot.qualifyingDate}. The bargain element is ordinary income; the rest is a ${term.toLowerCase()} gain.`
+            : `${term} gain from a basis of $${lot.costBasis.toFixed(2)}/share.`,
+        exerciseDate: lot.acquisitionDate,
+        saleDate,
+        shares,
+        fmvAtExercise: lot.fmvAtAcquisition,
+        salePrice,
+        ordinaryIncome: disposition.ordinaryIncome,
+        capitalGain: disposition.capitalGain,
+        amtPreference: disposition.amtAdjustment,
+        taxes,
+        netProfit: shares * (salePrice - lot.costBasis) - taxes.totalTax
+    };
+};
+
+/**
+ * Lots in `grantIds` held on the sale date, less shares already set aside by planned sales.
+ */
+export const getSaleLots = (client: Client, grantIds: string[], saleDate: string, excludeSaleId?: string): TaxLot[] => {
+    const planned = new Map<string, number>();
+    (client.plannedSales || [])
+        .filter(s => s.id !== excludeSaleId)
+        .forEach(s => s.lots.forEach(l => planned.set(l.lotId, (planned.get(l.lotId) || 0) + l.shares)));
+
+    return buildTaxLots(client, new Date(saleDate))
+        .filter(lot => grantIds.includes(lot.grantId))
+        .map(lot => ({ ...lot, remainingShares: Math.max(0, lot.remainingShares - (planned.get(lot.id) || 0)) }))
+        .filter(lot => lot.remainingShares > 0);
+};
+
+/**
+ * Lots in the order the method sells them, each priced as if sold in full.
+ */
+export const rankLots = (client: Client, lots: TaxLot[], method: LotSelectionMethod, salePrice: number, saleDate: string): LotSale[] => {
+    const sales = lots.map(lot => {
+        const scenario = calculateLotSale(client, lot, lot.remainingShares, salePrice, saleDate);
+        return { lot, shares: lot.remainingShares, scenario, afterTaxProceeds: lot.remainingShares * salePrice - scenario.taxes.totalTax };
+    });
+    const byDate = (a: LotSale, b: LotSale) => a.lot.acquisitionDate.localeCompare(b.lot.acquisitionDate);
+
+    switch (method) {
+        case 'fifo':
+            return sales.sort(byDate);
+        case 'hifo':
+            return sales.sort((a, b) => b.lot.costBasis - a.lot.costBasis || byDate(a, b));
+        case 'specific_id':
+            return sales.sort((a, b) => b.afterTaxProceeds / b.shares - a.afterTaxProceeds / a.shares || byDate(a, b));
+    }
+};
+
+/**
+ * Sells ranked lots until `amount` shares, or `amount` dollars after tax, are raised. Whole
+ * shares are sold from each lot. Lot-by-lot estimates of the cash target are trued up against
+ * the netted tax until the plan covers it.
+ */
+export const planSale = (
+    client: Client,
+    lots: TaxLot[],
+    method: LotSelectionMethod,
+    target: SaleTarget,
+    amount: number,
+    salePrice: number,
+    saleDate: string
+): SalePlan => {
+    const ranked = rankLots(client, lots, method, salePrice, saleDate);
+
+    const build = (goal: number): SalePlan => {
+        let remaining = goal;
+        const sales: LotSale[] = [];
+        ranked.forEach(({ lot, shares: available, afterTaxProceeds }) => {
+            if (remaining <= 0) return;
+            const perShare = target === 'shares' ? 1 : afterTaxProceeds / available;
+            if (perShare <= 0) return;
+            const shares = Math.min(available, Math.ceil(remaining / perShare));
+            const scenario = calculateLotSale(client, lot, shares, salePrice, saleDate);
+            sales.push({ lot, shares, scenario, afterTaxProceeds: shares * salePrice - scenario.taxes.totalTax });
+            remaining -= shares * perShare;
+        });
+
+        const disposed = sales.map(s => getDisposition(client, s.lot, s.shares, salePrice, saleDate));
+        const income = disposed.map(toSaleIncome).reduce((sum, i) => ({
+            ordinaryIncome: sum.ordinaryIncome + i.ordinaryIncome,
+            shortTermGain: sum.shortTermGain + i.shortTermGain,
+            longTermGain: sum.longTermGain + i.longTermGain
+        }), { ordinaryIncome: 0, shortTermGain: 0, longTermGain: 0 });
+        const taxes = calculateSaleTax(client, saleDate, income);
+        const shares = sales.reduce((sum, s) => sum + s.shares, 0);
+        const grossProceeds = shares * salePrice;
+        const netProceeds = grossProceeds - taxes.totalTax;
+
+        return {
+            saleDate,
+            salePrice,
+            method,
+            sales,
+            shares,
+            grossProceeds,
+            income,
+            amtAdjustment: disposed.reduce((sum, d) => sum + d.amtAdjustment, 0),
+            taxes,
+            netProceeds,
+            shortfall: Math.max(0, amount - (target === 'shares' ? shares : netProceeds))
+        };
+    };
+
+    let plan = build(amount);
+    const totalShares = ranked.reduce((sum, s) => sum + s.shares, 0);
+    // Netting and bracket stacking move the tax a little from the lot-by-lot estimate
+    for (let goal = amount, i = 0; target === 'cash' && plan.shortfall > 0.5 && plan.shares < totalShares && i < 5; i++) {
+        goal += plan.shortfall;
+        plan = build(goal);
+    }
+    return plan;
+};
+
+/**
+ * The plan as saved next to the client's planned exercises.
+ */
+export const toPlannedSale = (plan: SalePlan, grantTicker: string, id: string): PlannedSale => ({
+    id,
+    grantTicker,
+    saleDate: plan.saleDate,
+    salePrice: plan.salePrice,
+    method: plan.method,
+    lots: plan.sales.map(s => ({ lotId: s.lot.id, grantId: s.lot.grantId, shares: s.shares })),
+    shares: plan.shares,
+    grossProceeds: plan.grossProceeds,
+    estimatedTax: plan.taxes.totalTax,
+    netProceeds: plan.netProceeds
+});
@@ -0,0 +1,314 @@
+import { FilingStatus, TaxBracket } from '../types';
+
+// State income tax schedules (2025 tables) for all 50 states + DC.
+// Brackets are written as [Upper Limit, Rate] tuples; the last limit is Infinity.
+
+type BracketTuple = [number, number];
+
+export interface StateCapitalGainsTax {
+    deduction: number; // Standard deduction against long-term gains
+    brackets: TaxBracket[];
+}
+
+export interface StateAMT {
+    rate: number;
+    exemption: Record<FilingStatus, number>;
+    phaseout: Record<FilingStatus, number>;
+    phaseoutRate: number;
+}
+
+export interface StateTaxSchedule {
+    code: string;
+    name: string;
+    brackets: Record<FilingStatus, TaxBracket[]>; // Empty when wages are not taxed
+    standardDeduction: Record<FilingStatus, number>; // Standard deduction + personal exemptions
+    taxesCapitalGainsAsOrdinary: boolean;
+    capitalGainsTax?: StateCapitalGainsTax; // Separate tax on long-term gains (e.g. Washington)
+    amt?: StateAMT;
+}
+
+export interface StateTaxableIncome {
+    ordinaryIncome: number; // Wages, RSU vests, NSO / disqualifying ISO spread
+    capitalGains: number; // Long-term gains
+    amtPreference: number; // ISO bargain element (state AMT only)
+}
+
+export interface StateTaxResult {
+    ordinaryTax: number;
+    capitalGainsTax: number;
+    amt: number;
+    totalTax: number;
+}
+
+const toBrackets = (tuples: BracketTuple[]): TaxBracket[] => tuples.map(([limit, rate]) => ({ limit, rate }));
+
+const NONE: TaxBracket[] = [];
+
+const flat = (rate: number): Record<FilingStatus, TaxBracket[]> => ({
+    single: [{ limit: Infinity, rate }],
+    married_joint: [{ limit: Infinity, rate }],
+    married_separate: [{ limit: Infinity, rate }],
+    head_of_household: [{ limit: Infinity, rate }]
+});
+
+// Separate filers use the single schedule; head of household does too unless the state publishes its own
+const graduated = (
+    single: BracketTuple[],
+    marriedJoint: BracketTuple[] = single,
+    headOfHousehold: BracketTuple[] = single
+): Record<FilingStatus, TaxBracket[]> => ({
+    single: toBrackets(single),
+    married_joint: toBrackets(marriedJoint),
+    married_separate: toBrackets(single),
+    head_of_household: toBrackets(headOfHousehold)
+});
+
+// Doubles single thresholds for joint filers (the common state pattern)
+const doubled = (single: BracketTuple[]): BracketTuple[] =>
+    single.map(([limit, rate]) => [limit === Infinity ? Infinity : limit * 2, rate]);
+
+const deduction = (single: number, marriedJoint: number = single * 2, headOfHousehold: number = single): Record<FilingStatus, number> => ({
+    single,
+    married_joint: marriedJoint,
+    married_separate: marriedJoint / 2,
+    head_of_household: headOfHousehold
+});
+
+const noIncomeTax = (code: string, name: string): StateTaxSchedule => ({
+    code,
+    name,
+    brackets: { single: NONE, married_joint: NONE, married_separate: NONE, head_of_household: NONE },
+    standardDeduction: deduction(0),
+    taxesCapitalGainsAsOrdinary: false
+});
+
+const state = (
+    code: string,
+    name: string,
+    brackets: Record<FilingStatus, TaxBracket[]>,
+    standardDeduction: Record<FilingStatus, number> = deduction(0),
+    extra: Partial<StateTaxSchedule> = {}
+): StateTaxSchedule => ({ code, name, brackets, standardDeduction, taxesCapitalGainsAsOrdinary: true, ...extra });
+
+const CA_BRACKETS_SINGLE: BracketTuple[] = [
+    [11079, 0.01], [26264, 0.02], [41452, 0.04], [57542, 0.06], [72724, 0.08],
+    [371479, 0.093], [445771, 0.103], [742953, 0.113],
+    [1000000, 0.123], [Infinity, 0.133] // 1% Mental Health Services surcharge over $1M
+];
+
+const CA_BRACKETS_JOINT: BracketTuple[] = [
+    [22158, 0.01], [52528, 0.02], [82904, 0.04], [115084, 0.06], [145448, 0.08],
+    [742958, 0.093], [891542, 0.103], [1000000, 0.113],
+    [1485906, 0.123], [Infinity, 0.133] // Surcharge threshold is not doubled for joint filers
+];
+
+const CA_BRACKETS_HOH: BracketTuple[] = [
+    [22173, 0.01], [52530, 0.02], [67716, 0.04], [83805, 0.06], [98990, 0.08],
+    [505208, 0.093], [606251, 0.103], [1000000, 0.113],
+    [1010417, 0.123], [Infinity, 0.133]
+];
+
+const SCHEDULES: StateTaxSchedule[] = [
+    state('AL', 'Alabama', graduated([[500, 0.02], [3000, 0.04], [Infinity, 0.05]], [[1000, 0.02], [6000, 0.04], [Infinity, 0.05]]), deduction(4000, 10500)),
+    noIncomeTax('AK', 'Alaska'),
+    state('AZ', 'Arizona', flat(0.025), deduction(15750)),
+    state('AR', 'Arkansas', graduated([[5499, 0], [10899, 0.02], [15599, 0.03], [25699, 0.034], [Infinity, 0.039]]), deduction(2410)),
+    state('CA', 'California', graduated(CA_BRACKETS_SINGLE, CA_BRACKETS_JOINT, CA_BRACKETS_HOH), deduction(5540, 11080, 11080), {
+        amt: {
+            rate: 0.07,
+            exemption: { single: 92749, married_joint: 123667, married_separate: 61832, head_of_household: 92749 },
+            phaseout: { single: 347748, married_joint: 463665, married_separate: 231830, head_of_household: 347748 },
+            phaseoutRate: 0.25
+        }
+    }),
+    state('CO', 'Colorado', flat(0.044), deduction(15750)),
+    state('CT', 'Connecticut', graduated(
+        [[10000, 0.02], [50000, 0.045], [100000, 0.055], [200000, 0.06], [250000, 0.065], [500000, 0.069], [Infinity, 0.0699]],
+        doubled([[10000, 0.02], [50000, 0.045], [100000, 0.055], [200000, 0.06], [250000, 0.065], [500000, 0.069], [Infinity, 0.0699]])
+    )),
+    state('DE', 'Delaware', graduated([[2000, 0], [5000, 0.022], [10000, 0.039], [20000, 0.048], [25000, 0.052], [60000, 0.0555], [Infinity, 0.066]]), deduction(3360)),
+    state('DC', 'District of Columbia', graduated([[10000, 0.04], [40000, 0.06], [60000, 0.065], [250000, 0.085], [500000, 0.0925], [1000000, 0.0975], [Infinity, 0.1075]]), deduction(15750)),
+    noIncomeTax('FL', 'Florida'),
+    state('GA', 'Georgia', flat(0.0519), deduction(12000)),
+    state('HI', 'Hawaii', graduated(
+        [[9600, 0.014], [14400, 0.032], [19200, 0.055], [24000, 0.064], [36000, 0.068], [48000, 0.072], [125000, 0.076], [175000, 0.079], [225000, 0.0825], [275000, 0.09], [325000, 0.10], [Infinity, 0.11]],
+        doubled([[9600, 0.014], [14400, 0.032], [19200, 0.055], [24000, 0.064], [36000, 0.068], [48000, 0.072], [125000, 0.076], [175000, 0.079], [225000, 0.0825], [275000, 0.09], [325000, 0.10], [Infinity, 0.11]])
+    ), deduction(5544)),
+    state('ID', 'Idaho', graduated([[4811, 0], [Infinity, 0.053]], [[9622, 0], [Infinity, 0.053]]), deduction(15750)),
+    state('IL', 'Illinois', flat(0.0495), deduction(2850)),
+    state('IN', 'Indiana', flat(0.03), deduction(1000)),
+    state('IA', 'Iowa', flat(0.038)),
+    state('KS', 'Kansas', graduated([[23000, 0.052], [Infinity, 0.0558]], [[46000, 0.052], [Infinity, 0.0558]]), deduction(12765, 24030)),
+    state('KY', 'Kentucky', flat(0.04), deduction(3270)),
+    state('LA', 'Louisiana', flat(0.03), deduction(12500)),
+    state('ME', 'Maine', graduated([[26800, 0.058], [63450, 0.0675], [Infinity, 0.0715]], [[53600, 0.058], [126900, 0.0675], [Infinity, 0.0715]]), deduction(20050)),
+    state('MD', 'Maryland', graduated(
+        [[1000, 0.02], [2000, 0.03], [3000, 0.04], [100000, 0.0475], [125000, 0.05], [150000, 0.0525], [250000, 0.055], [500000, 0.0575], [1000000, 0.0625], [Infinity, 0.065]],
+        [[1000, 0.02], [2000, 0.03], [3000, 0.04], [150000, 0.0475], [175000, 0.05], [225000, 0.0525], [300000, 0.055], [600000, 0.0575], [1200000, 0.0625], [Infinity, 0.065]]
+    ), deduction(6550, 13100)),
+    // 4% millionaire surtax; threshold is per return, not doubled
+    state('MA', 'Massachusetts', graduated([[1083150, 0.05], [Infinity, 0.09]]), deduction(4400, 8800)),
+    state('MI', 'Michigan', flat(0.0425), deduction(5800)),
+    state('MN', 'Minnesota', graduated(
+        [[32570, 0.0535], [106990, 0.068], [198630, 0.0785], [Infinity, 0.0985]],
+        [[47620, 0.0535], [189180, 0.068], [330410, 0.0785], [Infinity, 0.0985]]
+    ), deduction(14950)),
+    state('MS', 'Mississippi', graduated([[10000, 0], [Infinity, 0.044]]), deduction(8300, 16600)),
+    state('MO', 'Missouri', graduated([[1313, 0], [2626, 0.02], [3939, 0.025], [5252, 0.03], [6565, 0.035], [7878, 0.04], [9191, 0.045], [Infinity, 0.047]]), deduction(15750)),
+    state('MT', 'Montana', graduated([[21100, 0.047], [Infinity, 0.059]], [[42200, 0.047], [Infinity, 0.059]]), deduction(15750)),
+    state('NE', 'Nebraska', graduated(
+        [[4030, 0.0246], [24120, 0.0351], [38870, 0.0501], [Infinity, 0.052]],
+        [[8040, 0.0246], [48250, 0.0351], [77730, 0.0501], [Infinity, 0.052]]
+    ), deduction(8600)),
+    noIncomeTax('NV', 'Nevada'),
+    noIncomeTax('NH', 'New Hampshire'), // Interest & dividends tax repealed for 2025
+    state('NJ', 'New Jersey', graduated(
+        [[20000, 0.014], [35000, 0.0175], [40000, 0.035], [75000, 0.05525], [500000, 0.0637], [1000000, 0.0897], [Infinity, 0.1075]],
+        [[20000, 0.014], [50000, 0.0175], [70000, 0.0245], [80000, 0.035], [150000, 0.05525], [500000, 0.0637], [1000000, 0.0897], [Infinity, 0.1075]]
+    ), deduction(1000)),
+    state('NM', 'New Mexico', graduated(
+        [[5500, 0.015], [16500, 0.032], [33500, 0.043], [66500, 0.047], [210000, 0.049], [Infinity, 0.059]],
+        [[8000, 0.015], [25000, 0.032], [50000, 0.043], [100000, 0.047], [315000, 0.049], [Infinity, 0.059]]
+    ), deduction(15750)),
+    state('NY', 'New York', graduated(
+        [[8500, 0.04], [11700, 0.045], [13900, 0.0525], [80650, 0.055], [215400, 0.06], [1077550, 0.0685], [5000000, 0.0965], [25000000, 0.103], [Infinity, 0.109]],
+        [[17150, 0.04], [23600, 0.045], [27900, 0.0525], [161550, 0.055], [323200, 0.06], [2155350, 0.0685], [5000000, 0.0965], [25000000, 0.103], [Infinity, 0.109]],
+        [[12800, 0.04], [17650, 0.045], [20900, 0.0525], [107650, 0.055], [269300, 0.06], [1616450, 0.0685], [5000000, 0.0965], [25000000, 0.103], [Infinity, 0.109]]
+    ), deduction(8000, 16050, 11200)),
+    state('NC', 'North Carolina', flat(0.0425), deduction(12750)),
+    state('ND', 'North Dakota', graduated([[48475, 0], [244825, 0.0195], [Infinity, 0.025]], [[80975, 0], [298075, 0.0195], [Infinity, 0.025]]), deduction(15750)),
+    state('OH', 'Ohio', graduated([[26050, 0], [100000, 0.0275], [Infinity, 0.035]])),
+    state('OK', 'Oklahoma', graduated(
+        [[1000, 0.0025], [2500, 0.0075], [3750, 0.0175], [4900, 0.0275], [7200, 0.0375], [Infinity, 0.0475]],
+        doubled([[1000, 0.0025], [2500, 0.0075], [3750, 0.0175], [4900, 0.0275], [7200, 0.0375], [Infinity, 0.0475]])
+    ), deduction(7350)),
+    state('OR', 'Oregon', graduated(
+        [[4400, 0.0475], [11050, 0.0675], [125000, 0.0875], [Infinity, 0.099]],
+        [[8800, 0.0475], [22100, 0.0675], [250000, 0.0875], [Infinity, 0.099]]
+    ), deduction(2835)),
+    state('PA', 'Pennsylvania', flat(0.0307)),
+    state('RI', 'Rhode Island', graduated([[79900, 0.0375], [181650, 0.0475], [Infinity, 0.0599]]), deduction(15000, 30000)),
+    state('SC', 'South Carolina', graduated([[3560, 0], [17830, 0.03], [Infinity, 0.062]]), deduction(15750)),
+    noIncomeTax('SD', 'South Dakota'),
+    noIncomeTax('TN', 'Tennessee'),
+    noIncomeTax('TX', 'Texas'),
+    state('UT', 'Utah', flat(0.045)),
+    state('VT', 'Vermont', graduated(
+        [[47900, 0.0335], [116000, 0.066], [242000, 0.076], [Infinity, 0.0875]],
+        [[79950, 0.0335], [193300, 0.066], [294600, 0.076], [Infinity, 0.0875]]
+    ), deduction(12050)),
+    state('VA', 'Virginia', graduated([[3000, 0.02], [5000, 0.03], [17000, 0.05], [Infinity, 0.0575]]), deduction(9430)),
+    {
+        // No wage tax; 7% tax on long-term gains over the deduction, 9.9% over $1M
+        ...noIncomeTax('WA', 'Washington'),
+        capitalGainsTax: {
+            deduction: 278000,
+            brackets: toBrackets([[1000000, 0.07], [Infinity, 0.099]])
+        }
+    },
+    state('WV', 'West Virginia', graduated([[10000, 0.0222], [25000, 0.0296], [40000, 0.0333], [60000, 0.0444], [Infinity, 0.0482]]), deduction(2000)),
+    state('WI', 'Wisconsin', graduated(
+        [[14680, 0.035], [29370, 0.044], [323290, 0.053], [Infinity, 0.0765]],
+        [[19580, 0.035], [39150, 0.044], [431060, 0.053], [Infinity, 0.0765]]
+    ), deduction(13930, 25760)),
+    noIncomeTax('WY', 'Wyoming')
+];
+
+export const STATE_TAX_SCHEDULES: Record<string, StateTaxSchedule> = Object.fromEntries(SCHEDULES.map(s => [s.code, s]));
+
+// Legacy clients saved with the old 'Other' bucket keep a generic 5% flat tax
+const GENERIC_STATE_SCHEDULE: StateTaxSchedule = state('Other', 'Other', flat(0.05));
+
+export const STATE_OPTIONS = SCHEDULES
+    .map(s => ({ code: s.code, name: s.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const getStateSchedule = (code: string): StateTaxSchedule => STATE_TAX_SCHEDULES[code] || GENERIC_STATE_SCHEDULE;
+
+// Employer withholding rates on supplemental wages (bonuses, RSU vests, NSO exercises).
+// States without a published flat rate fall back to their top marginal rate.
+const STATE_SUPPLEMENTAL_WITHHOLDING_RATES: Record<string, number> = {
+    AL: 0.05, AR: 0.039, AZ: 0.025, CA: 0.1023, CO: 0.044, CT: 0.0699, GA: 0.0519, ID: 0.053,
+    IL: 0.0495, IN: 0.03, IA: 0.038, KS: 0.05, KY: 0.04, LA: 0.03, ME: 0.05, MD: 0.0575,
+    MA: 0.05, MI: 0.0425, MN: 0.0625, MO: 0.047, MT: 0.05, NE: 0.05, NM: 0.059, NY: 0.117,
+    NC: 0.0425, ND: 0.015, OH: 0.035, OR: 0.08, PA: 0.0307, RI: 0.0599, SC: 0.062, UT: 0.045,
+    VT: 0.066, VA: 0.0575
+};
+
+export const getSupplementalWithholdingRate = (code: string): number => {
+    if (STATE_SUPPLEMENTAL_WITHHOLDING_RATES[code] !== undefined) return STATE_SUPPLEMENTAL_WITHHOLDING_RATES[code];
+    const brackets = getStateSchedule(code).brackets.single;
+    return brackets.length > 0 ? brackets[brackets.length - 1].rate : 0;
+};
+
+const applyBrackets = (income: number, brackets: TaxBracket[]): number => {
+    let tax = 0;
+    let previousLimit = 0;
+    for (const bracket of brackets) {
+        if (income <= previousLimit) break;
+        tax += (Math.min(income, bracket.limit) - previousLimit) * bracket.rate;
+        previousLimit = bracket.limit;
+    }
+    return tax;
+};
+
+/**
+ * Full-year state tax on a client's income, including a separate capital-gains tax and state AMT.
+ */
+export const calculateStateTax = (code: string, status: FilingStatus, income: StateTaxableIncome): StateTaxResult => {
+    const schedule = getStateSchedule(code);
+    const brackets = schedule.brackets[status];
+
+    const taxableOrdinary = income.ordinaryIncome + (schedule.taxesCapitalGainsAsOrdinary ? income.capitalGains : 0);
+    const taxableIncome = Math.max(0, taxableOrdinary - schedule.standardDeduction[status]);
+    const ordinaryTax = applyBrackets(taxableIncome, brackets);
+
+    let capitalGainsTax = 0;
+    if (schedule.capitalGainsTax) {
+        const taxableGains = Math.max(0, income.capitalGains - schedule.capitalGainsTax.deduction);
+        capitalGainsTax = applyBrackets(taxableGains, schedule.capitalGainsTax.brackets);
+    }
+
+    let amt = 0;
+    if (schedule.amt) {
+        const amti = taxableIncome + Math.max(0, income.amtPreference);
+        const exemption = Math.max(0, schedule.amt.exemption[status] - Math.max(0, amti - schedule.amt.phaseout[status]) * schedule.amt.phaseoutRate);
+        const tentativeMinimumTax = Math.max(0, amti - exemption) * schedule.amt.rate;
+        amt = Math.max(0, tentativeMinimumTax - ordinaryTax);
+    }
+
+    return { ordinaryTax, capitalGainsTax, amt, totalTax: ordinaryTax + capitalGainsTax + amt };
+};
+
+/**
+ * State tax on `additional` income stacked on top of `base` income.
+ */
+export const calculateIncrementalStateTax = (
+    code: string,
+    status: FilingStatus,
+    base: StateTaxableIncome,
+    additional: Partial<StateTaxableIncome>
+): StateTaxResult => {
+    const before = calculateStateTax(code, status, base);
+    const after = calculateStateTax(code, status, {
+        ordinaryIncome: base.ordinaryIncome + (additional.ordinaryIncome || 0),
+        capitalGains: base.capitalGains + (additional.capitalGains || 0),
+        amtPreference: base.amtPreference + (additional.amtPreference || 0)
+    });
+    return {
+        ordinaryTax: after.ordinaryTax - before.ordinaryTax,
+        capitalGainsTax: after.capitalGainsTax - before.capitalGainsTax,
+        amt: after.amt - before.amt,
+        totalTax: after.totalTax - before.totalTax
+    };
+};
+
+/**
+ * Marginal state rate on the next dollar of ordinary income.
+ */
+export const getStateMarginalRate = (code: string, status: FilingStatus, ordinaryIncome: number): number => {
+    const schedule = getStateSchedule(code);
+    const taxableIncome = Math.max(0, ordinaryIncome - schedule.standardDeduction[status]);
+    const bracket = schedule.brackets[status].find(b => taxableIncome < b.limit);
+    return bracket ? bracket.rate : 0;
+};
@@ -0,0 +1,218 @@
+import { Client, GrantType } from '../types';
+import { generateClientVestingSchedule, getExerciseSplit } from './calculations';
+import { getQualifyingDispositionDate } from './espp';
+import { getAllExercises, getTransactions } from './ledger';
+
+// Shares held, lot by lot. Lots are created when shares are acquired on or before the valuation
+// date: vests (and double-trigger settlements or RSA 83(b) elections) and ESPP purchases, recorded
+// or projected, and option exercises recorded in the ledger (planned ones are still only plans,
+// as in getGrantStatus). Vests keep the shares left after sell-to-cover. Recorded sales then use
+// up each grant's lots, oldest first unless the sale names its lot.
+//
+// Basis is what was paid plus any income already taxed: FMV at vest for stock grants and NSO
+// exercises, the price paid for ESPP shares and ISOs. ISO shares also carry an AMT basis of FMV
+// at exercise, since the spread was an AMT preference.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TaxLotSource = 'vest' | 'settlement' | 'election_83b' | 'purchase' | 'exercise';
+
+export interface TaxLot {
+    id: string;
+    grantId: string;
+    grantType: GrantType;
+    source: TaxLotSource;
+    acquisitionDate: string; // Starts the holding period
+    shares: number; // Acquired, net of shares withheld for taxes
+    remainingShares: number; // After recorded sales
+    fmvAtAcquisition: number; // Per share
+    costBasis: number; // Per share, regular tax
+    amtBasis: number; // Per share; differs from costBasis only for ISO shares
+    isoShares: boolean; // ISO exercise (not ISO shares over the $100k limit)
+    longTermDate: string; // First sale date taxed as long-term (held more than a year)
+    qualifyingDate?: string; // ISO / ESPP: first qualifying disposition date
+    offeringFmv?: number; // ESPP: offering-date FMV, which caps ordinary income on a qualifying sale
+    isActual: boolean; // From the ledger rather than a projection
+}
+
+export interface TaxLotValuation {
+    lot: TaxLot;
+    price: number;
+    marketValue: number;
+    unrealizedGain: number; // Regular tax
+    amtUnrealizedGain: number;
+    isLongTerm: boolean;
+    isQualifying?: boolean; // ISO / ESPP lots only
+    daysToLongTerm: number; // 0 once long-term
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const addYears = (date: string, years: number): string => {
+    const d = new Date(date);
+    d.setFullYear(d.getFullYear() + years);
+    return toDateString(d);
+};
+
+const dayAfter = (date: string): string => toDateString(new Date(new Date(date).getTime() + DAY_MS));
+
+/**
+ * Long-term treatment needs a holding period of more than one year (IRC 1222).
+ */
+export const getLongTermDate = (acquisitionDate: string): string => dayAfter(addYears(acquisitionDate, 1));
+
+/**
+ * ISO shares sold more than 2 years after grant and more than 1 year after exercise are a
+ * qualifying disposition (IRC 422(a)(1)).
+ */
+export const getISOQualifyingDate = (grantDate: string, exerciseDate: string): string => {
+    const twoYears = addYears(grantDate, 2);
+    const oneYear = addYears(exerciseDate, 1);
+    return dayAfter(twoYears > oneYear ? twoYears : oneYear);
+};
+
+/**
+ * Every lot acquired on or before `asOf`, with shares remaining after recorded sales.
+ */
+export const buildTaxLots = (client: Client, asOf: Date = new Date()): TaxLot[] => {
+    const cutoff = toDateString(asOf);
+
+    // Stock grant vests, double-trigger settlements, 83(b) elections and ESPP purchases
+    const eventLots: TaxLot[] = generateClientVestingSchedule(client)
+        .filter(e => e.date <= cutoff && e.shares > 0 &&
+            (e.eventType === 'vest' || e.eventType === 'settlement' || e.eventType === 'election_83b' || e.eventType === 'purchase'))
+        .flatMap(e => {
+            const grant = client.grants.find(g => g.id === e.grantId);
+            if (!grant || grant.type === 'ISO' || grant.type === 'NSO') return [];
+
+            if (e.eventType === 'purchase') {
+                const purchasePrice = e.purchasePrice || 0;
+                return [{
+                    id: `${grant.id}-purchase-${e.date}`,
+                    grantId: grant.id,
+                    grantType: grant.type,
+                    source: 'purchase' as const,
+                    acquisitionDate: e.date,
+                    shares: e.shares,
+                    remainingShares: e.shares,
+                    fmvAtAcquisition: e.netValue / e.shares,
+                    costBasis: purchasePrice,
+                    amtBasis: purchasePrice,
+                    isoShares: false,
+                    longTermDate: getLongTermDate(e.date),
+                    qualifyingDate: grant.espp ? getQualifyingDispositionDate(grant.espp, e.date) : undefined,
+                    offeringFmv: e.offeringFmv,
+                    isActual: false
+                }];
+            }
+
+            // Taxed spread plus any price paid (RSAs) is the FMV on the taxable date. A recorded
+            // vest keeps the id of the projected vest it replaced, so planned sales stay linked
+            const fmv = e.grossValue / e.shares + (grant.strikePrice || 0);
+            return [{
+                id: e.transactionId && !e.scheduledDate ? e.transactionId : `${grant.id}-${e.eventType}-${e.scheduledDate || e.date}`,
+                grantId: grant.id,
+                grantType: grant.type,
+                source: e.eventType as TaxLotSource,
+                acquisitionDate: e.date,
+                shares: e.netShares,
+                remainingShares: e.netShares,
+                fmvAtAcquisition: fmv,
+                costBasis: fmv,
+                amtBasis: fmv,
+                isoShares: false,
+                longTermDate: getLongTermDate(e.date),
+                isActual: !!e.transactionId
+            }];
+        });
+
+    // Recorded option exercises, split into ISO shares and shares taxed as NSOs
+    const recorded = new Map(getTransactions(client, 'exercise').map(t => [t.id, t]));
+    const exerciseLots: TaxLot[] = getAllExercises(client)
+        .filter(p => recorded.has(p.id) && p.exerciseDate <= cutoff && p.shares > 0)
+        .flatMap(p => {
+            const grant = client.grants.find(g => g.id === p.grantId);
+            if (!grant) return [];
+            const { isoShares, nsoShares } = getExerciseSplit(client, p);
+            const nsoHeld = Math.max(0, nsoShares - (recorded.get(p.id)?.sharesWithheld || 0));
+            const lot = {
+                grantId: grant.id,
+                grantType: grant.type,
+                source: 'exercise' as const,
+                acquisitionDate: p.exerciseDate,
+                fmvAtAcquisition: p.fmvAtExercise,
+                longTermDate: getLongTermDate(p.exerciseDate),
+                isActual: true
+            };
+            return [
+                ...(isoShares > 0 ? [{
+                    ...lot,
+                    id: `${p.id}-iso`,
+                    shares: isoShares,
+                    remainingShares: isoShares,
+                    costBasis: p.exercisePrice,
+                    amtBasis: p.fmvAtExercise,
+                    isoShares: true,
+                    qualifyingDate: getISOQualifyingDate(grant.grantDate, p.exerciseDate)
+                }] : []),
+                ...(nsoHeld > 0 ? [{
+                    ...lot,
+                    id: `${p.id}-nso`,
+                    shares: nsoHeld,
+                    remainingShares: nsoHeld,
+                    costBasis: p.fmvAtExercise,
+                    amtBasis: p.fmvAtExercise,
+                    isoShares: false
+                }] : [])
+            ];
+        });
+
+    const lots = [...eventLots, ...exerciseLots].sort((a, b) => a.acquisitionDate.localeCompare(b.acquisitionDate));
+
+    // Recorded sales use up the named lot, otherwise the grant's lots first-in first-out
+    getTransactions(client, 'sale')
+        .filter(t => t.date <= cutoff)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(sale => {
+            let remaining = sale.shares;
+            lots
+                .filter(l => sale.lotId ? l.id === sale.lotId : l.grantId === sale.grantId && l.acquisitionDate <= sale.date)
+                .forEach(lot => {
+                    const sold = Math.min(lot.remainingShares, remaining);
+                    lot.remainingShares -= sold;
+                    remaining -= sold;
+                });
+        });
+
+    return lots;
+};
+
+/**
+ * A lot at `price` on `asOf`: market value, unrealized gain for regular tax and AMT, and where
+ * it stands on its holding periods.
+ */
+export const valueTaxLot = (lot: TaxLot, price: number, asOf: Date = new Date()): TaxLotValuation => {
+    const date = toDateString(asOf);
+    const marketValue = lot.remainingShares * price;
+    return {
+        lot,
+        price,
+        marketValue,
+        unrealizedGain: marketValue - lot.remainingShares * lot.costBasis,
+        amtUnrealizedGain: marketValue - lot.remainingShares * lot.amtBasis,
+        isLongTerm: date >= lot.longTermDate,
+        isQualifying: lot.qualifyingDate ? date >= lot.qualifyingDate : undefined,
+        daysToLongTerm: Math.max(0, Math.ceil((new Date(lot.longTermDate).getTime() - new Date(date).getTime()) / DAY_MS))
+    };
+};
+
+/**
+ * Lots with shares left, valued at each grant's current price.
+ */
+export const getHoldings = (client: Client, asOf: Date = new Date()): TaxLotValuation[] =>
+    buildTaxLots(client, asOf)
+        .filter(lot => lot.remainingShares > 0)
+        .flatMap(lot => {
+            const grant = client.grants.find(g => g.id === lot.grantId);
+            return grant ? [valueTaxLot(lot, grant.currentPrice, asOf)] : [];
+        });
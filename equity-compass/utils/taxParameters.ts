@@ -0,0 +1,368 @@
+import { FilingStatus, TaxBracket, TaxRegime } from '../types';
+
+// Federal tax parameter registry, keyed by tax year and policy regime.
+// Every federal calculation reads its brackets, deductions and AMT figures from here.
+
+export interface AMTTable {
+    exemption: number;
+    phaseout: number; // AMTI where the exemption starts phasing out
+    phaseoutRate: number; // Exemption reduction per dollar over the phaseout
+    rateBreakpoint: number; // 26% -> 28%
+}
+
+export interface TaxYearParameters {
+    year: number;
+    regime: TaxRegime;
+    brackets: Record<FilingStatus, TaxBracket[]>;
+    ltcgBrackets: Record<FilingStatus, TaxBracket[]>;
+    standardDeduction: Record<FilingStatus, number>;
+    personalExemption: number;
+    saltCap: number; // Infinity when uncapped
+    saltCapPhaseoutStart: number; // MAGI where the cap starts shrinking (30% of excess)
+    saltCapFloor: number;
+    amt: Record<FilingStatus, AMTTable>;
+    socialSecurityWageBase: number;
+    additionalMedicareThreshold: Record<FilingStatus, number>; // Not inflation indexed
+    niitThreshold: Record<FilingStatus, number>; // MAGI threshold, not inflation indexed
+    supplementalWithholding: SupplementalWithholding;
+}
+
+export interface SupplementalWithholding {
+    rate: number; // Optional flat rate on supplemental wages
+    mandatoryRate: number; // Required on YTD supplemental wages over the threshold
+    mandatoryThreshold: number;
+}
+
+// Flat supplemental rates track the 3rd-highest and top ordinary brackets
+const TCJA_SUPPLEMENTAL: SupplementalWithholding = { rate: 0.22, mandatoryRate: 0.37, mandatoryThreshold: 1000000 };
+const PRE_TCJA_SUPPLEMENTAL: SupplementalWithholding = { rate: 0.25, mandatoryRate: 0.396, mandatoryThreshold: 1000000 };
+
+// Statutory thresholds shared by every year and regime
+const ADDITIONAL_MEDICARE_THRESHOLD: Record<FilingStatus, number> = { single: 200000, married_joint: 250000, married_separate: 125000, head_of_household: 200000 };
+const NIIT_THRESHOLD: Record<FilingStatus, number> = { single: 200000, married_joint: 250000, married_separate: 125000, head_of_household: 200000 };
+
+export const FILING_STATUSES: { value: FilingStatus; label: string; abbreviation: string }[] = [
+    { value: 'single', label: 'Single', abbreviation: 'Single' },
+    { value: 'married_joint', label: 'Married Filing Jointly', abbreviation: 'MFJ' },
+    { value: 'married_separate', label: 'Married Filing Separately', abbreviation: 'MFS' },
+    { value: 'head_of_household', label: 'Head of Household', abbreviation: 'HoH' }
+];
+
+export const TAX_REGIMES: { value: TaxRegime; label: string; description: string }[] = [
+    { value: 'current_law', label: 'Current Law', description: 'TCJA rates made permanent, $40k SALT cap, AMT phaseout reset to $500k/$1M at 50%.' },
+    { value: 'tcja_sunset', label: 'TCJA Sunset', description: 'Pre-2018 brackets, personal exemptions and uncapped SALT from 2026.' }
+];
+
+// --- 2025 (TCJA in force under either regime) ---
+
+const PARAMS_2025: Omit<TaxYearParameters, 'regime'> = {
+    year: 2025,
+    brackets: {
+        single: [
+            { limit: 11925, rate: 0.10 },
+            { limit: 48475, rate: 0.12 },
+            { limit: 103350, rate: 0.22 },
+            { limit: 197300, rate: 0.24 },
+            { limit: 250525, rate: 0.32 },
+            { limit: 626350, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        married_joint: [
+            { limit: 23850, rate: 0.10 },
+            { limit: 96950, rate: 0.12 },
+            { limit: 206700, rate: 0.22 },
+            { limit: 394600, rate: 0.24 },
+            { limit: 501050, rate: 0.32 },
+            { limit: 751600, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        married_separate: [
+            { limit: 11925, rate: 0.10 },
+            { limit: 48475, rate: 0.12 },
+            { limit: 103350, rate: 0.22 },
+            { limit: 197300, rate: 0.24 },
+            { limit: 250525, rate: 0.32 },
+            { limit: 375800, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        head_of_household: [
+            { limit: 17000, rate: 0.10 },
+            { limit: 64850, rate: 0.12 },
+            { limit: 103350, rate: 0.22 },
+            { limit: 197300, rate: 0.24 },
+            { limit: 250500, rate: 0.32 },
+            { limit: 626350, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ]
+    },
+    ltcgBrackets: {
+        single: [
+            { limit: 48350, rate: 0 },
+            { limit: 533400, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_joint: [
+            { limit: 96700, rate: 0 },
+            { limit: 600050, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_separate: [
+            { limit: 48350, rate: 0 },
+            { limit: 300000, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        head_of_household: [
+            { limit: 64750, rate: 0 },
+            { limit: 566700, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ]
+    },
+    standardDeduction: { single: 15750, married_joint: 31500, married_separate: 15750, head_of_household: 23625 },
+    personalExemption: 0,
+    saltCap: 40000,
+    saltCapPhaseoutStart: 500000,
+    saltCapFloor: 10000,
+    amt: {
+        single: { exemption: 88100, phaseout: 626350, phaseoutRate: 0.25, rateBreakpoint: 239100 },
+        married_joint: { exemption: 137000, phaseout: 1252700, phaseoutRate: 0.25, rateBreakpoint: 239100 },
+        married_separate: { exemption: 68500, phaseout: 626350, phaseoutRate: 0.25, rateBreakpoint: 119550 },
+        head_of_household: { exemption: 88100, phaseout: 626350, phaseoutRate: 0.25, rateBreakpoint: 239100 }
+    },
+    socialSecurityWageBase: 176100,
+    additionalMedicareThreshold: ADDITIONAL_MEDICARE_THRESHOLD,
+    niitThreshold: NIIT_THRESHOLD,
+    supplementalWithholding: TCJA_SUPPLEMENTAL
+};
+
+// --- 2026 CURRENT LAW (Permanent TCJA rates, indexed) ---
+
+const CURRENT_LAW_2026: TaxYearParameters = {
+    year: 2026,
+    regime: 'current_law',
+    brackets: {
+        single: [
+            { limit: 12400, rate: 0.10 },
+            { limit: 50400, rate: 0.12 },
+            { limit: 105700, rate: 0.22 },
+            { limit: 201775, rate: 0.24 },
+            { limit: 256225, rate: 0.32 },
+            { limit: 640600, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        married_joint: [
+            { limit: 24800, rate: 0.10 },
+            { limit: 100800, rate: 0.12 },
+            { limit: 211400, rate: 0.22 },
+            { limit: 403550, rate: 0.24 },
+            { limit: 512450, rate: 0.32 },
+            { limit: 768700, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        married_separate: [
+            { limit: 12400, rate: 0.10 },
+            { limit: 50400, rate: 0.12 },
+            { limit: 105700, rate: 0.22 },
+            { limit: 201775, rate: 0.24 },
+            { limit: 256225, rate: 0.32 },
+            { limit: 384350, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ],
+        head_of_household: [
+            { limit: 17700, rate: 0.10 },
+            { limit: 67450, rate: 0.12 },
+            { limit: 105700, rate: 0.22 },
+            { limit: 201750, rate: 0.24 },
+            { limit: 256200, rate: 0.32 },
+            { limit: 640600, rate: 0.35 },
+            { limit: Infinity, rate: 0.37 }
+        ]
+    },
+    ltcgBrackets: {
+        single: [
+            { limit: 49450, rate: 0 },
+            { limit: 545500, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_joint: [
+            { limit: 98900, rate: 0 },
+            { limit: 613700, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_separate: [
+            { limit: 49450, rate: 0 },
+            { limit: 306850, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        head_of_household: [
+            { limit: 66200, rate: 0 },
+            { limit: 579600, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ]
+    },
+    standardDeduction: { single: 16100, married_joint: 32200, married_separate: 16100, head_of_household: 24150 },
+    personalExemption: 0,
+    saltCap: 40400,
+    saltCapPhaseoutStart: 505000,
+    saltCapFloor: 10000,
+    amt: {
+        single: { exemption: 90100, phaseout: 500000, phaseoutRate: 0.50, rateBreakpoint: 244500 },
+        married_joint: { exemption: 140200, phaseout: 1000000, phaseoutRate: 0.50, rateBreakpoint: 244500 },
+        married_separate: { exemption: 70100, phaseout: 500000, phaseoutRate: 0.50, rateBreakpoint: 122250 },
+        head_of_household: { exemption: 90100, phaseout: 500000, phaseoutRate: 0.50, rateBreakpoint: 244500 }
+    },
+    socialSecurityWageBase: 184500,
+    additionalMedicareThreshold: ADDITIONAL_MEDICARE_THRESHOLD,
+    niitThreshold: NIIT_THRESHOLD,
+    supplementalWithholding: TCJA_SUPPLEMENTAL
+};
+
+// --- 2026 PROJECTIONS (TCJA SUNSET SCENARIO) ---
+
+const SUNSET_2026: TaxYearParameters = {
+    year: 2026,
+    regime: 'tcja_sunset',
+    // Reverting to pre-2018 structure
+    brackets: {
+        single: [
+            { limit: 11600, rate: 0.10 },
+            { limit: 47150, rate: 0.15 },
+            { limit: 114650, rate: 0.25 },
+            { limit: 239200, rate: 0.28 },
+            { limit: 519900, rate: 0.33 },
+            { limit: 522000, rate: 0.35 },
+            { limit: Infinity, rate: 0.396 }
+        ],
+        married_joint: [
+            { limit: 23200, rate: 0.10 },
+            { limit: 94300, rate: 0.15 },
+            { limit: 190200, rate: 0.25 },
+            { limit: 289900, rate: 0.28 },
+            { limit: 519900, rate: 0.33 },
+            { limit: 589150, rate: 0.35 },
+            { limit: Infinity, rate: 0.396 }
+        ],
+        married_separate: [
+            { limit: 11600, rate: 0.10 },
+            { limit: 47150, rate: 0.15 },
+            { limit: 95100, rate: 0.25 },
+            { limit: 144950, rate: 0.28 },
+            { limit: 259950, rate: 0.33 },
+            { limit: 294575, rate: 0.35 },
+            { limit: Infinity, rate: 0.396 }
+        ],
+        head_of_household: [
+            { limit: 16550, rate: 0.10 },
+            { limit: 63100, rate: 0.15 },
+            { limit: 163000, rate: 0.25 },
+            { limit: 264400, rate: 0.28 },
+            { limit: 519900, rate: 0.33 },
+            { limit: 555500, rate: 0.35 },
+            { limit: Infinity, rate: 0.396 }
+        ]
+    },
+    // 0% / 15% / 20% breakpoints follow the pre-2018 ordinary brackets
+    ltcgBrackets: {
+        single: [
+            { limit: 47150, rate: 0 },
+            { limit: 522000, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_joint: [
+            { limit: 94300, rate: 0 },
+            { limit: 589150, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        married_separate: [
+            { limit: 47150, rate: 0 },
+            { limit: 294575, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ],
+        head_of_household: [
+            { limit: 63100, rate: 0 },
+            { limit: 555500, rate: 0.15 },
+            { limit: Infinity, rate: 0.20 }
+        ]
+    },
+    // Approx half of 2025
+    standardDeduction: { single: 8300, married_joint: 16600, married_separate: 8300, head_of_household: 12150 },
+    // Personal Exemption reinstated
+    personalExemption: 5300,
+    saltCap: Infinity,
+    saltCapPhaseoutStart: Infinity,
+    saltCapFloor: 0,
+    // The Cliff
+    amt: {
+        single: { exemption: 64400, phaseout: 140300, phaseoutRate: 0.25, rateBreakpoint: 220700 },
+        married_joint: { exemption: 100500, phaseout: 280600, phaseoutRate: 0.25, rateBreakpoint: 220700 },
+        married_separate: { exemption: 50250, phaseout: 140300, phaseoutRate: 0.25, rateBreakpoint: 110350 },
+        head_of_household: { exemption: 64400, phaseout: 140300, phaseoutRate: 0.25, rateBreakpoint: 220700 }
+    },
+    // Payroll taxes are unaffected by the sunset
+    socialSecurityWageBase: 184500,
+    additionalMedicareThreshold: ADDITIONAL_MEDICARE_THRESHOLD,
+    niitThreshold: NIIT_THRESHOLD,
+    supplementalWithholding: PRE_TCJA_SUPPLEMENTAL
+};
+
+const INFLATION_INDEX_2027 = 1.025; // Assumed chained-CPI adjustment
+
+const indexBrackets = (brackets: TaxBracket[], factor: number): TaxBracket[] =>
+    brackets.map(b => ({ ...b, limit: b.limit === Infinity ? Infinity : Math.round(b.limit * factor / 50) * 50 }));
+
+const indexStatusTable = <T>(table: Record<FilingStatus, T>, fn: (v: T) => T): Record<FilingStatus, T> =>
+    Object.fromEntries(Object.entries(table).map(([status, value]) => [status, fn(value as T)])) as Record<FilingStatus, T>;
+
+/**
+ * Projects a later year by inflation-indexing the dollar thresholds of a base year.
+ */
+const projectYear = (base: TaxYearParameters, year: number, factor: number): TaxYearParameters => ({
+    ...base,
+    year,
+    brackets: indexStatusTable(base.brackets, b => indexBrackets(b, factor)),
+    ltcgBrackets: indexStatusTable(base.ltcgBrackets, b => indexBrackets(b, factor)),
+    standardDeduction: indexStatusTable(base.standardDeduction, v => Math.round(v * factor / 50) * 50),
+    personalExemption: Math.round(base.personalExemption * factor / 50) * 50,
+    saltCap: base.saltCap === Infinity ? Infinity : Math.round(base.saltCap * 1.01), // Statutory 1% annual increase
+    saltCapPhaseoutStart: base.saltCapPhaseoutStart === Infinity ? Infinity : Math.round(base.saltCapPhaseoutStart * 1.01),
+    amt: indexStatusTable(base.amt, a => ({
+        ...a,
+        exemption: Math.round(a.exemption * factor / 100) * 100,
+        phaseout: Math.round(a.phaseout * factor / 100) * 100,
+        rateBreakpoint: Math.round(a.rateBreakpoint * factor / 100) * 100
+    })),
+    socialSecurityWageBase: Math.round(base.socialSecurityWageBase * factor / 300) * 300
+});
+
+const TAX_PARAMETER_REGISTRY: Record<TaxRegime, Record<number, TaxYearParameters>> = {
+    current_law: {
+        2025: { ...PARAMS_2025, regime: 'current_law' },
+        2026: CURRENT_LAW_2026,
+        2027: projectYear(CURRENT_LAW_2026, 2027, INFLATION_INDEX_2027)
+    },
+    tcja_sunset: {
+        2025: { ...PARAMS_2025, regime: 'tcja_sunset' },
+        2026: SUNSET_2026,
+        2027: projectYear(SUNSET_2026, 2027, INFLATION_INDEX_2027)
+    }
+};
+
+export const DEFAULT_TAX_REGIME: TaxRegime = 'current_law';
+
+// Stored clients may carry a regime this build no longer has (renamed, or a typo)
+export const resolveTaxRegime = (regime: TaxRegime): TaxRegime =>
+    regime in TAX_PARAMETER_REGISTRY ? regime : DEFAULT_TAX_REGIME;
+
+export const getAvailableTaxYears = (regime: TaxRegime = DEFAULT_TAX_REGIME): number[] =>
+    Object.keys(TAX_PARAMETER_REGISTRY[resolveTaxRegime(regime)]).map(Number).sort((a, b) => a - b);
+
+/**
+ * Looks up parameters for a year and regime. Years outside the table are clamped
+ * to the nearest available year (no further inflation indexing is assumed), and an
+ * unknown regime falls back to the default.
+ */
+export const getTaxParameters = (year: number, regime: TaxRegime = DEFAULT_TAX_REGIME): TaxYearParameters => {
+    const resolved = resolveTaxRegime(regime);
+    const years = getAvailableTaxYears(resolved);
+    const clamped = Math.min(Math.max(year, years[0]), years[years.length - 1]);
+    return TAX_PARAMETER_REGISTRY[resolved][clamped];
+};
@@ -0,0 +1,60 @@
+import { Client, Grant, PlannedExercise } from '../types';
+import { getExpirationDate } from './expiration';
+
+// Leaving an employer: shares that have not vested by the termination date are forfeited,
+// vested options stay exercisable only for the plan's post-termination exercise period, and
+// an ISO exercised more than three months after termination no longer qualifies and is taxed
+// as an NSO (IRC 422(a)(2)).
+
+export const ISO_POST_TERMINATION_DAYS = 90;
+export const DEFAULT_POST_TERMINATION_EXERCISE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number): string =>
+    new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * A grant's own termination date (a job at another employer) wins over the client scenario.
+ */
+export const getTerminationDate = (client: Client, grant: Grant): string | undefined =>
+    grant.terminationDate || client.terminationDate;
+
+export const isForfeited = (date: Date, terminationDate?: string): boolean =>
+    !!terminationDate && date > new Date(terminationDate);
+
+/**
+ * Last day vested options can be exercised before they lapse (never past the option term).
+ */
+export const getExerciseDeadline = (grant: Grant, terminationDate: string): string => {
+    const deadline = addDays(terminationDate, grant.postTerminationExerciseDays ?? DEFAULT_POST_TERMINATION_EXERCISE_DAYS);
+    const expirationDate = getExpirationDate(grant);
+    return expirationDate && expirationDate < deadline ? expirationDate : deadline;
+};
+
+/**
+ * Last day an ISO can be exercised and keep its ISO treatment.
+ */
+export const getISODeadline = (terminationDate: string): string =>
+    addDays(terminationDate, ISO_POST_TERMINATION_DAYS);
+
+/**
+ * How a planned exercise is taxed: an ISO exercised after the ISO deadline is an NSO.
+ */
+export const getExerciseTaxType = (client: Client, plan: PlannedExercise): PlannedExercise['type'] => {
+    if (plan.type !== 'ISO') return plan.type;
+    const grant = client.grants.find(g => g.id === plan.grantId);
+    const terminationDate = grant && getTerminationDate(client, grant);
+    return terminationDate && plan.exerciseDate > getISODeadline(terminationDate) ? 'NSO' : 'ISO';
+};
+
+/**
+ * Planned exercise dated after the options lapsed, on termination or at the end of their term.
+ */
+export const isExpiredExercise = (client: Client, plan: PlannedExercise): boolean => {
+    const grant = client.grants.find(g => g.id === plan.grantId);
+    if (!grant) return false;
+    const terminationDate = getTerminationDate(client, grant);
+    const deadline = terminationDate ? getExerciseDeadline(grant, terminationDate) : getExpirationDate(grant);
+    return !!deadline && plan.exerciseDate > deadline;
+};
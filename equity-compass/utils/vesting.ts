@@ -0,0 +1,134 @@
+import { VestingScheduleType, VestingTrancheDefinition } from '../types';
+
+// Vesting schedule definitions: explicit tranches by date, each a percentage of the grant or
+// a fixed share count, plus templates that generate the common patterns from a grant date.
+
+export interface ResolvedTranche {
+    date: Date;
+    shares: number;
+}
+
+export interface VestingTemplate {
+    id: string;
+    label: string;
+    description: string;
+    build: (grantDate: string) => VestingTrancheDefinition[];
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+export const addMonths = (date: Date, months: number): Date => {
+    const d = new Date(date);
+    d.setMonth(d.getMonth() + months);
+    return d;
+};
+
+// Equal slices of `percent` every `intervalMonths`, `count` times, starting one interval after `start`
+const evenTranches = (start: Date, intervalMonths: number, count: number, percent: number): VestingTrancheDefinition[] =>
+    Array.from({ length: count }, (_, i) => ({
+        date: toDateString(addMonths(start, (i + 1) * intervalMonths)),
+        percent: percent / count
+    }));
+
+const cliffThen = (grantDate: string, cliffMonths: number, cliffPercent: number, intervalMonths: number, count: number): VestingTrancheDefinition[] => {
+    const cliff = addMonths(new Date(grantDate), cliffMonths);
+    return [{ date: toDateString(cliff), percent: cliffPercent }, ...evenTranches(cliff, intervalMonths, count, 100 - cliffPercent)];
+};
+
+// Company-wide vest dates (month, day) used by many public companies
+const COMPANY_VEST_DATES: [number, number][] = [[1, 15], [4, 15], [7, 15], [10, 15]]; // Feb/May/Aug/Nov 15 (0-based months)
+
+const companyDatesFrom = (from: Date, count: number): Date[] => {
+    const dates: Date[] = [];
+    for (let year = from.getFullYear(); dates.length < count; year++) {
+        for (const [month, day] of COMPANY_VEST_DATES) {
+            const d = new Date(year, month, day);
+            if (d >= from && dates.length < count) dates.push(d);
+        }
+    }
+    return dates;
+};
+
+export const VESTING_TEMPLATES: VestingTemplate[] = [
+    {
+        id: 'standard_4y_1y_cliff',
+        label: '4 Years, 1-Year Cliff, Quarterly',
+        description: '25% after 1 year, then 1/16th quarterly.',
+        build: (grantDate) => cliffThen(grantDate, 12, 25, 3, 12)
+    },
+    {
+        id: 'standard_4y_quarterly',
+        label: '4 Years, Quarterly',
+        description: '1/16th every quarter starting 3 months after grant.',
+        build: (grantDate) => evenTranches(new Date(grantDate), 3, 16, 100)
+    },
+    {
+        id: '4y_1y_cliff_monthly',
+        label: '4 Years, 1-Year Cliff, Monthly',
+        description: '25% after 1 year, then 1/48th monthly.',
+        build: (grantDate) => cliffThen(grantDate, 12, 25, 1, 36)
+    },
+    {
+        id: '3y_annual',
+        label: '3 Years, Annual',
+        description: '1/3rd on each anniversary.',
+        build: (grantDate) => evenTranches(new Date(grantDate), 12, 3, 100)
+    },
+    {
+        id: '3y_quarterly',
+        label: '3 Years, Quarterly',
+        description: '1/12th every quarter.',
+        build: (grantDate) => evenTranches(new Date(grantDate), 3, 12, 100)
+    },
+    {
+        id: 'back_weighted_5_15_40_40',
+        label: 'Back-Weighted 5/15/40/40',
+        description: '5%, 15%, 40%, 40% on the first four anniversaries.',
+        build: (grantDate) => [5, 15, 40, 40].map((percent, i) => ({
+            date: toDateString(addMonths(new Date(grantDate), (i + 1) * 12)),
+            percent
+        }))
+    },
+    {
+        id: 'company_dates_4y_1y_cliff',
+        label: '4 Years, Company Dates (Feb/May/Aug/Nov 15)',
+        description: '25% on the first company vest date after 1 year, then 1/16th on each following one.',
+        build: (grantDate) => {
+            const dates = companyDatesFrom(addMonths(new Date(grantDate), 12), 13);
+            return dates.map((d, i) => ({ date: toDateString(d), percent: i === 0 ? 25 : 75 / 12 }));
+        }
+    }
+];
+
+/**
+ * Tranche definitions for a grant: its custom tranches, or the named standard template.
+ */
+export const getVestingDefinition = (schedule: VestingScheduleType, grantDate: string, customTranches?: VestingTrancheDefinition[]): VestingTrancheDefinition[] => {
+    if (schedule === 'custom') return customTranches || [];
+    const template = VESTING_TEMPLATES.find(t => t.id === schedule);
+    return template ? template.build(grantDate) : [];
+};
+
+/**
+ * Dated share counts for a definition. Share-count tranches are used as given; percentage
+ * tranches are taken of `totalShares`. Sorted by date.
+ */
+export const resolveVestingTranches = (definition: VestingTrancheDefinition[], totalShares: number): ResolvedTranche[] =>
+    definition
+        .filter(t => t.date)
+        .map(t => ({
+            date: new Date(t.date),
+            shares: t.shares !== undefined ? t.shares : totalShares * (t.percent || 0) / 100
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+/**
+ * Total allocated by a definition, as % of the grant and as shares.
+ */
+export const summarizeVestingDefinition = (definition: VestingTrancheDefinition[], totalShares: number) => {
+    const shares = resolveVestingTranches(definition, totalShares).reduce((sum, t) => sum + t.shares, 0);
+    return {
+        shares,
+        percent: totalShares > 0 ? (shares / totalShares) * 100 : 0
+    };
+};
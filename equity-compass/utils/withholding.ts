@@ -0,0 +1,59 @@
+import { TaxYearParameters } from './taxParameters';
+import { calculateFICAWithholding } from './federalSurtaxes';
+import { getSupplementalWithholdingRate } from './stateTax';
+import { StateShare } from './residency';
+
+// Payroll withholding on supplemental wages (RSU vests, NSO exercises).
+// Models what the employer actually takes, which is what the tax gap is measured against.
+
+export interface PayrollWithholding {
+    federal: number;
+    state: number;
+    fica: number;
+    total: number;
+    federalRate: number; // Blended federal rate across the $1M crossover
+}
+
+/**
+ * Federal withholding on `wages` given supplemental wages already paid this year.
+ * The portion above the $1M threshold is withheld at the mandatory top rate; below it,
+ * the flat supplemental rate applies unless the employee elected a different one.
+ */
+export const calculateFederalSupplementalWithholding = (
+    wages: number,
+    priorSupplementalWages: number,
+    params: TaxYearParameters,
+    electedRate?: number
+): number => {
+    const { rate, mandatoryRate, mandatoryThreshold } = params.supplementalWithholding;
+    const belowThreshold = Math.max(0, Math.min(wages, mandatoryThreshold - priorSupplementalWages));
+    const aboveThreshold = wages - belowThreshold;
+    return (belowThreshold * (electedRate !== undefined ? electedRate : rate)) + (aboveThreshold * mandatoryRate);
+};
+
+/**
+ * Federal + state + FICA withholding for one supplemental payment.
+ * `priorWages` (salary plus earlier vests) drives the FICA thresholds;
+ * `priorSupplementalWages` (earlier vests only) drives the federal $1M crossover.
+ */
+export const calculatePayrollWithholding = (
+    wages: number,
+    priorSupplementalWages: number,
+    priorWages: number,
+    params: TaxYearParameters,
+    stateShares: StateShare[],
+    electedRate?: number
+): PayrollWithholding => {
+    const federal = calculateFederalSupplementalWithholding(wages, priorSupplementalWages, params, electedRate);
+    // Payroll withholds for each work state on the wages sourced to it
+    const state = stateShares.reduce((sum, s) => sum + wages * s.fraction * getSupplementalWithholdingRate(s.state), 0);
+    const fica = calculateFICAWithholding(wages, priorWages, params).total;
+
+    return {
+        federal,
+        state,
+        fica,
+        total: federal + state + fica,
+        federalRate: wages > 0 ? federal / wages : 0
+    };
+};
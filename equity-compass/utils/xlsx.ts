@@ -0,0 +1,96 @@
+// Reads the cell text of every worksheet in an .xlsx workbook, so spreadsheet exports go
+// through the same parsers as CSV. An .xlsx file is a zip of XML parts; entries are inflated
+// with the browser's DecompressionStream and parsed with DOMParser. Formatting, formulas and
+// styles are ignored: dates come through as spreadsheet serials (see parseDateCell).
+
+interface ZipEntry {
+    name: string;
+    method: number; // 0 = stored, 8 = deflate
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): ZipEntry[] => {
+    // The end-of-central-directory record sits in the last 64KB (after an optional comment)
+    let end = -1;
+    for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { end = i; break; }
+    }
+    if (end < 0) throw new Error('Not an .xlsx file');
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt .xlsx file');
+        const nameLength = view.getUint16(offset + 28, true);
+        entries.push({
+            name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true)
+        });
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    }
+    return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+    const start = entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true);
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+    if (entry.method === 0) return new TextDecoder().decode(bytes);
+    if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`);
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+};
+
+// "BC12" -> 54
+const toColumnIndex = (ref: string): number =>
+    (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const textOf = (node: Element): string =>
+    Array.from(node.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+/**
+ * Rows of cell text for each worksheet, in workbook order. Blank rows are dropped.
+ */
+export const readXlsxSheets = async (data: ArrayBuffer): Promise<string[][][]> => {
+    const view = new DataView(data);
+    const entries = new Map(readZipEntries(view).map(e => [e.name, e]));
+    const parser = new DOMParser();
+    const readXml = async (name: string): Promise<Document | undefined> => {
+        const entry = entries.get(name);
+        return entry ? parser.parseFromString(await readZipText(view, entry), 'application/xml') : undefined;
+    };
+
+    const sharedStrings = Array.from((await readXml('xl/sharedStrings.xml'))?.getElementsByTagName('si') || []).map(textOf);
+
+    // Sheet order comes from the workbook; file names come from its relationships
+    const workbook = await readXml('xl/workbook.xml');
+    const rels = await readXml('xl/_rels/workbook.xml.rels');
+    const targets = new Map(Array.from(rels?.getElementsByTagName('Relationship') || [])
+        .map(r => [r.getAttribute('Id') || '', (r.getAttribute('Target') || '').replace(/^\/?(xl\/)?/, 'xl/')]));
+    const sheetNames = Array.from(workbook?.getElementsByTagName('sheet') || [])
+        .map(s => targets.get(s.getAttribute('r:id') || '') || '')
+        .filter(name => entries.has(name));
+
+    const sheets: string[][][] = [];
+    for (const name of sheetNames) {
+        const doc = await readXml(name);
+        const rows = Array.from(doc?.getElementsByTagName('row') || []).map(row => {
+            const cells: string[] = [];
+            Array.from(row.getElementsByTagName('c')).forEach((c, i) => {
+                const ref = c.getAttribute('r');
+                const type = c.getAttribute('t');
+                const value = c.getElementsByTagName('v')[0]?.textContent || '';
+                cells[ref ? toColumnIndex(ref) : i] = (type === 's'
+                    ? sharedStrings[parseInt(value, 10)] || ''
+                    : type === 'inlineStr' ? textOf(c) : value).trim();
+            });
+            return Array.from(cells, c => c || '');
+        });
+        sheets.push(rows.filter(row => row.some(c => c !== '')));
+    }
+    return sheets;
+};